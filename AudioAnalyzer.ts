@@ -0,0 +1,243 @@
+import { AudioLevels, AudioSourceType, MusicPlayerState } from './types';
+import { AUDIO_CONFIG } from './constants';
+
+const SILENT_LEVELS: AudioLevels = { bass: 0, mid: 0, treble: 0, energy: 0, beat: false, strength: 0 };
+
+// Plays a local playlist (or listens to the microphone) through an AnalyserNode
+// and reduces each frame to band energies plus bass beat onsets
+export class AudioAnalyzer {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private gain: GainNode | null = null;
+  private recordingOutput: MediaStreamAudioDestinationNode | null = null;
+  private frequencyData: Uint8Array<ArrayBuffer> | null = null;
+
+  private audio: HTMLAudioElement | null = null;
+  private mediaSource: MediaElementAudioSourceNode | null = null;
+  private microphone: MediaStream | null = null;
+  private microphoneSource: MediaStreamAudioSourceNode | null = null;
+
+  private files: File[] = [];
+  private trackUrl: string | null = null;
+  private currentTrack: number = -1;
+  private source: AudioSourceType = 'NONE';
+  private volume: number = AUDIO_CONFIG.DEFAULT_VOLUME;
+
+  private bassHistory: number[] = [];
+  private lastBeatTime: number = -Infinity;
+  private listeners = new Set<(state: MusicPlayerState) => void>();
+
+  // Created lazily: browsers only allow audio after a user gesture
+  private ensureContext() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = AUDIO_CONFIG.FFT_SIZE;
+      this.analyser.smoothingTimeConstant = AUDIO_CONFIG.SMOOTHING;
+      this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+
+      this.gain = this.context.createGain();
+      this.gain.gain.value = this.volume;
+      this.gain.connect(this.context.destination);
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+    return this.context;
+  }
+
+  // Replace the playlist and start the first track
+  public setPlaylist(files: File[]) {
+    const audioFiles = files.filter(file => file.type.startsWith('audio/'));
+    if (audioFiles.length === 0) {
+      throw new Error('No audio files were selected.');
+    }
+    this.files = audioFiles;
+    this.playTrack(0);
+  }
+
+  public playTrack(index: number) {
+    if (this.files.length === 0) return;
+    this.stopMicrophone();
+    const context = this.ensureContext();
+
+    if (!this.audio) {
+      this.audio = new Audio();
+      this.audio.addEventListener('ended', () => this.next());
+      this.audio.addEventListener('play', () => this.notify());
+      this.audio.addEventListener('pause', () => this.notify());
+      // A media element can only be connected once, so the source node is reused across tracks
+      this.mediaSource = context.createMediaElementSource(this.audio);
+      this.mediaSource.connect(this.analyser!);
+      this.mediaSource.connect(this.gain!);
+    }
+
+    this.currentTrack = (index + this.files.length) % this.files.length;
+    if (this.trackUrl) URL.revokeObjectURL(this.trackUrl);
+    this.trackUrl = URL.createObjectURL(this.files[this.currentTrack]);
+    this.audio.src = this.trackUrl;
+    this.source = 'FILE';
+    this.resetBeatDetection();
+    this.audio.play().catch(e => console.warn('Audio playback failed', e));
+    this.notify();
+  }
+
+  public next() {
+    this.playTrack(this.currentTrack + 1);
+  }
+
+  public previous() {
+    this.playTrack(this.currentTrack - 1);
+  }
+
+  public togglePlay() {
+    if (this.source !== 'FILE' || !this.audio) return;
+    if (this.audio.paused) {
+      this.ensureContext();
+      this.audio.play().catch(e => console.warn('Audio playback failed', e));
+    } else {
+      this.audio.pause();
+    }
+  }
+
+  // Analyse live microphone input instead of the playlist. It is not routed to the
+  // speakers, which would feed back.
+  public async useMicrophone() {
+    const context = this.ensureContext();
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      throw new Error('Microphone access denied. Please allow microphone permissions.');
+    }
+
+    this.audio?.pause();
+    this.stopMicrophone();
+    this.microphone = stream;
+    this.microphoneSource = context.createMediaStreamSource(stream);
+    this.microphoneSource.connect(this.analyser!);
+    this.source = 'MICROPHONE';
+    this.resetBeatDetection();
+    this.notify();
+  }
+
+  public stopMicrophone() {
+    if (!this.microphone) return;
+    this.microphoneSource?.disconnect();
+    this.microphone.getTracks().forEach(track => track.stop());
+    this.microphone = null;
+    this.microphoneSource = null;
+    this.source = this.currentTrack >= 0 ? 'FILE' : 'NONE';
+    this.notify();
+  }
+
+  public setVolume(volume: number) {
+    this.volume = Math.max(0, Math.min(1, volume));
+    if (this.gain) this.gain.gain.value = this.volume;
+    this.notify();
+  }
+
+  // Music and microphone as a MediaStream, for mixing into a recording. Taps the
+  // analyser so the microphone is included without reaching the speakers.
+  public getOutputStream(): MediaStream {
+    const context = this.ensureContext();
+    if (!this.recordingOutput) {
+      this.recordingOutput = context.createMediaStreamDestination();
+      this.analyser!.connect(this.recordingOutput);
+    }
+    return this.recordingOutput.stream;
+  }
+
+  public getState(): MusicPlayerState {
+    return {
+      source: this.source,
+      tracks: this.files.map(file => file.name),
+      currentTrack: this.currentTrack,
+      isPlaying: this.source === 'MICROPHONE' || Boolean(this.audio && !this.audio.paused),
+      volume: this.volume,
+    };
+  }
+
+  public subscribe(listener: (state: MusicPlayerState) => void) {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Sample the spectrum for this frame; cheap enough to call from the render loop
+  public analyse(now: number = performance.now()): AudioLevels {
+    if (!this.analyser || !this.frequencyData || !this.getState().isPlaying) {
+      return SILENT_LEVELS;
+    }
+
+    this.analyser.getByteFrequencyData(this.frequencyData);
+    const bass = this.bandEnergy(AUDIO_CONFIG.BASS_RANGE);
+    const mid = this.bandEnergy(AUDIO_CONFIG.MID_RANGE);
+    const treble = this.bandEnergy(AUDIO_CONFIG.TREBLE_RANGE);
+
+    // Onset when bass jumps above its recent average
+    const average = this.bassHistory.length > 0
+      ? this.bassHistory.reduce((sum, value) => sum + value, 0) / this.bassHistory.length
+      : bass;
+    this.bassHistory.push(bass);
+    if (this.bassHistory.length > AUDIO_CONFIG.BEAT_HISTORY) {
+      this.bassHistory.shift();
+    }
+
+    const beat =
+      bass > AUDIO_CONFIG.BEAT_MIN_ENERGY &&
+      bass > average * AUDIO_CONFIG.BEAT_THRESHOLD &&
+      now - this.lastBeatTime > AUDIO_CONFIG.BEAT_COOLDOWN;
+    if (beat) this.lastBeatTime = now;
+
+    return {
+      bass,
+      mid,
+      treble,
+      energy: bass * 0.5 + mid * 0.3 + treble * 0.2,
+      beat,
+      strength: beat ? Math.min(1, (bass / Math.max(average, 1e-3) - 1) / AUDIO_CONFIG.BEAT_THRESHOLD) : 0,
+    };
+  }
+
+  private bandEnergy([low, high]: readonly number[]): number {
+    const binWidth = this.context!.sampleRate / AUDIO_CONFIG.FFT_SIZE;
+    const start = Math.max(0, Math.floor(low / binWidth));
+    const end = Math.min(this.frequencyData!.length - 1, Math.ceil(high / binWidth));
+    let sum = 0;
+    for (let i = start; i <= end; i++) {
+      sum += this.frequencyData![i];
+    }
+    return sum / ((end - start + 1) * 255);
+  }
+
+  private resetBeatDetection() {
+    this.bassHistory = [];
+    this.lastBeatTime = -Infinity;
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  // Release the audio graph. The analyzer stays usable: the next track or microphone starts a new context.
+  public dispose() {
+    this.stopMicrophone();
+    this.audio?.pause();
+    if (this.trackUrl) URL.revokeObjectURL(this.trackUrl);
+    this.context?.close();
+    this.context = null;
+    this.analyser = null;
+    this.gain = null;
+    this.recordingOutput = null;
+    this.frequencyData = null;
+    this.audio = null;
+    this.mediaSource = null;
+    this.trackUrl = null;
+    this.source = 'NONE';
+    this.notify();
+  }
+}
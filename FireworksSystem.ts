@@ -0,0 +1,381 @@
+import * as THREE from 'three';
+import { FireworksSettings } from './types';
+
+interface FireworkLayer {
+  points: THREE.Points;
+  positions: Float32Array;
+  colors: Float32Array;
+  velocities: Float32Array;
+  delay: number;
+  speed: number;
+  launched: boolean;
+}
+
+interface FireworkBurst {
+  layers: FireworkLayer[];
+  origin: THREE.Vector3;
+  colorA: THREE.Color;
+  colorB: THREE.Color;
+  age: number;
+  startedAt: number; // Burst sequence number, used to recycle the oldest burst
+  active: boolean;
+}
+
+// A rising rocket that leaves a sparkling trail before bursting
+interface Rocket {
+  trail: THREE.Points;
+  positions: Float32Array;
+  colors: Float32Array;
+  velocities: Float32Array;
+  ages: Float32Array;
+  color: THREE.Color;
+  nextTrailIndex: number;
+  start: THREE.Vector3;
+  target: THREE.Vector3;
+  head: THREE.Vector3;
+  age: number;
+  startedAt: number;
+  active: boolean;
+}
+
+function createPoints(count: number, size: number) {
+  const geometry = new THREE.BufferGeometry();
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3).setUsage(THREE.DynamicDrawUsage));
+  geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3).setUsage(THREE.DynamicDrawUsage));
+
+  const material = new THREE.PointsMaterial({
+    size,
+    vertexColors: true,
+    blending: THREE.AdditiveBlending,
+    transparent: true,
+    depthWrite: false,
+    sizeAttenuation: true, // Distance attenuation
+  });
+
+  const points = new THREE.Points(geometry, material);
+  points.visible = false;
+  points.frustumCulled = false;
+  return { points, positions, colors };
+}
+
+// Pre-allocated pool of layered bursts and rockets.
+// Nothing is allocated after construction; when the pool is full the oldest slot is recycled.
+export class FireworksSystem {
+  private bursts: FireworkBurst[] = [];
+  private rockets: Rocket[] = [];
+  private sequence: number = 0;
+  private hues: number[] = [];
+  private onBurst: ((origin: THREE.Vector3) => void) | null = null;
+
+  // Pool sizes, burst layers and the trail length are fixed here; everything else can change through setConfig
+  constructor(private scene: THREE.Scene, private config: FireworksSettings) {
+    for (let i = 0; i < config.MAX_BURSTS; i++) {
+      this.bursts.push(this.createBurstSlot());
+    }
+    for (let i = 0; i < config.MAX_ROCKETS; i++) {
+      this.rockets.push(this.createRocketSlot());
+    }
+  }
+
+  public setConfig(config: FireworksSettings) {
+    this.config = config;
+  }
+
+  public get activeBurstCount() {
+    return this.bursts.reduce((count, burst) => count + (burst.active ? 1 : 0), 0);
+  }
+
+  // Restrict burst colours to the theme's hues (empty for random hues)
+  public setHues(hues: number[]) {
+    this.hues = [...hues];
+  }
+
+  // Notified whenever a burst starts, e.g. to play a sound at its position
+  public setBurstListener(listener: ((origin: THREE.Vector3) => void) | null) {
+    this.onBurst = listener;
+  }
+
+  // Start a layered burst at a world position; layers launch after their delays
+  public burst(x: number, y: number, z: number) {
+    const burst = this.acquire(this.bursts);
+    burst.origin.set(x, y, z);
+    if (this.hues.length > 0) {
+      burst.colorA.setHSL(this.pickHue(), 1.0, 0.6);
+      burst.colorB.setHSL(this.pickHue(), 1.0, 0.7);
+    } else {
+      burst.colorA.setHSL(Math.random(), 1.0, 0.6);
+      burst.colorB.setHSL((Math.random() + 0.3) % 1.0, 1.0, 0.7); // Complementary color
+    }
+    burst.age = 0;
+    burst.startedAt = this.sequence++;
+    burst.active = true;
+    burst.layers.forEach(layer => {
+      layer.launched = false;
+      layer.points.visible = false;
+    });
+    this.onBurst?.(burst.origin);
+  }
+
+  // Launch a rocket from below the tree that bursts at the world-space target
+  public launch(target: THREE.Vector3) {
+    const rocket = this.acquire(this.rockets);
+    rocket.target.copy(target);
+    // Launch slightly off to the side so the path is not perfectly vertical
+    rocket.start.set(target.x + (Math.random() - 0.5) * 4, this.config.ROCKET_LAUNCH_Y, target.z);
+    rocket.head.copy(rocket.start);
+    rocket.color.setHSL(0.1 + Math.random() * 0.05, 1.0, 0.7);
+    rocket.ages.fill(this.config.ROCKET_TRAIL_LIFETIME);
+    rocket.colors.fill(0);
+    rocket.nextTrailIndex = 0;
+    rocket.age = 0;
+    rocket.startedAt = this.sequence++;
+    rocket.active = true;
+    rocket.trail.visible = true;
+  }
+
+  public update(timeDelta: number) {
+    for (let i = 0; i < this.rockets.length; i++) {
+      if (this.rockets[i].active) this.updateRocket(this.rockets[i], timeDelta);
+    }
+    for (let i = 0; i < this.bursts.length; i++) {
+      if (this.bursts[i].active) this.updateBurst(this.bursts[i], timeDelta);
+    }
+  }
+
+  // Dispose every slot, including bursts and rockets still in flight
+  public dispose() {
+    const disposePoints = (points: THREE.Points) => {
+      this.scene.remove(points);
+      points.geometry.dispose();
+      (points.material as THREE.Material).dispose();
+    };
+    this.bursts.forEach(burst => burst.layers.forEach(layer => disposePoints(layer.points)));
+    this.rockets.forEach(rocket => disposePoints(rocket.trail));
+    this.bursts = [];
+    this.rockets = [];
+  }
+
+  private pickHue() {
+    return this.hues[Math.floor(Math.random() * this.hues.length)];
+  }
+
+  // First free slot, or the oldest active one
+  private acquire<T extends { active: boolean; startedAt: number }>(slots: T[]): T {
+    let oldest = slots[0];
+    for (const slot of slots) {
+      if (!slot.active) return slot;
+      if (slot.startedAt < oldest.startedAt) oldest = slot;
+    }
+    return oldest;
+  }
+
+  private createBurstSlot(): FireworkBurst {
+    const layers = this.config.LAYERS.map(layerConfig => {
+      const { points, positions, colors } = createPoints(layerConfig.COUNT, layerConfig.SIZE);
+      this.scene.add(points);
+      return {
+        points,
+        positions,
+        colors,
+        velocities: new Float32Array(layerConfig.COUNT * 3),
+        delay: layerConfig.DELAY,
+        speed: layerConfig.SPEED,
+        launched: false,
+      };
+    });
+
+    return {
+      layers,
+      origin: new THREE.Vector3(),
+      colorA: new THREE.Color(),
+      colorB: new THREE.Color(),
+      age: 0,
+      startedAt: -1,
+      active: false,
+    };
+  }
+
+  private createRocketSlot(): Rocket {
+    const count = this.config.ROCKET_TRAIL_COUNT;
+    const { points, positions, colors } = createPoints(count, 0.5);
+    this.scene.add(points);
+
+    return {
+      trail: points,
+      positions,
+      colors,
+      velocities: new Float32Array(count * 3),
+      ages: new Float32Array(count),
+      color: new THREE.Color(),
+      nextTrailIndex: 0,
+      start: new THREE.Vector3(),
+      target: new THREE.Vector3(),
+      head: new THREE.Vector3(),
+      age: 0,
+      startedAt: -1,
+      active: false,
+    };
+  }
+
+  private launchLayer(burst: FireworkBurst, layer: FireworkLayer) {
+    const count = layer.positions.length / 3;
+    const { x, y, z } = burst.origin;
+
+    for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      layer.positions[i3] = x;
+      layer.positions[i3 + 1] = y;
+      layer.positions[i3 + 2] = z;
+
+      // Spherical uniform distribution
+      const theta = Math.random() * Math.PI * 2;
+      const phi = Math.acos(2 * Math.random() - 1);
+      const speed = (Math.random() * 0.4 + 0.8) * layer.speed;
+
+      layer.velocities[i3] = Math.sin(phi) * Math.cos(theta) * speed;
+      layer.velocities[i3 + 1] = Math.sin(phi) * Math.sin(theta) * speed;
+      layer.velocities[i3 + 2] = Math.cos(phi) * speed;
+
+      // Gradient colors (from colorA to colorB)
+      const mix = i / count;
+      layer.colors[i3] = burst.colorA.r + (burst.colorB.r - burst.colorA.r) * mix;
+      layer.colors[i3 + 1] = burst.colorA.g + (burst.colorB.g - burst.colorA.g) * mix;
+      layer.colors[i3 + 2] = burst.colorA.b + (burst.colorB.b - burst.colorA.b) * mix;
+    }
+
+    layer.launched = true;
+    layer.points.visible = true;
+    (layer.points.material as THREE.PointsMaterial).opacity = 1;
+    layer.points.geometry.attributes.color.needsUpdate = true;
+  }
+
+  private updateBurst(burst: FireworkBurst, timeDelta: number) {
+    burst.age += timeDelta;
+    const lifetime = this.config.LIFETIME;
+    let anyAlive = false;
+
+    for (const layer of burst.layers) {
+      // Layer delays are measured in scene time, not timers
+      if (!layer.launched) {
+        if (burst.age >= layer.delay) this.launchLayer(burst, layer);
+        else {
+          anyAlive = true;
+          continue;
+        }
+      }
+
+      const layerAge = burst.age - layer.delay;
+      if (layerAge > lifetime) {
+        layer.points.visible = false;
+        continue;
+      }
+      anyAlive = true;
+
+      const { positions, velocities, colors } = layer;
+      const count = positions.length / 3;
+      const ageFactor = layerAge / lifetime;
+      const whiteMix = ageFactor > 0.5 ? (ageFactor - 0.5) * 0.6 : 0; // Gradually brighten in the second half
+
+      for (let j = 0; j < count; j++) {
+        const j3 = j * 3;
+
+        positions[j3] += velocities[j3];
+        positions[j3 + 1] += velocities[j3 + 1];
+        positions[j3 + 2] += velocities[j3 + 2];
+
+        // Gravity effect
+        velocities[j3 + 1] -= this.config.GRAVITY;
+
+        // Air resistance
+        velocities[j3] *= this.config.AIR_RESISTANCE;
+        velocities[j3 + 1] *= this.config.AIR_RESISTANCE;
+        velocities[j3 + 2] *= this.config.AIR_RESISTANCE;
+
+        if (whiteMix > 0) {
+          colors[j3] = colors[j3] * (1 - whiteMix) + whiteMix;
+          colors[j3 + 1] = colors[j3 + 1] * (1 - whiteMix) + whiteMix;
+          colors[j3 + 2] = colors[j3 + 2] * (1 - whiteMix) + whiteMix;
+        }
+      }
+
+      layer.points.geometry.attributes.position.needsUpdate = true;
+      if (whiteMix > 0) layer.points.geometry.attributes.color.needsUpdate = true;
+
+      // Non-linear opacity fade (bright first, then quickly disappear)
+      (layer.points.material as THREE.PointsMaterial).opacity =
+        ageFactor < 0.7 ? 1.0 : 1 - (ageFactor - 0.7) / 0.3;
+    }
+
+    if (!anyAlive) burst.active = false;
+  }
+
+  private updateRocket(rocket: Rocket, timeDelta: number) {
+    const duration = this.config.ROCKET_DURATION;
+    const launching = rocket.age < duration;
+    rocket.age += timeDelta;
+
+    // Ease out so the rocket slows down as it reaches the burst point
+    const t = Math.min(rocket.age / duration, 1);
+    const eased = 1 - (1 - t) * (1 - t);
+    rocket.head.lerpVectors(rocket.start, rocket.target, eased);
+    rocket.head.x += Math.sin(rocket.age * 25) * 0.08 * (1 - t);
+
+    const { positions, colors, velocities, ages } = rocket;
+    const count = ages.length;
+    const trailLifetime = this.config.ROCKET_TRAIL_LIFETIME;
+
+    // Emit new sparks at the head while the rocket is still rising
+    if (launching) {
+      for (let s = 0; s < this.config.ROCKET_TRAIL_SPAWN; s++) {
+        const j = rocket.nextTrailIndex;
+        const j3 = j * 3;
+        rocket.nextTrailIndex = (j + 1) % count;
+        positions[j3] = rocket.head.x;
+        positions[j3 + 1] = rocket.head.y;
+        positions[j3 + 2] = rocket.head.z;
+        velocities[j3] = (Math.random() - 0.5) * 0.06;
+        velocities[j3 + 1] = -Math.random() * 0.05;
+        velocities[j3 + 2] = (Math.random() - 0.5) * 0.06;
+        ages[j] = 0;
+      }
+    }
+
+    let alive = 0;
+    for (let j = 0; j < count; j++) {
+      const j3 = j * 3;
+      ages[j] += timeDelta;
+      const life = 1 - ages[j] / trailLifetime;
+      if (life <= 0) {
+        colors[j3] = colors[j3 + 1] = colors[j3 + 2] = 0;
+        continue;
+      }
+      alive++;
+
+      positions[j3] += velocities[j3];
+      positions[j3 + 1] += velocities[j3 + 1];
+      positions[j3 + 2] += velocities[j3 + 2];
+      velocities[j3 + 1] -= this.config.GRAVITY * 0.3;
+
+      // Flicker while fading out
+      const sparkle = life * (0.5 + Math.random() * 0.8);
+      colors[j3] = rocket.color.r * sparkle;
+      colors[j3 + 1] = rocket.color.g * sparkle;
+      colors[j3 + 2] = rocket.color.b * sparkle;
+    }
+
+    rocket.trail.geometry.attributes.position.needsUpdate = true;
+    rocket.trail.geometry.attributes.color.needsUpdate = true;
+
+    // Burst stage: the layered explosion at the target
+    if (launching && rocket.age >= duration) {
+      this.burst(rocket.target.x, rocket.target.y, rocket.target.z);
+    }
+
+    if (!launching && alive === 0) {
+      rocket.active = false;
+      rocket.trail.visible = false;
+    }
+  }
+}
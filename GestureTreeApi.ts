@@ -0,0 +1,112 @@
+import { EmbedCommand, RuntimeConfig, ThemeDefinition } from './types';
+import { ThreeScene } from './ThreeScene';
+import { parseTheme, themeRegistry } from './themes';
+
+export interface GestureTreeApiOptions {
+  settings: RuntimeConfig; // See resolveConfig in runtimeConfig.ts
+  theme?: string | ThemeDefinition;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// A theme id from the registry, or a definition validated like an imported file
+function resolveTheme(theme: string | ThemeDefinition): ThemeDefinition {
+  if (typeof theme !== 'string') return parseTheme(theme);
+  const found = themeRegistry.get(theme);
+  if (!found) {
+    throw new Error(`Unknown theme "${theme}".`);
+  }
+  return found;
+}
+
+// Imperative wrapper around ThreeScene for pages that embed the tree without the React app.
+// Every method throws once the tree has been disposed.
+export class GestureTreeApi {
+  private scene: ThreeScene | null;
+
+  constructor(container: HTMLElement, options: GestureTreeApiOptions) {
+    this.scene = new ThreeScene({
+      container,
+      initialTheme: options.theme ? resolveTheme(options.theme) : undefined,
+      settings: options.settings,
+      onWindowResize: () => this.resize(),
+      onParticleUpdate: () => {},
+    });
+  }
+
+  // 0 releases the tree, 1 pulls it fully together
+  public assemble(strength: number) {
+    const value = clamp(strength, 0, 1);
+    this.getScene().updatePinchState(value > 0, value);
+  }
+
+  public rotate(x: number, y: number) {
+    this.getScene().updateRotationTarget(clamp(x, -1, 1), clamp(y, -1, 1));
+  }
+
+  public setTheme(theme: string | ThemeDefinition) {
+    this.getScene().updateColorTheme(resolveTheme(theme));
+  }
+
+  public getTheme(): ThemeDefinition {
+    return this.getScene().getColorTheme();
+  }
+
+  public snow(visible: boolean) {
+    this.getScene().toggleSnow(visible);
+  }
+
+  // Burst at a world position; the tree stands around the origin
+  public fireworks(x: number, y: number, z: number) {
+    this.getScene().createFireworks(x, y, z);
+  }
+
+  // Rocket rising to a normalised webcam position, as the three-finger gesture does
+  public launchFirework(screenX: number, screenY: number) {
+    this.getScene().launchFirework(screenX, screenY);
+  }
+
+  public setConfig(settings: RuntimeConfig) {
+    this.getScene().applyConfig(settings);
+  }
+
+  public resize() {
+    this.scene?.updateSize();
+  }
+
+  public run(command: EmbedCommand) {
+    switch (command.command) {
+      case 'assemble':
+        this.assemble(command.strength);
+        break;
+      case 'rotate':
+        this.rotate(command.x, command.y);
+        break;
+      case 'setTheme':
+        this.setTheme(command.theme);
+        break;
+      case 'snow':
+        this.snow(command.visible);
+        break;
+      case 'fireworks':
+        this.fireworks(command.x, command.y, command.z);
+        break;
+    }
+  }
+
+  public isDisposed() {
+    return this.scene === null;
+  }
+
+  public dispose() {
+    this.scene?.dispose();
+    this.scene = null;
+  }
+
+  private getScene(): ThreeScene {
+    if (!this.scene) {
+      throw new Error('The tree has been disposed.');
+    }
+    return this.scene;
+  }
+}
@@ -0,0 +1,204 @@
+import ReactDOM from 'react-dom/client';
+import { EmbedCommand, RuntimeConfig, ThemeDefinition } from './types';
+import { EMBED_CONFIG } from './constants';
+import { GestureTreeApi } from './GestureTreeApi';
+import { resolveConfig } from './runtimeConfig';
+import { setDefaultGestureThresholds } from './utils';
+import GestureDriver from './components/GestureDriver';
+
+const STYLE = `
+  :host { display: block; position: relative; overflow: hidden; width: 100%; height: 100%; min-height: 300px; }
+  .scene { position: absolute; inset: 0; }
+`;
+
+// The MediaPipe globals, injected once for every element on the page
+let mediaPipeLoading: Promise<void> | null = null;
+
+function loadMediaPipe(): Promise<void> {
+  if (window.Hands) return Promise.resolve();
+  if (!mediaPipeLoading) {
+    mediaPipeLoading = Promise.all(EMBED_CONFIG.MEDIAPIPE_SCRIPTS.map(src => new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = src;
+      script.crossOrigin = 'anonymous';
+      script.onload = () => resolve();
+      script.onerror = () => reject(new Error(`Failed to load ${src}.`));
+      document.head.appendChild(script);
+    }))).then(() => undefined);
+    mediaPipeLoading.catch(() => {
+      mediaPipeLoading = null; // Let a later element try again
+    });
+  }
+  return mediaPipeLoading;
+}
+
+// <gesture-tree theme="classic" config='{"PARTICLE_CONFIG":{"COUNT":4000}}' gestures>
+//
+// theme    Theme id from the registry
+// config   JSON in the config.json format; invalid values are skipped and reported
+// gestures Present to use the webcam; without it the host drives the tree through the methods
+//
+// Events (bubbling, composed): gesture and motiongesture (cancelable; preventDefault() skips
+// the built-in action), camerastatus, treeerror, ready.
+export class GestureTreeElement extends HTMLElement {
+  static get observedAttributes() {
+    return ['theme', 'config', 'gestures'];
+  }
+
+  private container: HTMLDivElement;
+  private driverContainer: HTMLDivElement;
+  private api: GestureTreeApi | null = null;
+  private settings: RuntimeConfig | null = null;
+  private driverRoot: ReactDOM.Root | null = null;
+  private resizeObserver = new ResizeObserver(() => this.api?.resize());
+
+  constructor() {
+    super();
+    const shadow = this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = STYLE;
+    this.container = document.createElement('div');
+    this.container.className = 'scene';
+    this.driverContainer = document.createElement('div');
+    shadow.append(style, this.container, this.driverContainer);
+  }
+
+  connectedCallback() {
+    if (this.api) return;
+    this.settings = this.readConfig();
+    const theme = this.getAttribute('theme');
+    try {
+      this.api = new GestureTreeApi(this.container, { settings: this.settings, theme: theme || undefined });
+    } catch (e: any) {
+      // Unknown theme: start with the default one
+      this.reportError(e.message);
+      this.api = new GestureTreeApi(this.container, { settings: this.settings });
+    }
+    this.resizeObserver.observe(this);
+    this.updateDriver();
+    this.emit('ready', null);
+  }
+
+  disconnectedCallback() {
+    this.teardown();
+  }
+
+  attributeChangedCallback(name: string, previous: string | null, value: string | null) {
+    if (!this.api || previous === value) return;
+
+    if (name === 'theme' && value) {
+      try {
+        this.api.setTheme(value);
+      } catch (e: any) {
+        this.reportError(e.message);
+      }
+    } else if (name === 'config') {
+      this.settings = this.readConfig();
+      this.api.setConfig(this.settings);
+      this.updateDriver();
+    } else if (name === 'gestures') {
+      this.updateDriver();
+    }
+  }
+
+  public assemble(strength: number) {
+    this.getApi().assemble(strength);
+  }
+
+  public rotate(x: number, y: number) {
+    this.getApi().rotate(x, y);
+  }
+
+  public setTheme(theme: string | ThemeDefinition) {
+    this.getApi().setTheme(theme);
+  }
+
+  public snow(visible: boolean) {
+    this.getApi().snow(visible);
+  }
+
+  public fireworks(x: number, y: number, z: number) {
+    this.getApi().fireworks(x, y, z);
+  }
+
+  public run(command: EmbedCommand) {
+    this.getApi().run(command);
+  }
+
+  // Stop the camera and free the scene; re-inserting the element starts over
+  public dispose() {
+    this.teardown();
+  }
+
+  private getApi(): GestureTreeApi {
+    if (!this.api) {
+      throw new Error('<gesture-tree> is not connected.');
+    }
+    return this.api;
+  }
+
+  private readConfig(): RuntimeConfig {
+    let data: unknown = {};
+    const attribute = this.getAttribute('config');
+    if (attribute) {
+      try {
+        data = JSON.parse(attribute);
+      } catch (e: any) {
+        this.reportError(`Invalid config attribute: ${e.message}`);
+      }
+    }
+    const { config, issues } = resolveConfig(data, 'attribute');
+    issues.forEach(issue => this.reportError(`Invalid config ${issue.path}: ${issue.message}`));
+    setDefaultGestureThresholds(config.GESTURE_THRESHOLDS);
+    return config;
+  }
+
+  // Mount or unmount the camera layer to match the gestures attribute
+  private async updateDriver() {
+    if (!this.api || !this.hasAttribute('gestures')) {
+      this.driverRoot?.unmount();
+      this.driverRoot = null;
+      return;
+    }
+
+    try {
+      await loadMediaPipe();
+    } catch (e: any) {
+      this.reportError(e.message);
+      return;
+    }
+
+    // Disconnected or switched off while the scripts were loading
+    const api = this.api;
+    if (!api || !this.settings || !this.hasAttribute('gestures')) return;
+    if (!this.driverRoot) {
+      this.driverRoot = ReactDOM.createRoot(this.driverContainer);
+    }
+    this.driverRoot.render(
+      <GestureDriver api={api} tracking={this.settings.TRACKING_CONFIG} zoom={this.settings.ZOOM_CONFIG} emit={this.emit} />
+    );
+  }
+
+  private teardown() {
+    this.driverRoot?.unmount();
+    this.driverRoot = null;
+    this.resizeObserver.disconnect();
+    this.api?.dispose();
+    this.api = null;
+  }
+
+  private emit = (name: string, detail: unknown, cancelable: boolean = false): boolean => {
+    return this.dispatchEvent(new CustomEvent(name, { detail, bubbles: true, composed: true, cancelable }));
+  };
+
+  private reportError(message: string) {
+    console.warn(`<gesture-tree>: ${message}`);
+    this.emit('treeerror', { message });
+  }
+}
+
+export function defineGestureTree(tagName: string = EMBED_CONFIG.TAG_NAME) {
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, GestureTreeElement);
+  }
+}
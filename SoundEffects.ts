@@ -0,0 +1,270 @@
+import { SoundCue, SoundSettings } from './types';
+import { SOUND_CONFIG } from './constants';
+
+interface ToneOptions {
+  type?: OscillatorType;
+  gain?: number;
+  glideTo?: number; // Frequency at the end of the note
+  attack?: number;
+}
+
+interface NoiseOptions {
+  filter: BiquadFilterType;
+  from: number; // Filter frequency sweep in Hz
+  to: number;
+  gain?: number;
+  pan?: number;
+}
+
+// Feedback sounds synthesised with Web Audio; no audio assets are loaded
+export class SoundEffects {
+  private context: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
+  private recordingOutput: MediaStreamAudioDestinationNode | null = null;
+  private settings: SoundSettings = { muted: false, volume: SOUND_CONFIG.DEFAULT_VOLUME };
+  private chimeTimer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<(settings: SoundSettings) => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  // Browsers keep audio suspended until the page receives a user gesture. Call when mounted;
+  // dispose() undoes it, so the pair can run again (e.g. under React StrictMode).
+  public connect() {
+    window.addEventListener('pointerdown', this.unlock);
+    window.addEventListener('keydown', this.unlock);
+  }
+
+  private unlock = () => {
+    this.ensureContext();
+    window.removeEventListener('pointerdown', this.unlock);
+    window.removeEventListener('keydown', this.unlock);
+  };
+
+  private ensureContext() {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.master = this.context.createGain();
+      this.master.connect(this.context.destination);
+      this.applyVolume();
+
+      // One second of white noise, reused for whooshes and booms
+      const buffer = this.context.createBuffer(1, this.context.sampleRate, this.context.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+      this.noiseBuffer = buffer;
+    }
+    if (this.context.state === 'suspended') {
+      this.context.resume();
+    }
+    return this.context;
+  }
+
+  private tone(frequency: number, start: number, duration: number, options: ToneOptions = {}) {
+    const context = this.context!;
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+    const peak = options.gain ?? 0.3;
+    const attack = options.attack ?? 0.01;
+
+    oscillator.type = options.type ?? 'sine';
+    oscillator.frequency.setValueAtTime(frequency, start);
+    if (options.glideTo) {
+      oscillator.frequency.exponentialRampToValueAtTime(options.glideTo, start + duration);
+    }
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(peak, start + attack);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+    oscillator.connect(envelope);
+    envelope.connect(this.master!);
+    oscillator.start(start);
+    oscillator.stop(start + duration + 0.05);
+  }
+
+  private noise(start: number, duration: number, options: NoiseOptions) {
+    const context = this.context!;
+    const source = context.createBufferSource();
+    source.buffer = this.noiseBuffer;
+    source.loop = true;
+
+    const filter = context.createBiquadFilter();
+    filter.type = options.filter;
+    filter.frequency.setValueAtTime(options.from, start);
+    filter.frequency.exponentialRampToValueAtTime(options.to, start + duration);
+
+    const envelope = context.createGain();
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(options.gain ?? 0.3, start + Math.min(0.05, duration / 4));
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+
+    const panner = context.createStereoPanner();
+    panner.pan.value = options.pan ?? 0;
+
+    source.connect(filter);
+    filter.connect(envelope);
+    envelope.connect(panner);
+    panner.connect(this.master!);
+    source.start(start);
+    source.stop(start + duration + 0.05);
+  }
+
+  // A bell-like note: fundamental plus a quieter inharmonic partial
+  private bell(frequency: number, start: number, gain: number) {
+    this.tone(frequency, start, 1.2, { gain });
+    this.tone(frequency * 2.76, start, 0.6, { gain: gain * 0.3 });
+  }
+
+  public play(cue: SoundCue) {
+    if (this.settings.muted) return;
+    const now = this.ensureContext().currentTime;
+
+    switch (cue) {
+      case 'THEME':
+        // Rising two-note chime
+        this.bell(659.25, now, 0.2);
+        this.bell(987.77, now + 0.12, 0.2);
+        break;
+      case 'SNOW':
+        // Soft descending sparkles
+        [1568, 1318.5, 1174.7, 987.77].forEach((frequency, i) => {
+          this.tone(frequency, now + i * 0.08, 0.5, { type: 'triangle', gain: 0.08 });
+        });
+        break;
+      case 'LAUNCH':
+        this.noise(now, 0.7, { filter: 'bandpass', from: 400, to: 3000, gain: 0.15 });
+        this.tone(300, now, 0.7, { type: 'sine', glideTo: 1200, gain: 0.05 });
+        break;
+      case 'ASSEMBLE':
+        // Warm swell as the particles gather
+        this.tone(130.81, now, 1.0, { type: 'triangle', gain: 0.15, attack: 0.3 });
+        this.tone(196.0, now, 1.0, { type: 'sine', gain: 0.1, attack: 0.3 });
+        break;
+      case 'RELEASE':
+        this.noise(now, 0.6, { filter: 'lowpass', from: 4000, to: 300, gain: 0.15 });
+        break;
+      case 'RESET':
+        this.tone(880, now, 0.15, { type: 'square', gain: 0.05 });
+        this.tone(440, now + 0.1, 0.25, { type: 'square', gain: 0.05 });
+        break;
+      case 'SWIPE':
+        this.noise(now, 0.3, { filter: 'highpass', from: 800, to: 4000, gain: 0.12 });
+        break;
+      case 'CIRCLE':
+        [523.25, 659.25, 783.99, 1046.5].forEach((frequency, i) => {
+          this.tone(frequency, now + i * 0.06, 0.3, { type: 'triangle', gain: 0.08 });
+        });
+        break;
+      case 'WAVE':
+        this.bell(783.99, now, 0.15);
+        this.bell(659.25, now + 0.15, 0.15);
+        this.bell(783.99, now + 0.3, 0.15);
+        break;
+      case 'PLACE':
+        this.tone(1318.5, now, 0.25, { type: 'sine', gain: 0.15 });
+        break;
+    }
+  }
+
+  // Firework boom, panned to where the burst appears on screen (-1 left .. 1 right)
+  public playBurst(pan: number) {
+    if (this.settings.muted) return;
+    const now = this.ensureContext().currentTime;
+    this.noise(now, 1.2, { filter: 'lowpass', from: 2000, to: 80, gain: 0.5, pan });
+    this.tone(70, now, 0.6, { type: 'sine', glideTo: 35, gain: 0.4 });
+  }
+
+  // Gentle random bells for as long as the tree stays assembled
+  public setChimeActive(active: boolean) {
+    if (active === (this.chimeTimer !== null)) return;
+
+    if (!active) {
+      clearInterval(this.chimeTimer!);
+      this.chimeTimer = null;
+      return;
+    }
+    this.chimeTimer = setInterval(() => {
+      if (this.settings.muted || !this.context || this.context.state !== 'running') return;
+      const notes = SOUND_CONFIG.CHIME_NOTES;
+      this.bell(notes[Math.floor(Math.random() * notes.length)], this.context.currentTime, 0.05);
+    }, SOUND_CONFIG.CHIME_INTERVAL);
+  }
+
+  // Sound effects as a MediaStream, for mixing into a recording
+  public getOutputStream(): MediaStream {
+    const context = this.ensureContext();
+    if (!this.recordingOutput) {
+      this.recordingOutput = context.createMediaStreamDestination();
+      this.master!.connect(this.recordingOutput);
+    }
+    return this.recordingOutput.stream;
+  }
+
+  public getSettings(): SoundSettings {
+    return { ...this.settings };
+  }
+
+  public setMuted(muted: boolean) {
+    this.settings.muted = muted;
+    this.applyVolume();
+    this.persist();
+  }
+
+  public setVolume(volume: number) {
+    this.settings.volume = Math.max(0, Math.min(1, volume));
+    this.applyVolume();
+    this.persist();
+  }
+
+  public subscribe(listener: (settings: SoundSettings) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private applyVolume() {
+    if (this.master) {
+      this.master.gain.value = this.settings.muted ? 0 : this.settings.volume;
+    }
+  }
+
+  private load() {
+    try {
+      const stored = localStorage.getItem(SOUND_CONFIG.STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      if (typeof data.muted === 'boolean') this.settings.muted = data.muted;
+      if (typeof data.volume === 'number' && Number.isFinite(data.volume)) {
+        this.settings.volume = Math.max(0, Math.min(1, data.volume));
+      }
+    } catch (e) {
+      console.warn('Failed to load sound settings', e);
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(SOUND_CONFIG.STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (e) {
+      console.warn('Failed to persist sound settings', e);
+    }
+    const settings = this.getSettings();
+    this.listeners.forEach(listener => listener(settings));
+  }
+
+  public dispose() {
+    this.setChimeActive(false);
+    window.removeEventListener('pointerdown', this.unlock);
+    window.removeEventListener('keydown', this.unlock);
+    this.context?.close();
+    this.context = null;
+    this.master = null;
+    this.recordingOutput = null;
+    this.noiseBuffer = null;
+  }
+}
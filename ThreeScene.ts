@@ -3,18 +3,40 @@ import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
 import { gsap } from 'gsap';
-import { PARTICLE_CONFIG, RENDER_CONFIG, ANIMATION_CONFIG, SNOW_CONFIG, FIREWORKS_CONFIG } from './constants';
+import {
+  TREE_CONFIG,
+  THEME_CONFIG,
+  SHAPE_CONFIG,
+  DECORATION_CONFIG,
+  DECORATE_CONFIG,
+  AR_CONFIG
+} from './constants';
+import {
+  ThemeDefinition,
+  ThemeGradientStop,
+  ShapeDefinition,
+  EasingName,
+  PlacedOrnament,
+  PalmState,
+  RuntimeConfig
+} from './types';
+import { BUILT_IN_THEMES } from './themes';
+import { getShape } from './shapes';
 import { 
-  calculateTreeParticlePositions, 
   calculateExplodedParticlePositions, 
   generateParticleColors,
-  createFireworkParticles
+  EASINGS
 } from './utils';
+import { FireworksSystem } from './FireworksSystem';
+import { TreeDecorations } from './TreeDecorations';
+import { AudioAnalyzer } from './AudioAnalyzer';
 
 // Custom Shader Material for glowing golden particles
 const particleVertexShader = `
   attribute float size;
   attribute float alpha;
+  uniform float audioSize;
+  uniform float pointScale;
   varying vec3 vColor;
   varying float vAlpha;
   varying float vSize;
@@ -25,13 +47,14 @@ const particleVertexShader = `
     vSize = size;
     
     vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
-    gl_PointSize = size * (300.0 / -mvPosition.z);
+    gl_PointSize = size * audioSize * pointScale * (300.0 / -mvPosition.z);
     gl_Position = projectionMatrix * mvPosition;
   }
 `;
 
 const particleFragmentShader = `
   uniform float time;
+  uniform float audioAlpha;
   varying vec3 vColor;
   varying float vAlpha;
   varying float vSize;
@@ -41,7 +64,7 @@ const particleFragmentShader = `
     float dist = length(center);
     
     // Enhanced glowing effect with softer, brighter edges
-    float alpha = vAlpha * (1.0 - smoothstep(0.0, 0.6, dist));
+    float alpha = min(1.0, vAlpha * audioAlpha) * (1.0 - smoothstep(0.0, 0.6, dist));
     
     // Multiple twinkle frequencies for rich sparkle effect
     float twinkle1 = sin(time * 4.0 + vSize * 15.0) * 0.4 + 0.6;
@@ -67,18 +90,69 @@ const particleFragmentShader = `
   }
 `;
 
+// Full-screen webcam quad for AR mode, drawn behind everything else
+const videoBackgroundVertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const videoBackgroundFragmentShader = `
+  uniform sampler2D map;
+  uniform vec2 coverScale;
+  uniform vec2 texelSize;
+  uniform float blur;
+  uniform float dim;
+  varying vec2 vUv;
+
+  void main() {
+    // Mirror like a selfie view and crop to cover the viewport
+    vec2 uv = (vec2(1.0 - vUv.x, vUv.y) - 0.5) * coverScale + 0.5;
+
+    // 5x5 weighted box blur; a single tap when blur is 0
+    vec3 color = vec3(0.0);
+    float total = 0.0;
+    for (int x = -2; x <= 2; x++) {
+      for (int y = -2; y <= 2; y++) {
+        float weight = 3.0 - 0.5 * float(abs(x) + abs(y));
+        color += texture2D(map, uv + vec2(float(x), float(y)) * texelSize * blur * 0.5).rgb * weight;
+        total += weight;
+      }
+    }
+
+    gl_FragColor = vec4(color / total * (1.0 - dim), 1.0);
+  }
+`;
+
+const TREE_REST_Y = 2; // Tree group sits 2 units up for balance
+
+// Keys whose values differ between two versions of a config section
+function changedKeys<T extends object>(previous: T, next: T): (keyof T)[] {
+  return (Object.keys(next) as (keyof T)[]).filter(key => previous[key] !== next[key]);
+}
+
 export interface ParticleSystemConfig {
   container: HTMLElement;
+  initialTheme?: ThemeDefinition;
+  settings: RuntimeConfig; // Later changes go through applyConfig
   onWindowResize: () => void;
+  onFireworkBurst?: (pan: number) => void; // Stereo pan of the burst on screen, -1 (left) to 1 (right)
   onParticleUpdate: (positions: Float32Array, velocities: Float32Array, targetTree: Float32Array, targetExploded: Float32Array) => void;
 }
 
 export class ThreeScene {
+  private settings: RuntimeConfig;
+
   // Core Three.js objects
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
   private renderer: THREE.WebGLRenderer;
   private composer: EffectComposer;
+  private bloomPass: UnrealBloomPass;
+  private bloomStrength: number; // Theme bloom before the music boost
 
   // Particle system
   private particles: THREE.Points;
@@ -87,55 +161,121 @@ export class ThreeScene {
   private treeGroup: THREE.Group;
   private star: THREE.Sprite;
   private trunk: THREE.Mesh;
+  private decorations: TreeDecorations;
+  private hitCone: THREE.Mesh; // Invisible cone matching the tree surface, for pointer raycasts
+  private cursor: THREE.Mesh;
+  private raycaster = new THREE.Raycaster();
+  private decorating: boolean = false;
+  private cursorHit: boolean = false;
+
+  // AR mode
+  private videoBackground: THREE.Mesh | null = null;
+  private backgroundVideo: HTMLVideoElement | null = null;
+  private videoStyle = { dim: AR_CONFIG.DEFAULT_DIM as number, blur: AR_CONFIG.DEFAULT_BLUR as number };
+  private anchor: PalmState | null = null;
+
+  // Music reactions
+  private audio: AudioAnalyzer | null = null;
+  private beatPulse: number = 0;
+  private autoFireworks: boolean = false;
+  private autoFireworkCooldown: number = 0;
   private snowParticles: THREE.Points;
   private snowGeometry: THREE.BufferGeometry;
+  private snowPositions: Float32Array;
+  private previousSnowPositions: Float32Array;
 
-  // Particle data
+  // Particle data (positions is the physics state, renderPositions the interpolated attribute)
   private positions: Float32Array;
+  private previousPositions: Float32Array;
+  private renderPositions: Float32Array;
   private velocities: Float32Array;
   private targetTree: Float32Array;
   private targetExploded: Float32Array;
   private sizes: Float32Array;
   private alphas: Float32Array;
+  private particleCount: number;
 
   // Animation state
   private time: number = 0;
+  private clock = new THREE.Clock();
+  private accumulator: number = 0;
+  private fps: number = 60; // Smoothed render rate
+  private timeScale: number = 1;
+  private paused: boolean = false;
   private isPinching: boolean = false;
   private pinchStrength: number = 0;
   private rotationTarget: { x: number; y: number } = { x: 0, y: 0 };
   private rotationCurrent: { x: number; y: number } = { x: 0, y: 0 };
-  private colorTheme: number = 0;
+  private treeScaleTarget: number = 1;
+  private zoomTarget: number;
+  private theme: ThemeDefinition;
+  private shape: ShapeDefinition = getShape('tree');
+  private shapeTargets = new Map<string, Float32Array>();
+  private morph: {
+    from: Float32Array;
+    to: Float32Array;
+    progress: number;
+    duration: number;
+    easing: EasingName;
+  } | null = null;
+  private presentTimeLeft: number = 0;
+  private themeFade: {
+    progress: number;
+    fromColors: Float32Array;
+    toColors: Float32Array;
+    fromBackground: THREE.Color;
+    toBackground: THREE.Color;
+    fromFog: THREE.Color;
+    toFog: THREE.Color;
+    fromFogDensity: number;
+    fromBloom: { strength: number; radius: number; threshold: number };
+  } | null = null;
   private isSnowing: boolean = false;
 
   // Fireworks
-  private fireworks: any[] = [];
+  private fireworks: FireworksSystem;
 
   // Animation frame ID
   private animationFrameId: number | null = null;
 
   constructor(private config: ParticleSystemConfig) {
+    this.settings = config.settings;
+    this.theme = this.resolveTheme(config.initialTheme || BUILT_IN_THEMES[0]);
+    this.particleCount = this.settings.PARTICLE_CONFIG.COUNT;
     this.initScene();
     this.setupParticleSystem();
     this.setupLighting();
     this.setupSnow();
+    this.setupFireworks();
     this.animate();
     this.setupEventListeners();
   }
 
+  // Size of the container; a full-page app container matches the window
+  private getViewportSize(): { width: number; height: number } {
+    const { clientWidth, clientHeight } = this.config.container;
+    return clientWidth > 0 && clientHeight > 0
+      ? { width: clientWidth, height: clientHeight }
+      : { width: window.innerWidth, height: window.innerHeight };
+  }
+
   private initScene() {
+    const { width, height } = this.getViewportSize();
+
     // Scene setup
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0x000000);
-    this.scene.fog = new THREE.FogExp2(0x000000, RENDER_CONFIG.FOG_DENSITY);
+    this.scene.background = new THREE.Color(this.theme.background);
+    this.scene.fog = new THREE.FogExp2(this.theme.fog.color, this.theme.fog.density);
 
     // Camera setup
     this.camera = new THREE.PerspectiveCamera(
-      RENDER_CONFIG.CAMERA_FOV,
-      window.innerWidth / window.innerHeight,
-      RENDER_CONFIG.CAMERA_NEAR,
-      RENDER_CONFIG.CAMERA_FAR
+      this.settings.RENDER_CONFIG.CAMERA_FOV,
+      width / height,
+      this.settings.RENDER_CONFIG.CAMERA_NEAR,
+      this.settings.RENDER_CONFIG.CAMERA_FAR
     );
-    this.camera.position.set(0, 0, 35);
+    this.zoomTarget = this.settings.ZOOM_CONFIG.DEFAULT_DISTANCE;
+    this.camera.position.set(0, 0, this.zoomTarget);
     this.camera.lookAt(0, 0, 0);
 
     // Renderer setup
@@ -144,9 +284,9 @@ export class ThreeScene {
       powerPreference: 'high-performance',
       alpha: false,
     });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.setSize(width, height);
     this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    this.renderer.setClearColor(0x000000);
+    this.renderer.setClearColor(this.theme.background);
     this.config.container.appendChild(this.renderer.domElement);
 
     // Post-processing setup (UnrealBloomPass for cinematic glow)
@@ -154,42 +294,26 @@ export class ThreeScene {
     const renderPass = new RenderPass(this.scene, this.camera);
     this.composer.addPass(renderPass);
 
-    const bloomPass = new UnrealBloomPass(
-      new THREE.Vector2(window.innerWidth, window.innerHeight),
-      RENDER_CONFIG.BLOOM_STRENGTH,
-      RENDER_CONFIG.BLOOM_RADIUS,
-      RENDER_CONFIG.BLOOM_THRESHOLD
+    this.bloomPass = new UnrealBloomPass(
+      new THREE.Vector2(width, height),
+      this.theme.bloom.strength,
+      this.theme.bloom.radius,
+      this.theme.bloom.threshold
     );
-    this.composer.addPass(bloomPass);
+    this.composer.addPass(this.bloomPass);
+    this.bloomStrength = this.theme.bloom.strength;
   }
 
   private setupParticleSystem() {
-    // Initialize particle positions and targets
-    this.positions = calculateExplodedParticlePositions(PARTICLE_CONFIG.COUNT);
-    this.velocities = new Float32Array(PARTICLE_CONFIG.COUNT * 3);
-    this.targetTree = calculateTreeParticlePositions(PARTICLE_CONFIG.COUNT);
-    this.targetExploded = calculateExplodedParticlePositions(PARTICLE_CONFIG.COUNT);
-    const colors = generateParticleColors(PARTICLE_CONFIG.COUNT, this.colorTheme);
-    this.sizes = new Float32Array(PARTICLE_CONFIG.COUNT);
-    this.alphas = new Float32Array(PARTICLE_CONFIG.COUNT);
-
-    // Initialize sizes and alphas
-    for (let i = 0; i < PARTICLE_CONFIG.COUNT; i++) {
-      this.sizes[i] = 0.8 + Math.random() * 0.6;
-      this.alphas[i] = 0.7 + Math.random() * 0.3;
-    }
-
-    // Create geometry
-    this.particleGeometry = new THREE.BufferGeometry();
-    this.particleGeometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage));
-    this.particleGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
-    this.particleGeometry.setAttribute('size', new THREE.BufferAttribute(this.sizes, 1));
-    this.particleGeometry.setAttribute('alpha', new THREE.BufferAttribute(this.alphas, 1));
+    this.createParticleBuffers();
 
     // Create custom shader material
     this.particleMaterial = new THREE.ShaderMaterial({
       uniforms: {
         time: { value: 0 },
+        audioSize: { value: 1 },
+        audioAlpha: { value: 1 },
+        pointScale: { value: 1 },
       },
       vertexShader: particleVertexShader,
       fragmentShader: particleFragmentShader,
@@ -203,7 +327,7 @@ export class ThreeScene {
     this.particles = new THREE.Points(this.particleGeometry, this.particleMaterial);
     this.treeGroup = new THREE.Group();
     this.treeGroup.add(this.particles);
-    this.treeGroup.position.y = 2; // Move up 2 units for balance
+    this.treeGroup.position.y = TREE_REST_Y;
     this.scene.add(this.treeGroup);
 
     // Create star sprite
@@ -212,24 +336,47 @@ export class ThreeScene {
     // Create tree trunk
     this.createTreeTrunk();
 
+    // Ornaments, garland and topper
+    this.decorations = new TreeDecorations(this.treeGroup);
+    this.decorations.setTheme(this.theme);
+    this.createDecorateCursor();
+
     // Notify parent about particle data
     this.config.onParticleUpdate(this.positions, this.velocities, this.targetTree, this.targetExploded);
   }
 
+  // Per-particle buffers and geometry, sized by particleCount
+  private createParticleBuffers() {
+    // Initialize particle positions and targets
+    this.positions = calculateExplodedParticlePositions(this.particleCount);
+    this.previousPositions = this.positions.slice();
+    this.renderPositions = this.positions.slice();
+    this.velocities = new Float32Array(this.particleCount * 3);
+    this.targetTree = this.getShapeTarget(this.shape).slice();
+    this.targetExploded = calculateExplodedParticlePositions(this.particleCount);
+    const colors = this.getParticleColors(this.theme);
+    this.sizes = new Float32Array(this.particleCount);
+    this.alphas = new Float32Array(this.particleCount);
+
+    // Initialize sizes and alphas
+    for (let i = 0; i < this.particleCount; i++) {
+      this.sizes[i] = 0.8 + Math.random() * 0.6;
+      this.alphas[i] = 0.7 + Math.random() * 0.3;
+    }
+
+    // Create geometry
+    this.particleGeometry = new THREE.BufferGeometry();
+    this.particleGeometry.setAttribute('position', new THREE.BufferAttribute(this.renderPositions, 3).setUsage(THREE.DynamicDrawUsage));
+    this.particleGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    this.particleGeometry.setAttribute('size', new THREE.BufferAttribute(this.sizes, 1));
+    this.particleGeometry.setAttribute('alpha', new THREE.BufferAttribute(this.alphas, 1));
+  }
+
   private createStarSprite() {
     const starCanvas = document.createElement('canvas');
     starCanvas.width = 128;
     starCanvas.height = 128;
-    const starCtx = starCanvas.getContext('2d');
-    if (starCtx) {
-      const grad = starCtx.createRadialGradient(64, 64, 0, 64, 64, 64);
-      grad.addColorStop(0, 'rgba(255, 255, 255, 1)');
-      grad.addColorStop(0.3, 'rgba(255, 215, 0, 0.9)');
-      grad.addColorStop(0.6, 'rgba(255, 215, 0, 0.3)');
-      grad.addColorStop(1, 'rgba(0, 0, 0, 0)');
-      starCtx.fillStyle = grad;
-      starCtx.fillRect(0, 0, 128, 128);
-    }
+    this.drawStarGradient(starCanvas, this.theme.starGradient);
     const starTexture = new THREE.CanvasTexture(starCanvas);
     const starMaterial = new THREE.SpriteMaterial({
       map: starTexture,
@@ -238,10 +385,21 @@ export class ThreeScene {
     });
     this.star = new THREE.Sprite(starMaterial);
     this.star.scale.set(0, 0, 1);
-    this.star.position.set(0, PARTICLE_CONFIG.HEIGHT / 2 + 0.5, 0);
+    this.star.position.set(...(this.shape.starPosition || [0, TREE_CONFIG.HEIGHT / 2 + 0.5, 0]));
     this.treeGroup.add(this.star);
   }
 
+  private drawStarGradient(canvas: HTMLCanvasElement, stops: ThemeGradientStop[]) {
+    const starCtx = canvas.getContext('2d');
+    if (!starCtx) return;
+
+    const grad = starCtx.createRadialGradient(64, 64, 0, 64, 64, 64);
+    stops.forEach(stop => grad.addColorStop(stop.offset, stop.color));
+    starCtx.clearRect(0, 0, 128, 128);
+    starCtx.fillStyle = grad;
+    starCtx.fillRect(0, 0, 128, 128);
+  }
+
   private createTreeTrunk() {
     const trunkGeometry = new THREE.CylinderGeometry(1.0, 1.6, 9, 16);
     const trunkMaterial = new THREE.MeshStandardMaterial({
@@ -250,7 +408,7 @@ export class ThreeScene {
       metalness: 0.1,
     });
     this.trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-    this.trunk.position.set(0, -PARTICLE_CONFIG.HEIGHT / 2 - 4.5, 0);
+    this.trunk.position.set(0, -TREE_CONFIG.HEIGHT / 2 - 4.5, 0);
     this.trunk.visible = false;
     this.treeGroup.add(this.trunk);
   }
@@ -265,30 +423,117 @@ export class ThreeScene {
   }
 
   private setupSnow() {
+    const { COUNT, SIZE, OPACITY } = this.settings.SNOW_CONFIG;
     this.snowGeometry = new THREE.BufferGeometry();
-    const snowPositions = new Float32Array(SNOW_CONFIG.COUNT * 3);
+    const snowPositions = new Float32Array(COUNT * 3);
     
-    for (let i = 0; i < SNOW_CONFIG.COUNT; i++) {
+    for (let i = 0; i < COUNT; i++) {
       snowPositions[i * 3] = (Math.random() - 0.5) * 60;
       snowPositions[i * 3 + 1] = Math.random() * 40 + 10;
       snowPositions[i * 3 + 2] = (Math.random() - 0.5) * 60;
     }
     
+    this.snowPositions = snowPositions.slice();
+    this.previousSnowPositions = snowPositions.slice();
     this.snowGeometry.setAttribute('position', new THREE.BufferAttribute(snowPositions, 3).setUsage(THREE.DynamicDrawUsage));
     
     const snowMaterial = new THREE.PointsMaterial({
-      size: SNOW_CONFIG.SIZE,
+      size: SIZE,
       color: 0xffffff,
       transparent: true,
-      opacity: SNOW_CONFIG.OPACITY,
+      opacity: OPACITY,
       blending: THREE.AdditiveBlending,
     });
     
     this.snowParticles = new THREE.Points(this.snowGeometry, snowMaterial);
-    this.snowParticles.visible = false;
+    this.snowParticles.visible = this.isSnowing;
     this.scene.add(this.snowParticles);
   }
 
+  private setupFireworks() {
+    this.fireworks = new FireworksSystem(this.scene, this.settings.FIREWORKS_CONFIG);
+    this.fireworks.setBurstListener((origin) => {
+      const pan = origin.clone().project(this.camera).x;
+      this.config.onFireworkBurst?.(Math.max(-1, Math.min(1, pan)));
+    });
+    this.fireworks.setHues(this.theme.fireworkHues);
+  }
+
+  // Apply a changed runtime config, rebuilding only what the changed values feed.
+  // ANIMATION_CONFIG and AUDIO_CONFIG are read every frame and need nothing here.
+  public applyConfig(settings: RuntimeConfig) {
+    const previous = this.settings;
+    this.settings = settings;
+
+    if (settings.PARTICLE_CONFIG.COUNT !== previous.PARTICLE_CONFIG.COUNT) {
+      this.rebuildParticles();
+    }
+
+    const snow = changedKeys(previous.SNOW_CONFIG, settings.SNOW_CONFIG);
+    if (snow.includes('COUNT')) {
+      this.rebuildSnow();
+    } else if (snow.length > 0) {
+      const material = this.snowParticles.material as THREE.PointsMaterial;
+      material.size = settings.SNOW_CONFIG.SIZE;
+      material.opacity = settings.SNOW_CONFIG.OPACITY;
+    }
+
+    const render = changedKeys(previous.RENDER_CONFIG, settings.RENDER_CONFIG);
+    if (render.some(key => key.startsWith('CAMERA_'))) {
+      this.camera.fov = settings.RENDER_CONFIG.CAMERA_FOV;
+      this.camera.near = settings.RENDER_CONFIG.CAMERA_NEAR;
+      this.camera.far = settings.RENDER_CONFIG.CAMERA_FAR;
+      this.camera.updateProjectionMatrix();
+    }
+    if (render.some(key => !key.startsWith('CAMERA_'))) {
+      this.theme = this.resolveTheme(this.theme);
+      // A running cross-fade already heads for the new theme values
+      if (!this.themeFade) {
+        (this.scene.fog as THREE.FogExp2).density = this.theme.fog.density;
+        this.bloomStrength = this.theme.bloom.strength;
+        this.bloomPass.radius = this.theme.bloom.radius;
+        this.bloomPass.threshold = this.theme.bloom.threshold;
+      }
+    }
+
+    const fireworks = changedKeys(previous.FIREWORKS_CONFIG, settings.FIREWORKS_CONFIG);
+    if (fireworks.some(key => key === 'MAX_BURSTS' || key === 'MAX_ROCKETS' || key === 'ROCKET_TRAIL_COUNT' || key === 'LAYERS')) {
+      this.fireworks.dispose();
+      this.setupFireworks();
+    } else if (fireworks.length > 0) {
+      this.fireworks.setConfig(settings.FIREWORKS_CONFIG);
+    }
+
+    // Keep the current zoom inside changed limits
+    if (changedKeys(previous.ZOOM_CONFIG, settings.ZOOM_CONFIG).length > 0) {
+      this.setZoomTarget(this.zoomTarget);
+    }
+  }
+
+  // New buffers for a different particle count; material, group and ornaments stay
+  private rebuildParticles() {
+    // Finish a running cross-fade while its colours still match the old buffers
+    this.updateThemeFade(Infinity);
+    const oldGeometry = this.particleGeometry;
+
+    // Shapes regenerate for the new count, photo shapes with matching colours
+    this.particleCount = this.settings.PARTICLE_CONFIG.COUNT;
+    this.shapeTargets.clear();
+    this.morph = null;
+    this.createParticleBuffers();
+    this.particles.geometry = this.particleGeometry;
+    oldGeometry.dispose();
+
+    this.config.onParticleUpdate(this.positions, this.velocities, this.targetTree, this.targetExploded);
+  }
+
+  private rebuildSnow() {
+    this.scene.remove(this.snowParticles);
+    this.snowGeometry.dispose();
+    (this.snowParticles.material as THREE.Material).dispose();
+    this.setupSnow();
+  }
+
   private setupEventListeners() {
     window.addEventListener('resize', this.config.onWindowResize);
   }
@@ -306,13 +551,333 @@ export class ThreeScene {
     this.rotationCurrent = { x, y };
   }
 
-  public updateColorTheme(themeIndex: number) {
-    this.colorTheme = themeIndex;
-    const colors = generateParticleColors(PARTICLE_CONFIG.COUNT, themeIndex);
-    
-    if (this.particleGeometry.attributes.color) {
-      (this.particleGeometry.attributes.color.array as Float32Array).set(colors);
-      this.particleGeometry.attributes.color.needsUpdate = true;
+  // Freeze the simulation; rendering continues so the scene stays visible
+  public setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  public isPaused() {
+    return this.paused;
+  }
+
+  // Simulation speed multiplier, e.g. 0.25 for slow motion
+  public setTimeScale(scale: number) {
+    this.timeScale = Math.max(0, scale);
+  }
+
+  public getTimeScale() {
+    return this.timeScale;
+  }
+
+  public setTreeScale(scale: number) {
+    this.treeScaleTarget = scale;
+  }
+
+  // Dolly the camera to a distance from the tree, clamped to the zoom limits
+  public setZoomTarget(distance: number) {
+    const { MIN_DISTANCE, MAX_DISTANCE } = this.settings.ZOOM_CONFIG;
+    this.zoomTarget = Math.min(MAX_DISTANCE, Math.max(MIN_DISTANCE, distance));
+  }
+
+  public getZoomTarget() {
+    return this.zoomTarget;
+  }
+
+  // Return scale, rotation and zoom to their initial values
+  public resetView() {
+    this.treeScaleTarget = 1;
+    this.zoomTarget = this.settings.ZOOM_CONFIG.DEFAULT_DISTANCE;
+    this.rotationTarget = { x: 0, y: 0 };
+    gsap.to(this.rotationCurrent, {
+      x: 0,
+      y: 0,
+      duration: 0.8,
+      ease: 'power2.out',
+    });
+  }
+
+  // Morph the assembled formation to a shape from the library, or to a
+  // generated shape such as a greeting
+  public setShape(shapeOrId: string | ShapeDefinition, options: { duration?: number; easing?: EasingName } = {}) {
+    const shape = typeof shapeOrId === 'string' ? getShape(shapeOrId) : shapeOrId;
+    if (shape.id === this.shape.id && !this.morph) return;
+
+    // Generate first so a failing generator leaves the current shape untouched
+    const target = this.getShapeTarget(shape);
+    const colorsChanged = Boolean(shape.colors || this.shape.colors);
+    this.shape = shape;
+    this.morph = {
+      from: this.targetTree.slice(),
+      to: target,
+      progress: 0,
+      duration: options.duration ?? SHAPE_CONFIG.MORPH_DURATION,
+      easing: options.easing ?? SHAPE_CONFIG.MORPH_EASING,
+    };
+
+    if (shape.starPosition) {
+      this.star.position.set(...shape.starPosition);
+    }
+
+    // Fade into (or back out of) the shape's own colours
+    if (colorsChanged) {
+      this.updateColorTheme(this.theme);
+    }
+  }
+
+  public getShape() {
+    return this.shape;
+  }
+
+  public getFps() {
+    return this.fps;
+  }
+
+  public getParticleCount() {
+    return this.particleCount;
+  }
+
+  // Switch to a shape and hold it assembled for a while without a fist
+  public presentShape(shape: string | ShapeDefinition, holdSeconds: number) {
+    this.setShape(shape);
+    this.presentTimeLeft = holdSeconds;
+  }
+
+  // Drop the cached layout of a shape that will not be shown again, e.g. a replaced greeting
+  public releaseShape(id: string) {
+    this.shapeTargets.delete(id);
+  }
+
+  // Generated once per shape so morphing back and forth keeps the same layout
+  private getShapeTarget(shape: ShapeDefinition): Float32Array {
+    let target = this.shapeTargets.get(shape.id);
+    if (!target) {
+      target = shape.generate(this.particleCount);
+      if (target.length !== this.particleCount * 3) {
+        throw new Error(`Shape "${shape.name}" generated ${target.length / 3} particles, expected ${this.particleCount}.`);
+      }
+      this.shapeTargets.set(shape.id, target);
+    }
+    return target;
+  }
+
+  private updateMorph(timeDelta: number) {
+    const morph = this.morph;
+    if (!morph) return;
+
+    morph.progress = morph.duration > 0 ? Math.min(1, morph.progress + timeDelta / morph.duration) : 1;
+    const t = EASINGS[morph.easing](morph.progress);
+    for (let i = 0; i < this.targetTree.length; i++) {
+      this.targetTree[i] = morph.from[i] + (morph.to[i] - morph.from[i]) * t;
+    }
+
+    if (morph.progress >= 1) {
+      this.morph = null;
+    }
+  }
+
+  private createDecorateCursor() {
+    // The surface droops by 0.4 * radius at the base, see calculateTreeParticlePositions
+    const radius = TREE_CONFIG.RADIUS + DECORATION_CONFIG.SURFACE_OFFSET;
+    const height = TREE_CONFIG.HEIGHT + TREE_CONFIG.RADIUS * 0.4;
+    this.hitCone = new THREE.Mesh(
+      new THREE.ConeGeometry(radius, height, 48, 1, true),
+      new THREE.MeshBasicMaterial()
+    );
+    this.hitCone.position.y = TREE_CONFIG.HEIGHT / 2 - height / 2;
+    this.hitCone.visible = false; // Raycasts still hit invisible meshes
+    this.treeGroup.add(this.hitCone);
+
+    this.cursor = new THREE.Mesh(
+      new THREE.SphereGeometry(0.35, 16, 12),
+      new THREE.MeshBasicMaterial({ color: 0xFFFFFF, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending })
+    );
+    this.cursor.visible = false;
+    this.treeGroup.add(this.cursor);
+  }
+
+  // Decorate mode keeps the tree assembled and shows the fingertip cursor
+  public setDecorating(enabled: boolean) {
+    this.decorating = enabled;
+    this.cursorHit = false;
+    this.cursor.visible = false;
+  }
+
+  public isDecorating() {
+    return this.decorating;
+  }
+
+  // Move the cursor to where the fingertip ray meets the tree; returns whether it hit
+  public updatePointer(screenX: number, screenY: number): boolean {
+    if (!this.decorating) return false;
+
+    // Mapped like screenToWorld so the cursor follows the user's view of their hand
+    this.raycaster.setFromCamera(this.webcamToNdc(screenX, screenY), this.camera);
+    const hit = this.raycaster.intersectObject(this.hitCone, false)[0];
+    if (hit) {
+      // Snap when the cursor reappears, smooth while it moves
+      const local = this.treeGroup.worldToLocal(hit.point.clone());
+      this.cursor.position.lerp(local, this.cursorHit ? DECORATE_CONFIG.CURSOR_SMOOTHING : 1);
+    }
+    this.cursorHit = Boolean(hit);
+    this.cursor.visible = this.cursorHit;
+    return this.cursorHit;
+  }
+
+  // Tree-local cursor position, or null when the fingertip is off the tree
+  public getCursorPosition(): [number, number, number] | null {
+    if (!this.decorating || !this.cursorHit) return null;
+    return [this.cursor.position.x, this.cursor.position.y, this.cursor.position.z];
+  }
+
+  public setPlacedOrnaments(ornaments: PlacedOrnament[]) {
+    this.decorations.setPlaced(ornaments);
+  }
+
+  // AR mode: draw the already running webcam video behind the scene; null restores the theme background
+  public setVideoBackground(video: HTMLVideoElement | null) {
+    if (this.videoBackground) {
+      const material = this.videoBackground.material as THREE.ShaderMaterial;
+      this.scene.remove(this.videoBackground);
+      this.videoBackground.geometry.dispose();
+      material.uniforms.map.value.dispose();
+      material.dispose();
+      this.videoBackground = null;
+    }
+    this.backgroundVideo = video;
+    if (!video) return;
+
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        map: { value: new THREE.VideoTexture(video) },
+        coverScale: { value: new THREE.Vector2(1, 1) },
+        texelSize: { value: new THREE.Vector2(1, 1) },
+        blur: { value: this.videoStyle.blur },
+        dim: { value: this.videoStyle.dim },
+      },
+      vertexShader: videoBackgroundVertexShader,
+      fragmentShader: videoBackgroundFragmentShader,
+      depthTest: false,
+      depthWrite: false,
+    });
+    const background = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), material);
+    background.frustumCulled = false;
+    background.renderOrder = -1;
+    // Crop to the current render size on every draw, so snapshots at other aspect ratios fit too
+    background.onBeforeRender = () => {
+      this.getCoverScale(material.uniforms.coverScale.value);
+      material.uniforms.texelSize.value.set(1 / (video.videoWidth || 1), 1 / (video.videoHeight || 1));
+    };
+    this.videoBackground = background;
+    this.scene.add(background);
+  }
+
+  // Visible fraction of the webcam image on each axis once the AR background crops it to
+  // cover the viewport. Without the video background the landmarks span the whole view.
+  private getCoverScale(target: THREE.Vector2): THREE.Vector2 {
+    const video = this.backgroundVideo;
+    if (!video) return target.set(1, 1);
+    const ratio = ((video.videoWidth || 1) / (video.videoHeight || 1)) / this.camera.aspect;
+    return target.set(Math.min(1, 1 / ratio), Math.min(1, ratio));
+  }
+
+  // Mirrored normalised device coordinates of a normalised webcam position, so points land
+  // where the user sees their hand in the (cropped) video
+  private webcamToNdc(screenX: number, screenY: number): THREE.Vector2 {
+    const cover = this.getCoverScale(new THREE.Vector2());
+    const x = (screenX - 0.5) / cover.x + 0.5;
+    const y = (screenY - 0.5) / cover.y + 0.5;
+    return cover.set(1 - x * 2, 1 - y * 2);
+  }
+
+  public setVideoBackgroundStyle(dim: number, blur: number) {
+    this.videoStyle = { dim, blur };
+    if (this.videoBackground) {
+      const uniforms = (this.videoBackground.material as THREE.ShaderMaterial).uniforms;
+      uniforms.dim.value = dim;
+      uniforms.blur.value = blur;
+    }
+  }
+
+  // Hold the tree in the palm of the tree hand; null returns it to the centre
+  public setAnchor(palm: PalmState | null) {
+    this.anchor = palm;
+  }
+
+  // Built-in themes take fog density and bloom from the runtime config; custom themes keep their own
+  private resolveTheme(theme: ThemeDefinition): ThemeDefinition {
+    if (!theme.builtIn) return theme;
+    const render = this.settings.RENDER_CONFIG;
+    return {
+      ...theme,
+      fog: { ...theme.fog, density: render.FOG_DENSITY },
+      bloom: { strength: render.BLOOM_STRENGTH, radius: render.BLOOM_RADIUS, threshold: render.BLOOM_THRESHOLD },
+    };
+  }
+
+  // Cross-fade particle colours, background, fog and bloom to a new theme
+  public updateColorTheme(theme: ThemeDefinition) {
+    this.theme = this.resolveTheme(theme);
+    const currentColors = this.particleGeometry.attributes.color.array as Float32Array;
+
+    this.themeFade = {
+      progress: 0,
+      fromColors: currentColors.slice(),
+      toColors: this.getParticleColors(theme),
+      fromBackground: (this.scene.background as THREE.Color).clone(),
+      toBackground: new THREE.Color(theme.background),
+      fromFog: (this.scene.fog as THREE.FogExp2).color.clone(),
+      toFog: new THREE.Color(theme.fog.color),
+      fromFogDensity: (this.scene.fog as THREE.FogExp2).density,
+      fromBloom: {
+        strength: this.bloomStrength,
+        radius: this.bloomPass.radius,
+        threshold: this.bloomPass.threshold,
+      },
+    };
+
+    // The star and fireworks switch immediately
+    const starMaterial = this.star.material as THREE.SpriteMaterial;
+    if (starMaterial.map) {
+      this.drawStarGradient(starMaterial.map.image as HTMLCanvasElement, theme.starGradient);
+      starMaterial.map.needsUpdate = true;
+    }
+    this.fireworks.setHues(theme.fireworkHues);
+    this.decorations.setTheme(theme);
+  }
+
+  public getColorTheme() {
+    return this.theme;
+  }
+
+  // Shapes with their own colours (e.g. a photo) override the theme palette
+  private getParticleColors(theme: ThemeDefinition): Float32Array {
+    return this.shape.colors ? this.shape.colors.slice() : generateParticleColors(this.particleCount, theme);
+  }
+
+  private updateThemeFade(delta: number) {
+    const fade = this.themeFade;
+    if (!fade) return;
+
+    fade.progress = Math.min(1, fade.progress + delta / THEME_CONFIG.FADE_DURATION);
+    const t = fade.progress * fade.progress * (3 - 2 * fade.progress); // Smoothstep
+
+    const colors = this.particleGeometry.attributes.color.array as Float32Array;
+    for (let i = 0; i < colors.length; i++) {
+      colors[i] = fade.fromColors[i] + (fade.toColors[i] - fade.fromColors[i]) * t;
+    }
+    this.particleGeometry.attributes.color.needsUpdate = true;
+
+    (this.scene.background as THREE.Color).lerpColors(fade.fromBackground, fade.toBackground, t);
+    const fog = this.scene.fog as THREE.FogExp2;
+    fog.color.lerpColors(fade.fromFog, fade.toFog, t);
+    fog.density = fade.fromFogDensity + (this.theme.fog.density - fade.fromFogDensity) * t;
+
+    this.bloomStrength = fade.fromBloom.strength + (this.theme.bloom.strength - fade.fromBloom.strength) * t;
+    this.bloomPass.radius = fade.fromBloom.radius + (this.theme.bloom.radius - fade.fromBloom.radius) * t;
+    this.bloomPass.threshold = fade.fromBloom.threshold + (this.theme.bloom.threshold - fade.fromBloom.threshold) * t;
+
+    if (fade.progress >= 1) {
+      this.themeFade = null;
     }
   }
 
@@ -322,26 +887,103 @@ export class ThreeScene {
   }
 
   public createFireworks(x: number, y: number, z: number) {
-    const newFireworks = createFireworkParticles(this.scene, x, y, z, this.colorTheme);
-    this.fireworks.push(...newFireworks);
+    this.fireworks.burst(x, y, z);
+  }
+
+  // Launch a rocket that bursts at a normalised webcam position (unmirrored, as reported by MediaPipe)
+  public launchFirework(screenX: number, screenY: number) {
+    this.fireworks.launch(this.screenToWorld(screenX, screenY));
+  }
+
+  // Unproject a normalised webcam position onto the z = 0 plane through the tree.
+  // The view is mirrored and cropped like the AR background so the point appears where the user sees their hand.
+  public screenToWorld(screenX: number, screenY: number, planeZ: number = 0): THREE.Vector3 {
+    const { x, y } = this.webcamToNdc(screenX, screenY);
+    const ndc = new THREE.Vector3(x, y, 0.5).unproject(this.camera);
+    const direction = ndc.sub(this.camera.position).normalize();
+    const distance = (planeZ - this.camera.position.z) / direction.z;
+    return this.camera.position.clone().add(direction.multiplyScalar(distance));
   }
 
   private tempVec3a = new THREE.Vector3();
   private tempVec3b = new THREE.Vector3();
   
-  public update(timeDelta: number) {
-    this.time += timeDelta;
+  // Advance by real elapsed time: physics runs in fixed steps, rendering interpolates between them
+  public update(frameDelta: number) {
+    const { MAX_FRAME_DELTA, FIXED_TIMESTEP, MAX_STEPS_PER_FRAME } = this.settings.ANIMATION_CONFIG;
+    const delta = this.paused
+      ? 0
+      : Math.min(frameDelta, MAX_FRAME_DELTA) * this.timeScale;
+    const fixedStep = FIXED_TIMESTEP;
+
+    this.accumulator += delta;
+    let steps = 0;
+    while (this.accumulator >= fixedStep && steps < MAX_STEPS_PER_FRAME) {
+      this.step(fixedStep);
+      this.accumulator -= fixedStep;
+      steps++;
+    }
+    if (steps === MAX_STEPS_PER_FRAME) {
+      // Too far behind: drop the remainder rather than slowing every later frame
+      this.accumulator = 0;
+    }
+
+    const alpha = this.accumulator / fixedStep;
+    this.interpolate(alpha);
+    this.particleMaterial.uniforms.time.value = this.time + this.accumulator;
+    this.updateTransforms(delta);
+    this.updateThemeFade(delta);
+    this.updateAudio(frameDelta);
+  }
+
+  // Feed music levels into the particles, bloom and star; null stops reacting
+  public setAudioAnalyzer(analyzer: AudioAnalyzer | null) {
+    this.audio = analyzer;
+  }
+
+  // Fire a rocket on strong beats
+  public setAutoFireworks(enabled: boolean) {
+    this.autoFireworks = enabled;
+  }
+
+  // Runs on real time so the scene keeps dancing while physics is paused
+  private updateAudio(frameDelta: number) {
+    const levels = this.audio ? this.audio.analyse() : null;
+    const delta = Math.min(frameDelta, this.settings.ANIMATION_CONFIG.MAX_FRAME_DELTA);
+    const audio = this.settings.AUDIO_CONFIG;
+
+    this.beatPulse *= Math.exp(-audio.PULSE_DECAY * delta);
+    this.autoFireworkCooldown = Math.max(0, this.autoFireworkCooldown - delta);
+    if (levels && levels.beat) {
+      this.beatPulse = Math.max(this.beatPulse, 0.5 + levels.strength * 0.5);
+
+      if (this.autoFireworks && levels.strength >= audio.AUTO_FIREWORK_STRENGTH && this.autoFireworkCooldown === 0) {
+        this.autoFireworkCooldown = audio.AUTO_FIREWORK_COOLDOWN;
+        this.launchFirework(0.2 + Math.random() * 0.6, 0.15 + Math.random() * 0.25);
+      }
+    }
 
-    // Update shader time
-    this.particleMaterial.uniforms.time.value = this.time;
+    const uniforms = this.particleMaterial.uniforms;
+    uniforms.audioSize.value = 1 + (levels ? levels.bass * audio.SIZE_BOOST : 0) + this.beatPulse * 0.2;
+    uniforms.audioAlpha.value = 1 + (levels ? levels.treble * audio.ALPHA_BOOST : 0);
+    this.bloomPass.strength = this.bloomStrength * (1 + (levels ? levels.energy * audio.BLOOM_BOOST : 0));
+  }
+
+  // One fixed physics step for the particles, snow and fireworks
+  private step(timeDelta: number) {
+    this.time += timeDelta;
+    this.previousPositions.set(this.positions);
+    this.updateMorph(timeDelta);
+    this.presentTimeLeft = Math.max(0, this.presentTimeLeft - timeDelta);
+    const assembleStrength = this.presentTimeLeft > 0 || this.decorating ? Math.max(this.pinchStrength, 1) : this.pinchStrength;
 
     // Update particles physics
-    const gravityStrength = ANIMATION_CONFIG.GRAVITY_STRENGTH;
-    const explosionStrength = ANIMATION_CONFIG.EXPLOSION_STRENGTH;
-    const damping = ANIMATION_CONFIG.DAMPING;
-    const brownMotion = ANIMATION_CONFIG.BROWN_MOTION;
+    const gravityStrength = this.settings.ANIMATION_CONFIG.GRAVITY_STRENGTH;
+    const explosionStrength = this.settings.ANIMATION_CONFIG.EXPLOSION_STRENGTH;
+    const damping = this.settings.ANIMATION_CONFIG.DAMPING;
+    const brownMotion = this.settings.ANIMATION_CONFIG.BROWN_MOTION;
     
-    for (let i = 0; i < PARTICLE_CONFIG.COUNT; i++) {
+    for (let i = 0; i < this.particleCount; i++) {
       const i3 = i * 3;
       const x = this.positions[i3];
       const y = this.positions[i3 + 1];
@@ -349,7 +991,7 @@ export class ThreeScene {
 
       let targetX, targetY, targetZ;
       
-      if (this.pinchStrength > 0.01) {
+      if (assembleStrength > 0.01) {
         targetX = this.targetTree[i3];
         targetY = this.targetTree[i3 + 1];
         targetZ = this.targetTree[i3 + 2];
@@ -359,7 +1001,7 @@ export class ThreeScene {
         const dist = this.tempVec3a.length();
 
         if (dist > 0.01) {
-          const force = gravityStrength * this.pinchStrength;
+          const force = gravityStrength * assembleStrength;
           const normalizedForce = force / dist; // Avoid normalization call
           this.velocities[i3] += this.tempVec3a.x * normalizedForce;
           this.velocities[i3 + 1] += this.tempVec3a.y * normalizedForce;
@@ -396,25 +1038,11 @@ export class ThreeScene {
       this.positions[i3 + 2] += this.velocities[i3 + 2];
     }
 
-    this.particleGeometry.attributes.position.needsUpdate = true;
-
-    // Update star animation
-    const targetScale = this.isPinching ? 5 + Math.sin(this.time * 4) * 1.5 : 0;
-    gsap.to(this.star.scale, {
-      x: targetScale,
-      y: targetScale,
-      duration: 0.5,
-      ease: 'power2.out',
-    });
-
-    // Update trunk animation
-    this.trunk.visible = this.isPinching;
-    this.trunk.rotation.y += 0.001;
-
     // Update snow animation
     if (this.snowParticles.visible) {
-      const snowPos = this.snowParticles.geometry.attributes.position.array as Float32Array;
-      const SNOW_COUNT = SNOW_CONFIG.COUNT;
+      const snowPos = this.snowPositions;
+      this.previousSnowPositions.set(snowPos);
+      const SNOW_COUNT = snowPos.length / 3;
       
       // Pre-calculate time-based values to avoid repeated calculations
       const time = this.time;
@@ -428,17 +1056,67 @@ export class ThreeScene {
           snowPos[i3 + 1] = 40;
           snowPos[i3] = (Math.random() - 0.5) * 60;
           snowPos[i3 + 2] = (Math.random() - 0.5) * 60;
+
+          // Respawned flakes jump to the top; don't interpolate across the jump
+          this.previousSnowPositions[i3] = snowPos[i3];
+          this.previousSnowPositions[i3 + 1] = snowPos[i3 + 1];
+          this.previousSnowPositions[i3 + 2] = snowPos[i3 + 2];
         }
       }
-      this.snowParticles.geometry.attributes.position.needsUpdate = true;
     }
 
     // Update fireworks animation
-    this.updateFireworks();
+    this.fireworks.update(timeDelta);
+  }
+
+  // Blend the last two physics states into the render buffers
+  private interpolate(alpha: number) {
+    const render = this.renderPositions;
+    const previous = this.previousPositions;
+    const current = this.positions;
+    for (let i = 0; i < render.length; i++) {
+      render[i] = previous[i] + (current[i] - previous[i]) * alpha;
+    }
+    this.particleGeometry.attributes.position.needsUpdate = true;
+
+    if (this.snowParticles.visible) {
+      const snowRender = this.snowGeometry.attributes.position.array as Float32Array;
+      for (let i = 0; i < snowRender.length; i++) {
+        snowRender[i] = this.previousSnowPositions[i] + (this.snowPositions[i] - this.previousSnowPositions[i]) * alpha;
+      }
+      this.snowGeometry.attributes.position.needsUpdate = true;
+    }
+  }
+
+  // Star, trunk, rotation, scale and zoom, eased by elapsed time
+  private updateTransforms(delta: number) {
+    const assembled = this.isPinching || this.presentTimeLeft > 0 || this.decorating;
+
+    // Update star animation
+    const showStar = assembled && this.shape.starPosition !== null;
+    const targetScale = showStar
+      ? (5 + Math.sin(this.time * 4) * 1.5) * (1 + this.beatPulse * this.settings.AUDIO_CONFIG.STAR_PULSE)
+      : 0;
+    gsap.to(this.star.scale, {
+      x: targetScale,
+      y: targetScale,
+      duration: 0.5,
+      ease: 'power2.out',
+    });
+
+    // Update trunk animation
+    this.trunk.visible = assembled && this.shape.showTrunk;
+    this.trunk.rotation.y += this.settings.ANIMATION_CONFIG.TRUNK_SPIN_SPEED * delta;
+
+    // Ornaments follow the particles in and out of the tree
+    this.decorations.update(delta, assembled && Boolean(this.shape.decorated));
+
+    // Per-frame easing factors expressed at 60 Hz, converted to the elapsed time
+    const frames = delta / this.settings.ANIMATION_CONFIG.FIXED_TIMESTEP;
 
     // Update rotation
-    const targetRotX = this.rotationTarget.y * ANIMATION_CONFIG.ROTATION_SPEED_X;
-    const targetRotY = -this.rotationTarget.x * ANIMATION_CONFIG.ROTATION_SPEED_Y;
+    const targetRotX = this.rotationTarget.y * this.settings.ANIMATION_CONFIG.ROTATION_SPEED_X;
+    const targetRotY = -this.rotationTarget.x * this.settings.ANIMATION_CONFIG.ROTATION_SPEED_Y;
 
     if (this.isPinching) {
       gsap.to(this.rotationCurrent, {
@@ -447,91 +1125,106 @@ export class ThreeScene {
         duration: 0.8,
         ease: 'power2.out',
       });
+    } else if (this.presentTimeLeft > 0 || this.decorating) {
+      // Face the camera so greetings stay readable and ornaments land where the user points.
+      // Stop at the nearest full turn rather than unwinding the idle spin.
+      const facingY = Math.round(this.rotationCurrent.y / (Math.PI * 2)) * Math.PI * 2;
+      const faceEase = 1 - Math.pow(1 - 0.1, frames);
+      this.rotationCurrent.x += (0 - this.rotationCurrent.x) * faceEase;
+      this.rotationCurrent.y += (facingY - this.rotationCurrent.y) * faceEase;
     } else {
-      this.rotationCurrent.y += 0.002;
+      this.rotationCurrent.y += this.settings.ANIMATION_CONFIG.IDLE_SPIN_SPEED * delta;
     }
 
     this.treeGroup.rotation.x = this.rotationCurrent.x;
     this.treeGroup.rotation.y = this.rotationCurrent.y;
-  }
 
-  private updateFireworks() {
-    // Iterate directly through fireworks array to avoid creating a new array
-    for (let i = 0; i < this.fireworks.length; i++) {
-      const fw = this.fireworks[i];
-      
-      if (!fw.active) continue;
-      
-      fw.age += 0.016;
-      if (fw.age > fw.lifetime) {
-        fw.active = false;
-        if (fw.particles) {
-          this.scene.remove(fw.particles);
-          fw.particles.geometry.dispose();
-          (fw.particles.material as THREE.Material).dispose();
-        }
-        continue;
-      }
-      
-      if (fw.particles) {
-        const positions = fw.particles.geometry.attributes.position.array as Float32Array;
-        const velocities = fw.velocities;
-        const colors = fw.particles.geometry.attributes.color.array as Float32Array;
-        
-        const positionCount = positions.length / 3;
-        const lifetime = fw.lifetime;
-        
-        for (let j = 0; j < positionCount; j++) {
-          const j3 = j * 3;
-          
-          // Update position
-          positions[j3] += velocities[j3];
-          positions[j3 + 1] += velocities[j3 + 1];
-          positions[j3 + 2] += velocities[j3 + 2];
-          
-          // Gravity effect (enhanced)
-          velocities[j3 + 1] -= FIREWORKS_CONFIG.GRAVITY;
-          
-          // Air resistance
-          velocities[j3] *= FIREWORKS_CONFIG.AIR_RESISTANCE;
-          velocities[j3 + 1] *= FIREWORKS_CONFIG.AIR_RESISTANCE;
-          velocities[j3 + 2] *= FIREWORKS_CONFIG.AIR_RESISTANCE;
-          
-          // Pre-calculate age factor once
-          const ageFactor = fw.age / lifetime;
-          if (ageFactor > 0.5) {
-            const whiteMix = (ageFactor - 0.5) * 0.6; // Gradually brighten in the second half
-            colors[j3] = colors[j3] * (1 - whiteMix) + whiteMix;
-            colors[j3 + 1] = colors[j3 + 1] * (1 - whiteMix) + whiteMix;
-            colors[j3 + 2] = colors[j3 + 2] * (1 - whiteMix) + whiteMix;
-          }
-        }
-        
-        fw.particles.geometry.attributes.position.needsUpdate = true;
-        fw.particles.geometry.attributes.color.needsUpdate = true;
-        
-        // Non-linear opacity fade (bright first, then quickly disappear)
-        const ageFactor = fw.age / lifetime;
-        const opacity = ageFactor < 0.7 ? 1.0 : (1 - (ageFactor - 0.7) / 0.3);
-        (fw.particles.material as THREE.PointsMaterial).opacity = opacity;
-      }
-    }
-    
-    // Filter out inactive fireworks
-    this.fireworks = this.fireworks.filter(fw => fw.active);
+    // Ease towards the two-hand scale target, shrunk to hand size while held in the palm
+    const anchorScale = this.anchor
+      ? Math.max(0.1, Math.min(1, AR_CONFIG.ANCHOR_SCALE * this.anchor.size / AR_CONFIG.REFERENCE_PALM_SIZE))
+      : 1;
+    const scaleEase = 1 - Math.pow(1 - 0.1, frames);
+    const scaleTarget = this.treeScaleTarget * anchorScale;
+    const scale = this.treeGroup.scale.x + (scaleTarget - this.treeGroup.scale.x) * scaleEase;
+    this.treeGroup.scale.setScalar(scale);
+
+    // Rest the base of the tree on the palm
+    const anchorTarget = this.anchor
+      ? this.screenToWorld(this.anchor.x, this.anchor.y).add(this.tempVec3a.set(0, TREE_CONFIG.HEIGHT / 2 * scale, 0))
+      : this.tempVec3a.set(0, TREE_REST_Y, 0);
+    this.treeGroup.position.lerp(anchorTarget, 1 - Math.pow(1 - AR_CONFIG.ANCHOR_SMOOTHING, frames));
+
+    // Ease the camera towards the zoom target
+    const zoomEase = 1 - Math.pow(1 - this.settings.ZOOM_CONFIG.SMOOTHING, frames);
+    this.camera.position.z += (this.zoomTarget - this.camera.position.z) * zoomEase;
   }
 
   private animate = () => {
     this.animationFrameId = requestAnimationFrame(this.animate);
-    this.update(0.016);
+    const delta = this.clock.getDelta();
+    if (delta > 0) this.fps += (1 / delta - this.fps) * 0.05;
+    this.update(delta);
     this.composer.render();
   };
 
   public updateSize() {
-    this.camera.aspect = window.innerWidth / window.innerHeight;
+    const { width, height } = this.getViewportSize();
+    this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.composer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.setSize(width, height);
+    this.composer.setSize(width, height);
+  }
+
+  public getCanvas(): HTMLCanvasElement {
+    return this.renderer.domElement;
+  }
+
+  // Render one frame through the composer at an arbitrary resolution and encode it as
+  // PNG. The draw callback can paint on top, e.g. to burn in the greeting.
+  public captureSnapshot(
+    width: number,
+    height: number,
+    draw?: (context: CanvasRenderingContext2D, width: number, height: number) => void
+  ): Promise<Blob> {
+    const maxSize = this.renderer.capabilities.maxTextureSize;
+    if (width > maxSize || height > maxSize) {
+      return Promise.reject(new Error(`Snapshot size exceeds the GPU limit of ${maxSize}px.`));
+    }
+
+    const pixelRatio = this.renderer.getPixelRatio();
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+
+    try {
+      // Point sizes are in pixels; scale them so particles keep their on-screen proportions
+      this.particleMaterial.uniforms.pointScale.value = height / (this.getViewportSize().height * pixelRatio);
+      this.renderer.setPixelRatio(1);
+      this.composer.setPixelRatio(1);
+      this.camera.aspect = width / height;
+      this.camera.updateProjectionMatrix();
+      // Leave the canvas CSS size alone so the page does not jump
+      this.renderer.setSize(width, height, false);
+      this.composer.setSize(width, height);
+      this.composer.render();
+      // Copy before returning to the event loop, while the drawing buffer is still valid
+      context.drawImage(this.renderer.domElement, 0, 0, width, height);
+    } finally {
+      this.particleMaterial.uniforms.pointScale.value = 1;
+      this.renderer.setPixelRatio(pixelRatio);
+      this.composer.setPixelRatio(pixelRatio);
+      this.updateSize();
+      this.composer.render();
+    }
+
+    draw?.(context, width, height);
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob);
+        else reject(new Error('Failed to encode the snapshot.'));
+      }, 'image/png');
+    });
   }
 
   public dispose() {
@@ -544,6 +1237,16 @@ export class ThreeScene {
     // Remove event listeners
     window.removeEventListener('resize', this.config.onWindowResize);
 
+    this.setVideoBackground(null);
+
+    // Dispose fireworks, including bursts still in flight
+    this.fireworks.dispose();
+    this.decorations.dispose();
+    this.hitCone.geometry.dispose();
+    (this.hitCone.material as THREE.Material).dispose();
+    this.cursor.geometry.dispose();
+    (this.cursor.material as THREE.Material).dispose();
+
     // Dispose geometries
     this.particleGeometry.dispose();
     this.snowGeometry.dispose();
@@ -0,0 +1,318 @@
+import * as THREE from 'three';
+import { DECORATION_CONFIG, TREE_CONFIG } from './constants';
+import { ThemeDefinition, PlacedOrnament } from './types';
+import { EASINGS, treeSurfacePoint } from './utils';
+
+// An ornament that flies between a scattered position and its place on the tree
+interface Decoration {
+  object: THREE.Object3D;
+  home: THREE.Vector3;
+  homeRotation: THREE.Euler;
+  scatter: THREE.Vector3;
+  spin: THREE.Vector3; // Extra rotation (radians) when fully scattered
+  delay: number;
+  progress: number; // 0 = scattered, 1 = in place
+  ownMaterial?: THREE.Material; // Disposed with the ornament when it is removed
+}
+
+function randomScatterPosition() {
+  const direction = new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).normalize();
+  return direction.multiplyScalar(DECORATION_CONFIG.SCATTER_DISTANCE * (0.6 + Math.random() * 0.4));
+}
+
+function createStarGeometry(size: number) {
+  const shape = new THREE.Shape();
+  for (let k = 0; k <= 10; k++) {
+    const angle = Math.PI / 2 + (k * Math.PI) / 5;
+    const r = k % 2 === 0 ? size : size * 0.45;
+    if (k === 0) shape.moveTo(Math.cos(angle) * r, Math.sin(angle) * r);
+    else shape.lineTo(Math.cos(angle) * r, Math.sin(angle) * r);
+  }
+
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: size * 0.25,
+    bevelEnabled: true,
+    bevelThickness: size * 0.08,
+    bevelSize: size * 0.06,
+    bevelSegments: 2,
+  });
+  geometry.center();
+  return geometry;
+}
+
+// Baubles, a spiral garland, ribbon bows and a 3D star topper on the tree surface.
+// They pop in from the bottom up when the tree assembles and scatter when it explodes.
+export class TreeDecorations {
+  private root = new THREE.Group();
+  private items: Decoration[] = [];
+  private placed = new Map<string, Decoration>();
+  private baubleMaterials: THREE.MeshStandardMaterial[] = [];
+  private geometries = {
+    sphere: new THREE.SphereGeometry(DECORATION_CONFIG.BAUBLE_RADIUS, 24, 16),
+    cap: new THREE.CylinderGeometry(
+      DECORATION_CONFIG.BAUBLE_RADIUS * 0.25,
+      DECORATION_CONFIG.BAUBLE_RADIUS * 0.25,
+      DECORATION_CONFIG.BAUBLE_RADIUS * 0.3,
+      12
+    ),
+    loop: new THREE.TorusGeometry(0.35, 0.1, 8, 16),
+    knot: new THREE.SphereGeometry(0.16, 12, 8),
+    tail: new THREE.BoxGeometry(0.14, 0.7, 0.04),
+    smallStar: createStarGeometry(DECORATION_CONFIG.BAUBLE_RADIUS * 1.2),
+  };
+  private capMaterial = new THREE.MeshStandardMaterial({ color: 0xD4AF37, metalness: 0.9, roughness: 0.3 });
+  private ribbonMaterial = new THREE.MeshStandardMaterial({ color: 0xC0143C, emissive: 0x400010, roughness: 0.5 });
+  private goldMaterial = new THREE.MeshStandardMaterial({
+    color: 0xFFD700,
+    emissive: 0xFFC400,
+    emissiveIntensity: 0.8,
+    metalness: 0.8,
+    roughness: 0.25,
+  });
+  private garland: THREE.Mesh;
+  private garlandProgress: number = 0;
+  private topper: THREE.Mesh;
+  private topperSpin: number = 0;
+  private assembledTime: number = 0;
+
+  constructor(private parent: THREE.Group) {
+    this.createBaubles();
+    this.createGarland();
+    this.createBows();
+    this.createTopper();
+    this.parent.add(this.root);
+  }
+
+  private createItem(object: THREE.Object3D, home: THREE.Vector3, normalizedY: number): Decoration {
+    object.position.copy(home);
+    object.visible = false;
+    this.root.add(object);
+    return {
+      object,
+      home,
+      homeRotation: object.rotation.clone(),
+      scatter: randomScatterPosition(),
+      spin: new THREE.Vector3(Math.random() - 0.5, Math.random() - 0.5, Math.random() - 0.5).multiplyScalar(Math.PI * 4),
+      delay: normalizedY * DECORATION_CONFIG.ASSEMBLE_STAGGER,
+      progress: 0,
+    };
+  }
+
+  private addItem(object: THREE.Object3D, home: THREE.Vector3, normalizedY: number) {
+    this.items.push(this.createItem(object, home, normalizedY));
+  }
+
+  private createBaubleMaterial(isGlass: boolean, color?: string) {
+    const material = isGlass
+      ? new THREE.MeshPhysicalMaterial({
+        metalness: 0,
+        roughness: 0.05,
+        transmission: 0.9,
+        thickness: DECORATION_CONFIG.BAUBLE_RADIUS,
+        ior: 1.5,
+        transparent: true,
+        opacity: 0.85,
+        emissiveIntensity: 0.15,
+      })
+      : new THREE.MeshStandardMaterial({
+        metalness: 0.85,
+        roughness: 0.2,
+        emissiveIntensity: 0.3, // The scene has no environment map, so metal needs some self-light
+      });
+    if (color) {
+      material.color.set(color);
+      material.emissive.set(color);
+    }
+    return material;
+  }
+
+  private buildBauble(material: THREE.Material) {
+    const bauble = new THREE.Group();
+    bauble.add(new THREE.Mesh(this.geometries.sphere, material));
+    const cap = new THREE.Mesh(this.geometries.cap, this.capMaterial);
+    cap.position.y = DECORATION_CONFIG.BAUBLE_RADIUS;
+    bauble.add(cap);
+    return bauble;
+  }
+
+  // Built in the xy plane facing +z; angle turns it to face outwards from the trunk
+  private buildBow(angle: number) {
+    const bow = new THREE.Group();
+    [-1, 1].forEach(side => {
+      const loop = new THREE.Mesh(this.geometries.loop, this.ribbonMaterial);
+      loop.position.x = side * 0.3;
+      loop.scale.set(1, 0.6, 1);
+      bow.add(loop);
+
+      const tail = new THREE.Mesh(this.geometries.tail, this.ribbonMaterial);
+      tail.position.set(side * 0.15, -0.4, 0);
+      tail.rotation.z = side * 0.3;
+      bow.add(tail);
+    });
+    bow.add(new THREE.Mesh(this.geometries.knot, this.ribbonMaterial));
+    bow.rotation.y = Math.PI / 2 - angle;
+    return bow;
+  }
+
+  private createBaubles() {
+    const radius = DECORATION_CONFIG.BAUBLE_RADIUS;
+
+    for (let i = 0; i < DECORATION_CONFIG.BAUBLE_COUNT; i++) {
+      // Spread over the surface with the golden angle, avoiding the tip and the lowest droop
+      const normalizedY = 0.05 + (i / DECORATION_CONFIG.BAUBLE_COUNT) * 0.75;
+      const angle = i * 2.399963229728653;
+      const material = this.createBaubleMaterial(Math.random() < DECORATION_CONFIG.GLASS_RATIO);
+      this.baubleMaterials.push(material);
+
+      const home = treeSurfacePoint(normalizedY, angle, DECORATION_CONFIG.SURFACE_OFFSET + radius * 0.5);
+      home.y -= radius; // Hang below the branch
+      this.addItem(this.buildBauble(material), home, normalizedY);
+    }
+  }
+
+  private createGarland() {
+    const points: THREE.Vector3[] = [];
+    const samples = DECORATION_CONFIG.GARLAND_TURNS * 24;
+    for (let i = 0; i <= samples; i++) {
+      const t = i / samples;
+      const normalizedY = 0.02 + t * 0.85;
+      points.push(treeSurfacePoint(normalizedY, t * DECORATION_CONFIG.GARLAND_TURNS * Math.PI * 2, DECORATION_CONFIG.SURFACE_OFFSET));
+    }
+
+    const geometry = new THREE.TubeGeometry(
+      new THREE.CatmullRomCurve3(points),
+      samples * 2,
+      DECORATION_CONFIG.GARLAND_THICKNESS,
+      6,
+      false
+    );
+    const material = new THREE.MeshStandardMaterial({
+      color: 0xFFD700,
+      emissive: 0xFFB000,
+      emissiveIntensity: 0.6,
+      metalness: 0.8,
+      roughness: 0.3,
+      transparent: true,
+    });
+
+    this.garland = new THREE.Mesh(geometry, material);
+    this.garland.visible = false;
+    this.root.add(this.garland);
+  }
+
+  private createBows() {
+    for (let i = 0; i < DECORATION_CONFIG.BOW_COUNT; i++) {
+      const normalizedY = 0.15 + (i / DECORATION_CONFIG.BOW_COUNT) * 0.6;
+      const angle = (i / DECORATION_CONFIG.BOW_COUNT) * Math.PI * 2 + Math.PI / DECORATION_CONFIG.BOW_COUNT;
+      const home = treeSurfacePoint(normalizedY, angle, DECORATION_CONFIG.SURFACE_OFFSET);
+      this.addItem(this.buildBow(angle), home, normalizedY);
+    }
+  }
+
+  private createTopper() {
+    this.topper = new THREE.Mesh(createStarGeometry(DECORATION_CONFIG.TOPPER_SIZE), this.goldMaterial);
+    this.addItem(this.topper, new THREE.Vector3(0, TREE_CONFIG.HEIGHT / 2 + 0.5, 0), 1);
+  }
+
+  // Sync the user-placed ornaments, keeping the ones that are already on the tree
+  public setPlaced(ornaments: PlacedOrnament[]) {
+    const ids = new Set(ornaments.map(ornament => ornament.id));
+    this.placed.forEach((item, id) => {
+      if (ids.has(id)) return;
+      this.root.remove(item.object);
+      item.ownMaterial?.dispose();
+      this.placed.delete(id);
+    });
+
+    ornaments.forEach(ornament => {
+      if (this.placed.has(ornament.id)) return;
+
+      const home = new THREE.Vector3(...ornament.position);
+      const angle = Math.atan2(home.z, home.x);
+      let object: THREE.Object3D;
+      let ownMaterial: THREE.Material | undefined;
+      if (ornament.type === 'bow') {
+        object = this.buildBow(angle);
+      } else if (ornament.type === 'star') {
+        object = new THREE.Mesh(this.geometries.smallStar, this.goldMaterial);
+        object.rotation.y = Math.PI / 2 - angle;
+      } else {
+        ownMaterial = this.createBaubleMaterial(ornament.type === 'glass', ornament.color);
+        object = this.buildBauble(ownMaterial);
+      }
+
+      const normalizedY = Math.min(1, Math.max(0, home.y / TREE_CONFIG.HEIGHT + 0.5));
+      this.placed.set(ornament.id, { ...this.createItem(object, home, normalizedY), ownMaterial });
+    });
+  }
+
+  // Baubles take their colours from the theme palette
+  public setTheme(theme: ThemeDefinition) {
+    this.baubleMaterials.forEach((material, i) => {
+      const color = theme.palette[i % theme.palette.length].color;
+      material.color.set(color);
+      material.emissive.set(color);
+    });
+  }
+
+  public update(delta: number, assembled: boolean) {
+    this.assembledTime = assembled ? this.assembledTime + delta : 0;
+
+    [...this.items, ...this.placed.values()].forEach(item => {
+      if (assembled && this.assembledTime >= item.delay) {
+        item.progress = Math.min(1, item.progress + delta / DECORATION_CONFIG.ASSEMBLE_DURATION);
+      } else if (!assembled) {
+        item.progress = Math.max(0, item.progress - delta / DECORATION_CONFIG.SCATTER_DURATION);
+      }
+
+      const object = item.object;
+      object.visible = item.progress > 0.001;
+      if (!object.visible) return;
+
+      const t = EASINGS.easeOutCubic(item.progress);
+      object.position.lerpVectors(item.scatter, item.home, t);
+      object.scale.setScalar(Math.max(0, EASINGS.easeOutBack(item.progress)));
+      object.rotation.set(
+        item.homeRotation.x + item.spin.x * (1 - t),
+        item.homeRotation.y + item.spin.y * (1 - t),
+        item.homeRotation.z + item.spin.z * (1 - t)
+      );
+    });
+
+    // The topper keeps turning slowly once in place
+    this.topperSpin = (this.topperSpin + delta * 0.8) % (Math.PI * 2);
+    this.topper.rotation.y += this.topperSpin;
+
+    // The garland winds up the tree, then fades outwards on explode
+    this.garlandProgress = assembled
+      ? Math.min(1, this.garlandProgress + delta / (DECORATION_CONFIG.ASSEMBLE_DURATION + DECORATION_CONFIG.ASSEMBLE_STAGGER))
+      : Math.max(0, this.garlandProgress - delta / DECORATION_CONFIG.SCATTER_DURATION);
+    const geometry = this.garland.geometry as THREE.BufferGeometry;
+    const material = this.garland.material as THREE.MeshStandardMaterial;
+    this.garland.visible = this.garlandProgress > 0.001;
+    if (assembled) {
+      geometry.setDrawRange(0, Math.floor((geometry.index.count * this.garlandProgress) / 3) * 3);
+      this.garland.scale.setScalar(1);
+      material.opacity = 1;
+    } else {
+      geometry.setDrawRange(0, Infinity);
+      this.garland.scale.set(2 - this.garlandProgress, 1, 2 - this.garlandProgress);
+      material.opacity = this.garlandProgress;
+    }
+  }
+
+  public dispose() {
+    const geometries = new Set<THREE.BufferGeometry>(Object.values(this.geometries));
+    const materials = new Set<THREE.Material>([this.capMaterial, this.ribbonMaterial, this.goldMaterial]);
+    this.root.traverse((object: THREE.Object3D) => {
+      const mesh = object as THREE.Mesh;
+      if (mesh.isMesh) {
+        geometries.add(mesh.geometry);
+        materials.add(mesh.material as THREE.Material);
+      }
+    });
+    geometries.forEach(geometry => geometry.dispose());
+    materials.forEach(material => material.dispose());
+    this.parent.remove(this.root);
+  }
+}
@@ -0,0 +1,142 @@
+import { ActionDefinition, ActionId, ActionParamDefinition, ActionParamValue } from './types';
+import { CAPTURE_CONFIG } from './constants';
+
+// Everything a gesture can be bound to. The handlers live in GestureTree, which owns the scene state.
+export const ACTIONS: ActionDefinition[] = [
+  {
+    id: 'ASSEMBLE',
+    name: '聚合成树',
+    params: [],
+    continuous: true,
+  },
+  {
+    id: 'CYCLE_THEME',
+    name: '切换主题',
+    params: [
+      {
+        key: 'step',
+        label: '方向',
+        type: 'select',
+        default: 'next',
+        options: [
+          { value: 'next', label: '下一个' },
+          { value: 'previous', label: '上一个' },
+        ],
+      },
+    ],
+    sound: 'THEME',
+  },
+  {
+    id: 'SET_THEME',
+    name: '指定主题',
+    params: [{ key: 'theme', label: '主题', type: 'theme', default: 'classic' }],
+    sound: 'THEME',
+  },
+  {
+    id: 'SNOW',
+    name: '飘雪',
+    params: [
+      {
+        key: 'mode',
+        label: '方式',
+        type: 'select',
+        default: 'start',
+        options: [
+          { value: 'start', label: '开始' },
+          { value: 'stop', label: '停止' },
+          { value: 'toggle', label: '开/关' },
+        ],
+      },
+      { key: 'duration', label: '持续秒数 (0 = 一直下)', type: 'number', default: 10, min: 0, max: 600, step: 1 },
+    ],
+    sound: 'SNOW',
+  },
+  {
+    id: 'FIREWORK',
+    name: '烟花',
+    params: [
+      { key: 'count', label: '数量', type: 'number', default: 1, min: 1, max: 5, step: 1 },
+      { key: 'atHand', label: '从手的位置升空', type: 'boolean', default: true },
+    ],
+    sound: 'LAUNCH',
+  },
+  {
+    id: 'CYCLE_SHAPE',
+    name: '切换形状',
+    params: [
+      {
+        key: 'step',
+        label: '方向',
+        type: 'select',
+        default: 'next',
+        options: [
+          { value: 'next', label: '下一个' },
+          { value: 'previous', label: '上一个' },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'GREETING',
+    name: '显示祝福语',
+    params: [{ key: 'duration', label: '显示秒数', type: 'number', default: 2, min: 0.5, max: 30, step: 0.5 }],
+  },
+  {
+    id: 'SCREENSHOT',
+    name: '截图',
+    params: [
+      {
+        key: 'size',
+        label: '尺寸',
+        type: 'select',
+        default: CAPTURE_CONFIG.SNAPSHOT_SIZES[0].id,
+        options: CAPTURE_CONFIG.SNAPSHOT_SIZES.map(size => ({ value: size.id, label: size.name })),
+      },
+      { key: 'greeting', label: '叠加祝福语', type: 'boolean', default: false },
+    ],
+  },
+  {
+    id: 'TOGGLE_RECORDING',
+    name: '开始/停止录制',
+    params: [],
+  },
+  {
+    id: 'RESET_VIEW',
+    name: '重置视角',
+    params: [],
+    sound: 'RESET',
+  },
+];
+
+export function getAction(id: ActionId): ActionDefinition | undefined {
+  return ACTIONS.find(action => action.id === id);
+}
+
+export function getDefaultParams(action: ActionDefinition): Record<string, ActionParamValue> {
+  const params: Record<string, ActionParamValue> = {};
+  action.params.forEach(param => {
+    params[param.key] = param.default;
+  });
+  return params;
+}
+
+// Check one parameter value against its definition; returns an error message or null
+export function checkParam(param: ActionParamDefinition, value: unknown): string | null {
+  switch (param.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'expected a number';
+      if ((param.min !== undefined && value < param.min) || (param.max !== undefined && value > param.max)) {
+        return `expected a value between ${param.min} and ${param.max}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected true or false';
+    case 'select':
+      return param.options!.some(option => option.value === value)
+        ? null
+        : `expected one of ${param.options!.map(option => option.value).join(', ')}`;
+    case 'theme':
+      // Themes may be imported after the bindings, so any id is accepted here
+      return typeof value === 'string' && value !== '' ? null : 'expected a theme id';
+  }
+}
@@ -0,0 +1,66 @@
+import { BIMANUAL_CONFIG } from './constants';
+import { HandPose } from './utils';
+
+export interface BimanualGestureCallbacks {
+  onScale: (scale: number) => void;
+  onReset: () => void;
+}
+
+const palmDistance = (a: HandPose, b: HandPose) =>
+  Math.hypot(a.palmBase.x - b.palmBase.x, a.palmBase.y - b.palmBase.y);
+
+const isOpenHand = (pose: HandPose) => pose.fingersExtended >= 4;
+
+// Gestures that need both hands: spread open hands to scale, bring fists together to reset
+export class BimanualGestureTracker {
+  private scale: number = 1;
+  private spreadStartDistance: number | null = null;
+  private spreadStartScale: number = 1;
+  private fistsTogetherSince: number | null = null;
+  private lastReset: number = -Infinity;
+
+  constructor(private callbacks: BimanualGestureCallbacks) {}
+
+  public get isSpreading() {
+    return this.spreadStartDistance !== null;
+  }
+
+  public update(left: HandPose | null, right: HandPose | null, timestamp: number) {
+    if (!left || !right) {
+      this.spreadStartDistance = null;
+      this.fistsTogetherSince = null;
+      return;
+    }
+
+    const distance = palmDistance(left, right);
+
+    // Spread: scale relative to the distance when both hands first opened
+    if (isOpenHand(left) && isOpenHand(right)) {
+      if (this.spreadStartDistance === null) {
+        this.spreadStartDistance = Math.max(distance, 1e-3);
+        this.spreadStartScale = this.scale;
+      }
+      const scale = this.spreadStartScale * (distance / this.spreadStartDistance);
+      this.scale = Math.min(BIMANUAL_CONFIG.MAX_TREE_SCALE, Math.max(BIMANUAL_CONFIG.MIN_TREE_SCALE, scale));
+      this.callbacks.onScale(this.scale);
+    } else {
+      this.spreadStartDistance = null;
+    }
+
+    // Fists together: reset once held, then wait for the cooldown
+    if (left.isFist && right.isFist && distance < BIMANUAL_CONFIG.FISTS_TOGETHER_DISTANCE) {
+      if (this.fistsTogetherSince === null) {
+        this.fistsTogetherSince = timestamp;
+      }
+      const held = timestamp - this.fistsTogetherSince >= BIMANUAL_CONFIG.RESET_HOLD_TIME;
+      const cooledDown = timestamp - this.lastReset >= BIMANUAL_CONFIG.RESET_COOLDOWN;
+      if (held && cooledDown) {
+        this.lastReset = timestamp;
+        this.scale = 1;
+        this.callbacks.onReset();
+      }
+    } else {
+      this.fistsTogetherSince = null;
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { GestureBinding, GestureTrigger } from './types';
+import { BINDINGS_CONFIG } from './constants';
+import { getAction, getDefaultParams, checkParam } from './actions';
+
+// Every gesture that can be bound, in the order the settings panel lists them
+export const TRIGGERS: { trigger: GestureTrigger; name: string }[] = [
+  { trigger: 'FIST', name: '✊ 握拳' },
+  { trigger: 'ONE_FINGER', name: '☝️ 1根手指' },
+  { trigger: 'TWO_FINGERS', name: '✌️ 2根手指' },
+  { trigger: 'THREE_FINGERS', name: '🤟 3根手指' },
+  { trigger: 'TWO_FINGERS_HOLD', name: '✌️ 保持2根手指 2 秒' },
+  { trigger: 'SWIPE_LEFT', name: '👈 向左挥' },
+  { trigger: 'SWIPE_RIGHT', name: '👉 向右挥' },
+  { trigger: 'SWIPE_UP', name: '👆 向上挥' },
+  { trigger: 'SWIPE_DOWN', name: '👇 向下挥' },
+  { trigger: 'CIRCLE_CLOCKWISE', name: '🔃 顺时针画圈' },
+  { trigger: 'CIRCLE_COUNTER_CLOCKWISE', name: '🔄 逆时针画圈' },
+  { trigger: 'WAVE', name: '👋 挥手' },
+];
+
+// The original hard-wired behaviour
+export const DEFAULT_BINDINGS: GestureBinding[] = [
+  { trigger: 'FIST', action: 'ASSEMBLE', params: {} },
+  { trigger: 'ONE_FINGER', action: 'CYCLE_THEME', params: { step: 'next' } },
+  { trigger: 'TWO_FINGERS', action: 'SNOW', params: { mode: 'start', duration: 10 } },
+  { trigger: 'THREE_FINGERS', action: 'FIREWORK', params: { count: 1, atHand: true } },
+  { trigger: 'TWO_FINGERS_HOLD', action: 'TOGGLE_RECORDING', params: {} },
+  { trigger: 'SWIPE_LEFT', action: 'CYCLE_THEME', params: { step: 'previous' } },
+  { trigger: 'SWIPE_RIGHT', action: 'CYCLE_THEME', params: { step: 'next' } },
+  { trigger: 'SWIPE_UP', action: 'SNOW', params: { mode: 'start', duration: 10 } },
+  { trigger: 'SWIPE_DOWN', action: 'SNOW', params: { mode: 'stop', duration: 0 } },
+  { trigger: 'CIRCLE_CLOCKWISE', action: 'FIREWORK', params: { count: 1, atHand: false } },
+  { trigger: 'CIRCLE_COUNTER_CLOCKWISE', action: 'CYCLE_SHAPE', params: { step: 'next' } },
+  { trigger: 'WAVE', action: 'GREETING', params: { duration: 2 } },
+];
+
+// Validate untrusted JSON (file import or localStorage) into a binding. Missing parameters
+// take their defaults and unknown ones are dropped.
+export function parseBinding(data: any): GestureBinding {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid binding${data && typeof data.trigger === 'string' ? ` for ${data.trigger}` : ''}: ${message}`);
+  };
+
+  if (!data || typeof data !== 'object') fail('expected an object.');
+  if (!TRIGGERS.some(entry => entry.trigger === data.trigger)) {
+    fail(`trigger must be one of ${TRIGGERS.map(entry => entry.trigger).join(', ')}.`);
+  }
+  const action = getAction(data.action);
+  if (!action) fail(`unknown action ${JSON.stringify(data.action)}.`);
+  if (action!.continuous && data.trigger !== 'FIST') fail(`${action!.id} can only be bound to FIST.`);
+
+  const params = { ...getDefaultParams(action!) };
+  action!.params.forEach(param => {
+    const value = data.params?.[param.key];
+    if (value === undefined) return;
+    const message = checkParam(param, value);
+    if (message) fail(`params.${param.key}: ${message}.`);
+    params[param.key] = value;
+  });
+
+  return { trigger: data.trigger, action: action!.id, params };
+}
+
+// Which action each gesture triggers, persisted in localStorage. A gesture without a binding does nothing.
+export class BindingStore {
+  private bindings: GestureBinding[] = DEFAULT_BINDINGS;
+  private listeners = new Set<(bindings: GestureBinding[]) => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  public list(): GestureBinding[] {
+    return [...this.bindings];
+  }
+
+  public get(trigger: GestureTrigger): GestureBinding | undefined {
+    return this.bindings.find(binding => binding.trigger === trigger);
+  }
+
+  // Throws if the binding is invalid
+  public set(binding: GestureBinding) {
+    const validated = parseBinding(binding);
+    this.bindings = [...this.bindings.filter(entry => entry.trigger !== validated.trigger), validated];
+    this.persist();
+  }
+
+  public remove(trigger: GestureTrigger) {
+    this.bindings = this.bindings.filter(binding => binding.trigger !== trigger);
+    this.persist();
+  }
+
+  public reset() {
+    this.bindings = DEFAULT_BINDINGS;
+    this.persist();
+  }
+
+  // Replace every binding with a preset; nothing changes if any entry is invalid
+  public importJson(json: string): GestureBinding[] {
+    const data = JSON.parse(json);
+    const entries = Array.isArray(data) ? data : data?.bindings;
+    if (!Array.isArray(entries)) {
+      throw new Error('Expected a bindings file or an array of bindings.');
+    }
+
+    const bindings = entries.map(parseBinding);
+    const triggers = new Set<GestureTrigger>();
+    bindings.forEach(binding => {
+      if (triggers.has(binding.trigger)) {
+        throw new Error(`Duplicate binding for ${binding.trigger}.`);
+      }
+      triggers.add(binding.trigger);
+    });
+
+    this.bindings = bindings;
+    this.persist();
+    return this.list();
+  }
+
+  public exportJson(): string {
+    return JSON.stringify({ version: BINDINGS_CONFIG.FILE_VERSION, bindings: this.bindings }, null, 2);
+  }
+
+  public subscribe(listener: (bindings: GestureBinding[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load() {
+    try {
+      const stored = localStorage.getItem(BINDINGS_CONFIG.STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      if (!Array.isArray(data)) return;
+
+      const bindings: GestureBinding[] = [];
+      data.forEach((entry: any) => {
+        try {
+          const binding = parseBinding(entry);
+          if (!bindings.some(existing => existing.trigger === binding.trigger)) bindings.push(binding);
+        } catch (e) {
+          console.warn('Skipping invalid stored binding', e);
+        }
+      });
+      this.bindings = bindings;
+    } catch (e) {
+      console.warn('Failed to load stored bindings', e);
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(BINDINGS_CONFIG.STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (e) {
+      console.warn('Failed to persist bindings', e);
+    }
+    const bindings = this.list();
+    this.listeners.forEach(listener => listener(bindings));
+  }
+}
+
+export const bindingStore = new BindingStore();
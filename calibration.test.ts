@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CALIBRATION_POSES, CalibrationSamples, deriveThresholds } from './calibration';
+import { CalibrationPoseId, FingerName } from './types';
+import { thresholdKey } from './utils';
+
+// No saved profiles for the module-level store
+vi.hoisted(() => vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {}, removeItem: () => {} }));
+
+const FINGERS: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+// Frames for every pose: fingers the pose shows extended or curled get those curls, the rest sit in between
+function samples(
+  curls: { extended: number; curled: number },
+  frames = 10,
+  tweak?: (pose: CalibrationPoseId, frame: number, finger: FingerName) => number | undefined
+): CalibrationSamples {
+  const result = {} as CalibrationSamples;
+  CALIBRATION_POSES.forEach(pose => {
+    result[pose.id] = Array.from({ length: frames }, (_, frame) => {
+      const curl = {} as Record<FingerName, number>;
+      FINGERS.forEach(finger => {
+        const base = pose.extended.includes(finger) ? curls.extended : pose.curled.includes(finger) ? curls.curled : 0.5;
+        curl[finger] = tweak?.(pose.id, frame, finger) ?? base;
+      });
+      return curl;
+    });
+  });
+  return result;
+}
+
+describe('deriveThresholds', () => {
+  it('keeps a dead zone inside the gap between extended and curled fingers', () => {
+    const { thresholds, unreliable } = deriveThresholds(samples({ extended: 0.2, curled: 0.8 }));
+    expect(unreliable).toEqual([]);
+    FINGERS.forEach(finger => {
+      expect(thresholds[thresholdKey(finger, 'CURLED_MIN')]).toBeCloseTo(0.6);
+      expect(thresholds[thresholdKey(finger, 'EXTENDED_MAX')]).toBeCloseTo(0.4);
+    });
+  });
+
+  it('calibrates each finger on its own', () => {
+    const { thresholds } = deriveThresholds(samples({ extended: 0.2, curled: 0.8 }));
+    // A pinky that never curls far
+    const stiffPinky = deriveThresholds(samples({ extended: 0.2, curled: 0.8 }, 10, (pose, _, finger) =>
+      finger === 'pinky' && CALIBRATION_POSES.find(p => p.id === pose)!.curled.includes('pinky') ? 0.5 : undefined
+    )).thresholds;
+
+    expect(stiffPinky.PINKY_CURLED_MIN).toBeCloseTo(0.4);
+    expect(stiffPinky.PINKY_EXTENDED_MAX).toBeCloseTo(0.3);
+    expect(stiffPinky.INDEX_CURLED_MIN).toBeCloseTo(thresholds.INDEX_CURLED_MIN);
+  });
+
+  it('ignores a stray frame', () => {
+    const { thresholds, unreliable } = deriveThresholds(samples({ extended: 0.2, curled: 0.8 }, 10, (pose, frame, finger) =>
+      pose === 'OPEN_PALM' && frame === 0 && finger === 'index' ? 0.95 : undefined
+    ));
+    expect(unreliable).toEqual([]);
+    expect(thresholds.INDEX_EXTENDED_MAX).toBeCloseTo(0.4);
+  });
+
+  it('reports fingers whose extended and curled curls overlap', () => {
+    const { thresholds, unreliable } = deriveThresholds(samples({ extended: 0.2, curled: 0.8 }, 10, (pose, _, finger) =>
+      finger === 'ring' && pose === 'FIST' ? 0.1 : undefined
+    ));
+    expect(unreliable).toEqual(['ring']);
+    expect(thresholds.RING_CURLED_MIN).toBe(thresholds.RING_EXTENDED_MAX);
+  });
+
+  it('needs samples for every pose', () => {
+    const partial = samples({ extended: 0.2, curled: 0.8 });
+    partial.FIST = [];
+    expect(() => deriveThresholds(partial)).toThrow('Calibration is missing samples for FIST.');
+  });
+});
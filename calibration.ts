@@ -0,0 +1,194 @@
+import {
+  CalibrationPose,
+  CalibrationPoseId,
+  CalibrationProfile,
+  FingerName,
+  GestureThresholds,
+  Landmark
+} from './types';
+import { CALIBRATION_CONFIG, GESTURE_THRESHOLDS } from './constants';
+import { classifyHandPose, setGestureThresholds, thresholdKey } from './utils';
+
+const LONG_FINGERS: FingerName[] = ['index', 'middle', 'ring', 'pinky'];
+
+// Thumb position is only well defined in the open palm and the fist
+export const CALIBRATION_POSES: CalibrationPose[] = [
+  { id: 'OPEN_PALM', name: '🖐️ 张开手掌', extended: ['thumb', ...LONG_FINGERS], curled: [] },
+  { id: 'FIST', name: '✊ 握拳', extended: [], curled: ['thumb', ...LONG_FINGERS] },
+  { id: 'ONE_FINGER', name: '☝️ 1根手指', extended: ['index'], curled: ['middle', 'ring', 'pinky'] },
+  { id: 'TWO_FINGERS', name: '✌️ 2根手指', extended: ['index', 'middle'], curled: ['ring', 'pinky'] },
+  { id: 'THREE_FINGERS', name: '🤟 3根手指', extended: ['index', 'middle', 'ring'], curled: ['pinky'] },
+];
+
+export type CalibrationSamples = Record<CalibrationPoseId, Record<FingerName, number>[]>;
+
+// Per-finger curl of one frame, as classifyHandPose measures it
+export function measureFingerCurls(landmarks: Landmark[]): Record<FingerName, number> | null {
+  const pose = classifyHandPose(landmarks);
+  if (!pose) return null;
+  const { thumb, index, middle, ring, pinky } = pose.fingers;
+  return { thumb: thumb.curl, index: index.curl, middle: middle.curl, ring: ring.curl, pinky: pinky.curl };
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// Place each finger's curl boundaries inside the gap between the user's extended and curled curls.
+// Fingers whose ranges overlap are returned as unreliable and get the midpoint.
+export function deriveThresholds(samples: CalibrationSamples): { thresholds: GestureThresholds; unreliable: FingerName[] } {
+  CALIBRATION_POSES.forEach(pose => {
+    if (!samples[pose.id] || samples[pose.id].length === 0) {
+      throw new Error(`Calibration is missing samples for ${pose.id}.`);
+    }
+  });
+
+  const thresholds: GestureThresholds = { ...GESTURE_THRESHOLDS };
+  const unreliable: FingerName[] = [];
+
+  (['thumb', ...LONG_FINGERS] as FingerName[]).forEach(finger => {
+    const collect = (kind: 'curled' | 'extended') =>
+      CALIBRATION_POSES.filter(pose => pose[kind].includes(finger)).flatMap(pose => samples[pose.id].map(d => d[finger]));
+
+    const curledLow = percentile(collect('curled'), CALIBRATION_CONFIG.CURLED_PERCENTILE);
+    const extendedHigh = percentile(collect('extended'), CALIBRATION_CONFIG.EXTENDED_PERCENTILE);
+    const gap = curledLow - extendedHigh;
+
+    let curledMin = curledLow - gap * CALIBRATION_CONFIG.MARGIN;
+    let extendedMax = extendedHigh + gap * CALIBRATION_CONFIG.MARGIN;
+    if (gap <= 0) {
+      unreliable.push(finger);
+      curledMin = extendedMax = (curledLow + extendedHigh) / 2;
+    }
+
+    thresholds[thresholdKey(finger, 'CURLED_MIN')] = curledMin;
+    thresholds[thresholdKey(finger, 'EXTENDED_MAX')] = extendedMax;
+  });
+
+  return { thresholds, unreliable };
+}
+
+function parseProfile(data: any): CalibrationProfile | null {
+  if (!data || typeof data.id !== 'string' || typeof data.name !== 'string' || !data.thresholds) return null;
+  const thresholds = {} as GestureThresholds;
+  for (const key of Object.keys(GESTURE_THRESHOLDS) as (keyof GestureThresholds)[]) {
+    const value = data.thresholds[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) return null;
+    thresholds[key] = value;
+  }
+  return {
+    id: data.id,
+    name: data.name,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    thresholds,
+  };
+}
+
+export interface CalibrationState {
+  profiles: CalibrationProfile[];
+  activeId: string | null;
+}
+
+// Named calibration profiles in localStorage. The active profile's curl boundaries
+// replace the runtime-config defaults in classifyHandPose.
+export class CalibrationStore {
+  private profiles: CalibrationProfile[] = [];
+  private activeId: string | null = null;
+  private listeners = new Set<(state: CalibrationState) => void>();
+
+  constructor() {
+    this.load();
+    this.apply();
+  }
+
+  public getState(): CalibrationState {
+    return { profiles: [...this.profiles], activeId: this.activeId };
+  }
+
+  public getActive(): CalibrationProfile | null {
+    return this.profiles.find(profile => profile.id === this.activeId) || null;
+  }
+
+  // Saving under an existing name recalibrates that profile. The saved profile becomes active.
+  public save(name: string, thresholds: GestureThresholds): CalibrationProfile {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name must not be empty.');
+    }
+
+    const existing = this.profiles.find(profile => profile.name === trimmed);
+    const profile: CalibrationProfile = {
+      id: existing ? existing.id : `calibration-${Date.now()}`,
+      name: trimmed,
+      createdAt: new Date().toISOString(),
+      thresholds: { ...thresholds },
+    };
+    this.profiles = existing
+      ? this.profiles.map(p => (p.id === existing.id ? profile : p))
+      : [...this.profiles, profile];
+    this.activeId = profile.id;
+    this.persist();
+    return profile;
+  }
+
+  // null goes back to the built-in thresholds
+  public activate(id: string | null) {
+    this.activeId = id && this.profiles.some(profile => profile.id === id) ? id : null;
+    this.persist();
+  }
+
+  public remove(id: string) {
+    this.profiles = this.profiles.filter(profile => profile.id !== id);
+    if (this.activeId === id) this.activeId = null;
+    this.persist();
+  }
+
+  public subscribe(listener: (state: CalibrationState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private apply() {
+    const active = this.getActive();
+    setGestureThresholds(active ? active.thresholds : null);
+  }
+
+  private load() {
+    try {
+      const stored = localStorage.getItem(CALIBRATION_CONFIG.STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      if (!data || !Array.isArray(data.profiles)) return;
+
+      data.profiles.forEach((entry: any) => {
+        const profile = parseProfile(entry);
+        if (profile) {
+          this.profiles.push(profile);
+        } else {
+          console.warn('Skipping invalid calibration profile', entry);
+        }
+      });
+      if (this.profiles.some(profile => profile.id === data.activeId)) {
+        this.activeId = data.activeId;
+      }
+    } catch (e) {
+      console.warn('Failed to load calibration profiles', e);
+    }
+  }
+
+  private persist() {
+    this.apply();
+    try {
+      localStorage.setItem(CALIBRATION_CONFIG.STORAGE_KEY, JSON.stringify(this.getState()));
+    } catch (e) {
+      console.warn('Failed to persist calibration profiles', e);
+    }
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+export const calibrationStore = new CalibrationStore();
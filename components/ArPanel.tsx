@@ -0,0 +1,41 @@
+import React from 'react';
+import { AR_CONFIG } from '../constants';
+
+interface ArPanelProps {
+  dim: number;
+  blur: number;
+  anchored: boolean;
+  onDimChange: (dim: number) => void;
+  onBlurChange: (blur: number) => void;
+  onAnchoredChange: (anchored: boolean) => void;
+  onClose: () => void;
+}
+
+const ArPanel: React.FC<ArPanelProps> = ({ dim, blur, anchored, onDimChange, onBlurChange, onAnchoredChange, onClose }) => (
+  <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+    <div className="flex items-center justify-between">
+      <h3 className="font-bold text-sm text-gray-100">📷 AR 模式</h3>
+      <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+    </div>
+
+    <label className="flex flex-col gap-1">
+      背景变暗 {Math.round(dim * 100)}%
+      <input type="range" min={0} max={1} step={0.01} value={dim} onChange={(e) => onDimChange(Number(e.target.value))} />
+    </label>
+
+    <label className="flex flex-col gap-1">
+      背景模糊 {blur.toFixed(1)}
+      <input
+        type="range" min={0} max={AR_CONFIG.MAX_BLUR} step={0.5} value={blur}
+        onChange={(e) => onBlurChange(Number(e.target.value))}
+      />
+    </label>
+
+    <label className="flex items-center gap-2">
+      <input type="checkbox" checked={anchored} onChange={(e) => onAnchoredChange(e.target.checked)} />
+      把圣诞树托在手掌上
+    </label>
+  </div>
+);
+
+export default ArPanel;
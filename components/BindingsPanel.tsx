@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { ActionId, ActionParamDefinition, ActionParamValue, GestureBinding, GestureTrigger, ThemeDefinition } from '../types';
+import { ACTIONS, getAction, getDefaultParams } from '../actions';
+import { TRIGGERS, bindingStore } from '../bindings';
+import { downloadTextFile } from '../utils';
+
+interface BindingsPanelProps {
+  themes: ThemeDefinition[];
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30';
+const inputClass = 'bg-white/10 rounded px-2 py-1 text-gray-100';
+
+const BindingsPanel: React.FC<BindingsPanelProps> = ({ themes, onClose }) => {
+  const [bindings, setBindings] = useState<GestureBinding[]>(() => bindingStore.list());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => bindingStore.subscribe(setBindings), []);
+
+  // The store validates every change; invalid input shows up below instead of being saved
+  const update = (change: () => void) => {
+    try {
+      change();
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const setAction = (trigger: GestureTrigger, id: ActionId | '') => update(() => {
+    const action = id ? getAction(id) : undefined;
+    if (action) {
+      bindingStore.set({ trigger, action: action.id, params: getDefaultParams(action) });
+    } else {
+      bindingStore.remove(trigger);
+    }
+  });
+
+  const setParam = (binding: GestureBinding, key: string, value: ActionParamValue) => update(() => {
+    bindingStore.set({ ...binding, params: { ...binding.params, [key]: value } });
+  });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      bindingStore.importJson(await file.text());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const renderParam = (binding: GestureBinding, param: ActionParamDefinition) => {
+    const value = binding.params[param.key];
+    switch (param.type) {
+      case 'number':
+        return (
+          <input
+            type="number"
+            min={param.min}
+            max={param.max}
+            step={param.step}
+            value={Number(value)}
+            onChange={(e) => setParam(binding, param.key, Number(e.target.value))}
+            className={`${inputClass} w-20`}
+          />
+        );
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => setParam(binding, param.key, e.target.checked)}
+          />
+        );
+      case 'select':
+        return (
+          <select value={String(value)} onChange={(e) => setParam(binding, param.key, e.target.value)} className={inputClass}>
+            {param.options!.map(option => (
+              <option key={option.value} value={option.value} className="text-black">{option.label}</option>
+            ))}
+          </select>
+        );
+      case 'theme':
+        return (
+          <select value={String(value)} onChange={(e) => setParam(binding, param.key, e.target.value)} className={inputClass}>
+            {!themes.some(theme => theme.id === value) && (
+              <option value={String(value)} className="text-black">（已删除）{String(value)}</option>
+            )}
+            {themes.map(theme => (
+              <option key={theme.id} value={theme.id} className="text-black">{theme.name}</option>
+            ))}
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 max-h-[80vh] overflow-y-auto flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">🎮 手势绑定</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <p className="text-gray-400">「聚合成树」跟随握拳力度持续聚合和旋转，只能绑定到 ✊ 握拳。</p>
+
+      {TRIGGERS.map(({ trigger, name }) => {
+        const binding = bindings.find(entry => entry.trigger === trigger);
+        const action = binding && getAction(binding.action);
+        return (
+          <div key={trigger} className="flex flex-col gap-1 border-t border-white/10 pt-2">
+            <div className="flex items-center justify-between gap-2">
+              <span>{name}</span>
+              <select
+                value={binding ? binding.action : ''}
+                onChange={(e) => setAction(trigger, e.target.value as ActionId | '')}
+                className={inputClass}
+              >
+                <option value="" className="text-black">无</option>
+                {ACTIONS.filter(entry => !entry.continuous || trigger === 'FIST').map(entry => (
+                  <option key={entry.id} value={entry.id} className="text-black">{entry.name}</option>
+                ))}
+              </select>
+            </div>
+            {binding && action && action.params.map(param => (
+              <label key={param.key} className="flex items-center justify-between gap-2 pl-4 text-gray-400">
+                {param.label}
+                {renderParam(binding, param)}
+              </label>
+            ))}
+          </div>
+        );
+      })}
+
+      {error && <div className="text-red-400">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        <button className={buttonClass} onClick={() => update(() => bindingStore.reset())}>恢复默认</button>
+        <button
+          className={buttonClass}
+          onClick={() => downloadTextFile(bindingStore.exportJson(), 'gesture-tree-bindings.json')}
+        >
+          导出
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          导入
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default BindingsPanel;
@@ -0,0 +1,225 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FingerName, GestureThresholds, TrackingFrame } from '../types';
+import { CALIBRATION_CONFIG, GESTURE_THRESHOLDS } from '../constants';
+import { getDefaultGestureThresholds } from '../utils';
+import {
+  CALIBRATION_POSES,
+  CalibrationSamples,
+  CalibrationState,
+  calibrationStore,
+  deriveThresholds,
+  measureFingerCurls
+} from '../calibration';
+
+interface CalibrationWizardProps {
+  subscribe: (listener: (frame: TrackingFrame) => void) => () => void;
+  quick: boolean; // Skip the profile list and save straight into the active profile
+  onClose: () => void;
+}
+
+type WizardStep = 'INTRO' | 'CAPTURE' | 'RESULT';
+
+const DEFAULT_PROFILE_NAME = '我的手势';
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30';
+
+const emptySamples = (): CalibrationSamples =>
+  Object.fromEntries(CALIBRATION_POSES.map(pose => [pose.id, []])) as unknown as CalibrationSamples;
+
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ subscribe, quick, onClose }) => {
+  const [state, setState] = useState<CalibrationState>(() => calibrationStore.getState());
+  const [name, setName] = useState(() => calibrationStore.getActive()?.name || DEFAULT_PROFILE_NAME);
+  const [step, setStep] = useState<WizardStep>(quick ? 'CAPTURE' : 'INTRO');
+  const [poseIndex, setPoseIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [settleLeft, setSettleLeft] = useState<number>(CALIBRATION_CONFIG.SETTLE_TIME);
+  const [handVisible, setHandVisible] = useState(false);
+  const [result, setResult] = useState<{ thresholds: GestureThresholds; unreliable: FingerName[] } | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const samplesRef = useRef<CalibrationSamples>(emptySamples());
+  const poseIndexRef = useRef(0);
+  // Set from the first frame, since replayed frames are not timed by performance.now()
+  const settleUntilRef = useRef<number | null>(null);
+
+  useEffect(() => calibrationStore.subscribe(setState), []);
+
+  const save = (thresholds: GestureThresholds) => {
+    try {
+      calibrationStore.save(name, thresholds);
+      setSaved(true);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const startCapture = () => {
+    samplesRef.current = emptySamples();
+    poseIndexRef.current = 0;
+    settleUntilRef.current = null;
+    setPoseIndex(0);
+    setProgress(0);
+    setResult(null);
+    setSaved(false);
+    setError(null);
+    setStep('CAPTURE');
+  };
+
+  // Give the user time to form each pose, then record a batch of frames from the first visible hand
+  useEffect(() => {
+    if (step !== 'CAPTURE') return;
+
+    return subscribe((frame) => {
+      const hand = frame.hands[0];
+      if (settleUntilRef.current === null) {
+        settleUntilRef.current = frame.timestamp + CALIBRATION_CONFIG.SETTLE_TIME;
+      }
+      const remaining = settleUntilRef.current - frame.timestamp;
+      setHandVisible(Boolean(hand));
+      setSettleLeft(Math.max(0, remaining));
+      if (!hand || remaining > 0) return;
+
+      const curls = measureFingerCurls(hand.landmarks);
+      if (!curls) return;
+      const pose = CALIBRATION_POSES[poseIndexRef.current];
+      const samples = samplesRef.current[pose.id];
+      samples.push(curls);
+      setProgress(samples.length);
+      if (samples.length < CALIBRATION_CONFIG.SAMPLE_FRAMES) return;
+
+      if (poseIndexRef.current + 1 < CALIBRATION_POSES.length) {
+        poseIndexRef.current += 1;
+        settleUntilRef.current = frame.timestamp + CALIBRATION_CONFIG.SETTLE_TIME;
+        setPoseIndex(poseIndexRef.current);
+        setProgress(0);
+        return;
+      }
+
+      try {
+        const derived = deriveThresholds(samplesRef.current);
+        setResult(derived);
+        setStep('RESULT');
+        if (quick) save(derived.thresholds);
+      } catch (err: any) {
+        setError(err.message);
+        setStep('INTRO');
+      }
+    });
+  }, [step, subscribe]);
+
+  const pose = CALIBRATION_POSES[poseIndex];
+  const thresholdKeys = Object.keys(GESTURE_THRESHOLDS) as (keyof GestureThresholds)[];
+  const defaults = getDefaultGestureThresholds();
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">🎯 手势校准</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      {step === 'INTRO' && (
+        <>
+          <p className="text-gray-400">
+            依次做出 {CALIBRATION_POSES.map(p => p.name).join('、')}，每个手势保持约 1 秒，即可生成适合你的手型和摄像头距离的阈值。
+          </p>
+
+          <label className="flex flex-col gap-1">
+            档案名称
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-white/10 rounded px-2 py-1 text-gray-100"
+            />
+          </label>
+          <button className={buttonClass} disabled={!name.trim()} onClick={startCapture}>开始校准</button>
+
+          <div className="flex flex-col gap-1 pt-2 border-t border-white/10">
+            <button
+              onClick={() => calibrationStore.activate(null)}
+              className={`text-left px-2 py-1 rounded hover:bg-white/10 ${state.activeId === null ? 'text-yellow-300' : ''}`}
+            >
+              默认阈值
+            </button>
+            {state.profiles.map(profile => (
+              <div key={profile.id} className="flex items-center gap-2">
+                <button
+                  onClick={() => calibrationStore.activate(profile.id)}
+                  className={`flex-1 text-left truncate px-2 py-1 rounded hover:bg-white/10 ${
+                    profile.id === state.activeId ? 'text-yellow-300' : ''
+                  }`}
+                >
+                  {profile.name}
+                </button>
+                <button onClick={() => calibrationStore.remove(profile.id)} className="text-gray-500 hover:text-red-400">删除</button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {step === 'CAPTURE' && (
+        <>
+          <div className="text-center">
+            <div className="text-gray-400">第 {poseIndex + 1} / {CALIBRATION_POSES.length} 步</div>
+            <div className="text-2xl text-gray-100 my-2">{pose.name}</div>
+            <div className="text-gray-400">
+              {!handVisible
+                ? '请把手放到摄像头前'
+                : settleLeft > 0
+                ? `${Math.ceil(settleLeft / 1000)} 秒后开始记录…`
+                : '保持不动，正在记录…'}
+            </div>
+          </div>
+          <div className="h-2 rounded bg-white/10 overflow-hidden">
+            <div
+              className="h-full bg-yellow-400 transition-all"
+              style={{ width: `${(progress / CALIBRATION_CONFIG.SAMPLE_FRAMES) * 100}%` }}
+            />
+          </div>
+        </>
+      )}
+
+      {step === 'RESULT' && result && (
+        <>
+          <table className="w-full text-right">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="text-left font-normal">阈值</th>
+                <th className="font-normal">默认</th>
+                <th className="font-normal">校准</th>
+              </tr>
+            </thead>
+            <tbody>
+              {thresholdKeys.map(key => (
+                <tr key={key}>
+                  <td className="text-left">{key}</td>
+                  <td>{defaults[key].toFixed(3)}</td>
+                  <td className="text-yellow-300">{result.thresholds[key].toFixed(3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {result.unreliable.length > 0 && (
+            <div className="text-orange-300">
+              {result.unreliable.join('、')} 卷曲与伸直时的弯曲程度有重叠，已取中间值，建议重新校准。
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button className={buttonClass} disabled={saved} onClick={() => save(result.thresholds)}>
+              {saved ? `已保存为「${name.trim()}」` : '保存并启用'}
+            </button>
+            <button className={buttonClass} onClick={startCapture}>重新录制</button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default CalibrationWizard;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { RecordingState } from '../types';
+import { CAPTURE_CONFIG } from '../constants';
+import { SceneRecorder } from '../sceneCapture';
+
+interface CapturePanelProps {
+  recorder: SceneRecorder;
+  includeAudio: boolean;
+  error: string | null;
+  onIncludeAudioChange: (enabled: boolean) => void;
+  onToggleRecording: () => void;
+  onSnapshot: (width: number, height: number, burnInGreeting: boolean) => Promise<void>;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30';
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const CapturePanel: React.FC<CapturePanelProps> = ({
+  recorder,
+  includeAudio,
+  error,
+  onIncludeAudioChange,
+  onToggleRecording,
+  onSnapshot,
+  onClose,
+}) => {
+  const [state, setState] = useState<RecordingState>(() => recorder.getState());
+  const [elapsed, setElapsed] = useState(0);
+  const [sizeId, setSizeId] = useState<string>(CAPTURE_CONFIG.SNAPSHOT_SIZES[0].id);
+  const [burnInGreeting, setBurnInGreeting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => recorder.subscribe(setState), [recorder]);
+
+  useEffect(() => {
+    if (!state.isRecording) return;
+    setElapsed(0);
+    const timer = setInterval(() => setElapsed(performance.now() - state.startedAt), 250);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  const handleSnapshot = async () => {
+    const size = CAPTURE_CONFIG.SNAPSHOT_SIZES.find(s => s.id === sizeId) || CAPTURE_CONFIG.SNAPSHOT_SIZES[0];
+    setIsSaving(true);
+    try {
+      await onSnapshot(size.width, size.height, burnInGreeting);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">📸 录制与截图</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onToggleRecording}
+          className={`px-3 py-1 rounded font-bold transition-colors ${
+            state.isRecording ? 'bg-red-600 hover:bg-red-500 text-white' : 'bg-white/10 hover:bg-white/20'
+          }`}
+        >
+          {state.isRecording ? '■ 停止录制' : '● 录制视频'}
+        </button>
+        {state.isRecording && <span className="text-red-400">{formatElapsed(elapsed)}</span>}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={includeAudio}
+          disabled={state.isRecording}
+          onChange={(e) => onIncludeAudioChange(e.target.checked)}
+        />
+        录入音乐和音效
+      </label>
+
+      <p className="text-gray-400">手势：保持 ✌️ 2 秒开始或停止录制。</p>
+
+      <div className="flex flex-col gap-2 pt-2 border-t border-white/10">
+        <label className="flex items-center justify-between gap-2">
+          截图尺寸
+          <select
+            value={sizeId}
+            onChange={(e) => setSizeId(e.target.value)}
+            className="bg-white/10 rounded px-2 py-1"
+          >
+            {CAPTURE_CONFIG.SNAPSHOT_SIZES.map(size => (
+              <option key={size.id} value={size.id} className="text-black">{size.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={burnInGreeting} onChange={(e) => setBurnInGreeting(e.target.checked)} />
+          叠加祝福语
+        </label>
+        <button className={buttonClass} disabled={isSaving} onClick={handleSnapshot}>
+          {isSaving ? '保存中...' : '📷 保存 PNG'}
+        </button>
+      </div>
+
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default CapturePanel;
@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  FingerName,
+  GestureType,
+  HandLabel,
+  LabeledHand,
+  RuntimeConfig,
+  TrackingFrame,
+  TuningSection
+} from '../types';
+import { classifyHandPose, downloadTextFile, getGestureThresholds, thresholdKey } from '../utils';
+import { calibrationStore } from '../calibration';
+import { runtimeConfig } from '../runtimeConfig';
+import { TUNABLE_PARAMS } from '../tuning';
+
+interface DebugHudProps {
+  videoRef: React.RefObject<HTMLVideoElement>;
+  subscribe: (listener: (frame: TrackingFrame) => void) => () => void;
+  getSceneStats: () => { fps: number; particleCount: number };
+  onClose: () => void;
+}
+
+// MediaPipe hand skeleton: wrist, thumb, fingers and the palm knuckle line
+const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4],
+  [0, 5], [5, 6], [6, 7], [7, 8],
+  [9, 10], [10, 11], [11, 12],
+  [13, 14], [14, 15], [15, 16],
+  [0, 17], [17, 18], [18, 19], [19, 20],
+  [5, 9], [9, 13], [13, 17],
+];
+
+const HAND_COLORS: Record<HandLabel, string> = { Left: '#22d3ee', Right: '#f472b6' };
+const FINGERS: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 180;
+
+const GESTURE_NAMES: Record<GestureType, string> = {
+  FIST: '✊',
+  ONE_FINGER: '☝️',
+  TWO_FINGERS: '✌️',
+  THREE_FINGERS: '🤟',
+};
+
+// Mirrored like the scene, so the preview matches what the user sees
+function drawPreview(canvas: HTMLCanvasElement, video: HTMLVideoElement | null, hands: LabeledHand[]) {
+  const context = canvas.getContext('2d')!;
+  const { width, height } = canvas;
+
+  context.save();
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, width, height);
+  context.translate(width, 0);
+  context.scale(-1, 1);
+  if (video && video.readyState >= 2) {
+    context.drawImage(video, 0, 0, width, height);
+  }
+
+  hands.forEach(({ label, landmarks }) => {
+    context.strokeStyle = HAND_COLORS[label];
+    context.fillStyle = HAND_COLORS[label];
+    context.lineWidth = 2;
+    HAND_CONNECTIONS.forEach(([a, b]) => {
+      context.beginPath();
+      context.moveTo(landmarks[a].x * width, landmarks[a].y * height);
+      context.lineTo(landmarks[b].x * width, landmarks[b].y * height);
+      context.stroke();
+    });
+    landmarks.forEach(point => {
+      context.beginPath();
+      context.arc(point.x * width, point.y * height, 2.5, 0, Math.PI * 2);
+      context.fill();
+    });
+  });
+  context.restore();
+}
+
+const FingerTable: React.FC<{ hand: LabeledHand; gesture: GestureType | null }> = ({ hand, gesture }) => {
+  const pose = classifyHandPose(hand.landmarks);
+  if (!pose) return null;
+  const thresholds = getGestureThresholds();
+
+  const flags = [
+    pose.isFist && 'FIST',
+    pose.isOneFinger && 'ONE_FINGER',
+    pose.isTwoFingers && 'TWO_FINGERS',
+    pose.isThreeFingers && 'THREE_FINGERS',
+  ].filter(Boolean).join(' ') || '—';
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex justify-between" style={{ color: HAND_COLORS[hand.label] }}>
+        <span>{hand.label === 'Left' ? '左手' : '右手'} ({hand.score.toFixed(2)})</span>
+        <span>识别: {gesture ? GESTURE_NAMES[gesture] : '—'}</span>
+      </div>
+      <table className="w-full text-right">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="text-left font-normal">手指</th>
+            <th className="font-normal">弯曲</th>
+            <th className="font-normal">卷曲&gt;</th>
+            <th className="font-normal">伸直&lt;</th>
+            <th className="font-normal">状态</th>
+          </tr>
+        </thead>
+        <tbody>
+          {FINGERS.map(finger => {
+            const { curl, isCurled: curled, isExtended: extended } = pose.fingers[finger];
+            return (
+              <tr key={finger}>
+                <td className="text-left">{finger}</td>
+                <td>{curl.toFixed(3)}</td>
+                <td>{thresholds[thresholdKey(finger, 'CURLED_MIN')].toFixed(3)}</td>
+                <td>{thresholds[thresholdKey(finger, 'EXTENDED_MAX')].toFixed(3)}</td>
+                <td className={curled ? 'text-orange-300' : extended ? 'text-green-300' : 'text-gray-500'}>
+                  {curled ? '卷曲' : extended ? '伸直' : '—'}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-gray-400">单帧判定: {flags}</div>
+    </div>
+  );
+};
+
+const DebugHud: React.FC<DebugHudProps> = ({ videoRef, subscribe, getSceneStats, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastFrameTimeRef = useRef(0);
+  const [frame, setFrame] = useState<TrackingFrame | null>(null);
+  const [trackingFps, setTrackingFps] = useState(0);
+  const [sceneStats, setSceneStats] = useState(getSceneStats);
+  const [config, setConfig] = useState<RuntimeConfig>(() => runtimeConfig.get());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => subscribe((next) => {
+    const interval = next.timestamp - lastFrameTimeRef.current;
+    lastFrameTimeRef.current = next.timestamp;
+    if (interval > 0) setTrackingFps(fps => fps + (1000 / interval - fps) * 0.1);
+    setFrame(next);
+  }), [subscribe]);
+
+  useEffect(() => runtimeConfig.subscribe(setConfig), []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setSceneStats(getSceneStats()), 500);
+    return () => clearInterval(timer);
+  }, [getSceneStats]);
+
+  useEffect(() => {
+    if (canvasRef.current) {
+      drawPreview(canvasRef.current, videoRef.current, frame ? frame.hands : []);
+    }
+  }, [frame, videoRef]);
+
+  const handleChange = (section: TuningSection, key: string, value: number) => {
+    try {
+      runtimeConfig.update({ [section]: { [key]: value } });
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const tuningValue = (section: TuningSection, key: string): number =>
+    (config[section] as Record<string, number>)[key];
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 max-h-[85vh] overflow-y-auto flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">🛠️ 调试面板</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <canvas ref={canvasRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="w-full rounded border border-white/10" />
+
+      <div className="grid grid-cols-2 gap-x-4">
+        <span>渲染 FPS: {sceneStats.fps.toFixed(0)}</span>
+        <span>识别 FPS: {trackingFps.toFixed(0)}</span>
+        <span>推理延迟: {frame ? `${frame.latency.toFixed(0)}ms` : '—'}</span>
+        <span>粒子数: {sceneStats.particleCount}</span>
+        <span className="col-span-2">阈值档案: {calibrationStore.getActive()?.name || '默认'}</span>
+      </div>
+
+      {frame && frame.hands.length > 0 ? (
+        frame.hands.map(hand => (
+          <FingerTable key={hand.label} hand={hand} gesture={frame.gestures[hand.label]} />
+        ))
+      ) : (
+        <div className="text-gray-500">未检测到手</div>
+      )}
+
+      {(Object.keys(TUNABLE_PARAMS) as TuningSection[]).map(section => (
+        <div key={section} className="flex flex-col gap-1 pt-2 border-t border-white/10">
+          <div className="text-gray-100">{section}</div>
+          {section === 'GESTURE_THRESHOLDS' && calibrationStore.getActive() && (
+            <div className="text-orange-300">当前启用了校准档案，修改这里的默认阈值不会生效</div>
+          )}
+          {TUNABLE_PARAMS[section].map(({ key, min, max, step }) => (
+            <label key={key} className="flex flex-col">
+              <span className="flex justify-between">
+                <span>{key}</span>
+                <span>{tuningValue(section, key)}</span>
+              </span>
+              <input
+                type="range" min={min} max={max} step={step} value={tuningValue(section, key)}
+                onChange={(e) => handleChange(section, key, Number(e.target.value))}
+              />
+            </label>
+          ))}
+        </div>
+      ))}
+
+      {error && <div className="text-red-400">{error}</div>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => downloadTextFile(runtimeConfig.toJson(), 'config.json')}
+          className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors"
+        >
+          导出 config.json
+        </button>
+        <button onClick={() => runtimeConfig.reset()} className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors">
+          恢复默认
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DebugHud;
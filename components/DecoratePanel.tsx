@@ -0,0 +1,53 @@
+import React from 'react';
+import { OrnamentType } from '../types';
+
+interface DecoratePanelProps {
+  selected: OrnamentType;
+  ornamentCount: number;
+  onSelect: (type: OrnamentType) => void;
+  onUndo: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const ORNAMENT_LABELS: Record<OrnamentType, string> = {
+  bauble: '🔴 彩球',
+  glass: '🫧 玻璃球',
+  bow: '🎀 蝴蝶结',
+  star: '⭐ 星星',
+};
+
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30';
+
+const DecoratePanel: React.FC<DecoratePanelProps> = ({ selected, ornamentCount, onSelect, onUndo, onClear, onClose }) => (
+  <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+    <div className="flex items-center justify-between">
+      <h3 className="font-bold text-sm text-gray-100">🎄 装饰模式</h3>
+      <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+    </div>
+
+    <p className="text-gray-400">用食指指向圣诞树移动光标，拇指与食指捏合即可挂上装饰。</p>
+
+    <div className="grid grid-cols-2 gap-2">
+      {(Object.keys(ORNAMENT_LABELS) as OrnamentType[]).map(type => (
+        <button
+          key={type}
+          onClick={() => onSelect(type)}
+          className={`${buttonClass} ${selected === type ? 'bg-yellow-600/60 hover:bg-yellow-600/70' : ''}`}
+        >
+          {ORNAMENT_LABELS[type]}
+        </button>
+      ))}
+    </div>
+
+    <div className="flex items-center justify-between">
+      <span>已挂装饰: {ornamentCount}</span>
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={ornamentCount === 0} onClick={onUndo}>撤销</button>
+        <button className={buttonClass} disabled={ornamentCount === 0} onClick={onClear}>清空</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default DecoratePanel;
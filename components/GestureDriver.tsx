@@ -0,0 +1,94 @@
+import React, { useEffect, useRef } from 'react';
+import { GestureType, TrackingSettings, ZoomSettings } from '../types';
+import { EMBED_CONFIG } from '../constants';
+import { GestureTreeApi } from '../GestureTreeApi';
+import { themeRegistry } from '../themes';
+import { useGestureRecognition } from '../useGestureRecognition';
+
+interface GestureDriverProps {
+  api: GestureTreeApi;
+  tracking: TrackingSettings;
+  zoom: ZoomSettings;
+  // Dispatches a DOM event on the host element; false if a listener called preventDefault()
+  emit: (name: string, detail: unknown, cancelable?: boolean) => boolean;
+}
+
+// Camera and gesture layer of <gesture-tree>. Recognised gestures are reported as DOM
+// events and then drive the tree the way the app does, unless the host cancels the event.
+const GestureDriver: React.FC<GestureDriverProps> = ({ api, tracking, zoom, emit }) => {
+  const preventedRef = useRef(new Set<GestureType>());
+  const snowTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (snowTimerRef.current) clearTimeout(snowTimerRef.current);
+  }, []);
+
+  const act = (gesture: GestureType, action: () => void) => {
+    if (!preventedRef.current.has(gesture) && !api.isDisposed()) action();
+  };
+
+  const cycleTheme = (step: number) => {
+    const list = themeRegistry.list();
+    const index = Math.max(0, list.findIndex(theme => theme.id === api.getTheme().id));
+    api.setTheme(list[(index + step + list.length) % list.length]);
+  };
+
+  const startSnow = () => {
+    api.snow(true);
+    if (snowTimerRef.current) clearTimeout(snowTimerRef.current);
+    snowTimerRef.current = setTimeout(() => {
+      snowTimerRef.current = null;
+      if (!api.isDisposed()) api.snow(false);
+    }, EMBED_CONFIG.SNOW_DURATION);
+  };
+
+  const { videoRef } = useGestureRecognition({
+    tracking,
+    zoom,
+    onOneFingerGesture: () => act('ONE_FINGER', () => cycleTheme(1)),
+    onTwoFingersGesture: () => act('TWO_FINGERS', startSnow),
+    onThreeFingersGesture: (palmX, palmY) => act('THREE_FINGERS', () => api.launchFirework(palmX, palmY)),
+    onFistGesture: (strength, palmX, palmY) => act('FIST', () => {
+      api.assemble(strength);
+      api.rotate((palmX - 0.5) * 2, (palmY - 0.5) * 2);
+    }),
+    onNoGesture: () => act('FIST', () => api.assemble(0)),
+    onGestureEvent: (event) => {
+      // Cancelling the START event skips the gesture's action until it next starts
+      const allowed = emit('gesture', event, event.type === 'START');
+      if (event.type !== 'START') return;
+      if (allowed) {
+        preventedRef.current.delete(event.gesture);
+      } else {
+        preventedRef.current.add(event.gesture);
+      }
+    },
+    onMotionGesture: (event) => {
+      if (!emit('motiongesture', event, true) || api.isDisposed()) return;
+
+      switch (event.type) {
+        case 'SWIPE_RIGHT':
+          cycleTheme(1);
+          break;
+        case 'SWIPE_LEFT':
+          cycleTheme(-1);
+          break;
+        case 'SWIPE_UP':
+          startSnow();
+          break;
+        case 'SWIPE_DOWN':
+          api.snow(false);
+          break;
+        case 'CIRCLE_CLOCKWISE':
+          api.launchFirework(0.5, 0.3);
+          break;
+      }
+    },
+    onError: (message) => emit('treeerror', { message }),
+    onStatusChange: (status) => emit('camerastatus', { status }),
+  });
+
+  return <video ref={videoRef} playsInline muted style={{ display: 'none' }} />;
+};
+
+export default GestureDriver;
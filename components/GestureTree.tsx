@@ -1,11 +1,59 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { gsap } from 'gsap';
-import { Landmark, Results } from '../types';
+import {
+  Landmark,
+  Results,
+  GestureType,
+  ThemeDefinition,
+  ShapeDefinition,
+  GreetingOptions,
+  OrnamentType,
+  PlacedOrnament,
+  TrackingFrame,
+  RuntimeConfig,
+  ConfigIssue,
+  SharedSceneEvent,
+  SharedSessionState,
+  GestureBinding,
+  GestureTrigger,
+  ActionContext
+} from '../types';
 import { ThreeScene } from '../ThreeScene';
-import { PARTICLE_CONFIG, THEME_NAMES, COLOR_THEMES } from '../constants';
-import { calculateFingerStates } from '../utils';
+import { PARTICLE_CONFIG, GREETING_CONFIG, CAPTURE_CONFIG, AR_CONFIG, BINDINGS_CONFIG } from '../constants';
+import { themeRegistry } from '../themes';
+import { runtimeConfig } from '../runtimeConfig';
+import { SHAPES } from '../shapes';
+import { getAction } from '../actions';
+import { bindingStore } from '../bindings';
+import { DEFAULT_GREETING, createGreetingShape, getGreetingFromUrl } from '../greeting';
+import { loadPortraitImage, createPortraitShape } from '../portrait';
+import { ornamentStore } from '../ornaments';
+import { AudioAnalyzer } from '../AudioAnalyzer';
+import { SoundEffects } from '../SoundEffects';
+import { SharedSession, getSharedSessionFromUrl } from '../sharedSession';
+import { SceneRecorder, drawGreetingOverlay, getCaptureFilename } from '../sceneCapture';
+import { depthToCameraDistance, downloadBlob } from '../utils';
 import { useGestureRecognition } from '../useGestureRecognition';
+import SessionControls from './SessionControls';
+import ThemeEditor from './ThemeEditor';
+import GreetingEditor from './GreetingEditor';
+import DecoratePanel from './DecoratePanel';
+import MusicPanel from './MusicPanel';
+import SoundControls from './SoundControls';
+import CapturePanel from './CapturePanel';
+import ArPanel from './ArPanel';
+import DebugHud from './DebugHud';
+import CalibrationWizard from './CalibrationWizard';
+import SharePanel from './SharePanel';
+import BindingsPanel from './BindingsPanel';
+
+const GESTURE_LABELS: Record<GestureType, string> = {
+  FIST: '✊ 握拳',
+  ONE_FINGER: '☝️ 1根手指',
+  TWO_FINGERS: '✌️ 2根手指',
+  THREE_FINGERS: '🤟 3根手指',
+};
 
 const GestureTree: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -14,15 +62,65 @@ const GestureTree: React.FC = () => {
   const [cameraStatus, setCameraStatus] = useState<'LOADING' | 'ACTIVE' | 'ERROR'>('LOADING');
   const [interactionState, setInteractionState] = useState<'IDLE' | 'PINCHING'>('IDLE');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [currentTheme, setCurrentTheme] = useState<string>(COLOR_THEMES.CLASSIC);
+  const [themes, setThemes] = useState<ThemeDefinition[]>(() => themeRegistry.list());
+  const [currentTheme, setCurrentTheme] = useState<ThemeDefinition>(
+    () => themeRegistry.get(themeRegistry.getActiveId()) || themeRegistry.getDefault()
+  );
+  const [isThemeEditorOpen, setIsThemeEditorOpen] = useState(false);
+  const [activeGesture, setActiveGesture] = useState<GestureType | null>(null);
+  const [isGreeting, setIsGreeting] = useState(false);
+  const [currentShapeId, setCurrentShapeId] = useState(SHAPES[0].id);
+  const [sharedGreeting] = useState(getGreetingFromUrl);
+  const [greeting, setGreeting] = useState<GreetingOptions>(sharedGreeting || DEFAULT_GREETING);
+  const [customShapes, setCustomShapes] = useState<ShapeDefinition[]>([]);
+  const [portraitError, setPortraitError] = useState<string | null>(null);
+  const [isDecorating, setIsDecorating] = useState(false);
+  const [selectedOrnament, setSelectedOrnament] = useState<OrnamentType>('bauble');
+  const [ornaments, setOrnaments] = useState<PlacedOrnament[]>(() => ornamentStore.list());
+  const [audioAnalyzer] = useState(() => new AudioAnalyzer());
+  const [isMusicPanelOpen, setIsMusicPanelOpen] = useState(false);
+  const [autoFireworks, setAutoFireworks] = useState(false);
+  const [sounds] = useState(() => new SoundEffects());
+  const [isGreetingEditorOpen, setIsGreetingEditorOpen] = useState(false);
+  const [sceneRecorder] = useState(() => new SceneRecorder());
+  const [isRecordingVideo, setIsRecordingVideo] = useState(false);
+  const [isCapturePanelOpen, setIsCapturePanelOpen] = useState(false);
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const [isArMode, setIsArMode] = useState(false);
+  const [arDim, setArDim] = useState<number>(AR_CONFIG.DEFAULT_DIM);
+  const [arBlur, setArBlur] = useState<number>(AR_CONFIG.DEFAULT_BLUR);
+  const [isAnchored, setIsAnchored] = useState(false);
+  const [isDebugOpen, setIsDebugOpen] = useState(false);
+  const [calibrationMode, setCalibrationMode] = useState<'FULL' | 'QUICK' | null>(null);
+  const [settings, setSettings] = useState<RuntimeConfig>(() => runtimeConfig.get());
+  const [configIssues, setConfigIssues] = useState<ConfigIssue[]>(() => runtimeConfig.getIssues());
+  const [sharedSession] = useState(() => new SharedSession());
+  const [sharedState, setSharedState] = useState<SharedSessionState>(() => sharedSession.getState());
+  const [isSharePanelOpen, setIsSharePanelOpen] = useState(false);
+  const [isBindingsPanelOpen, setIsBindingsPanelOpen] = useState(false);
 
   // Logic Refs
   const isPinchingRef = useRef(false);
   const pinchStrengthRef = useRef(0);
   const rotationTargetRef = useRef({ x: 0, y: 0 });
   const rotationCurrentRef = useRef({ x: 0, y: 0 });
-  const colorThemeRef = useRef(0);
+  const colorThemeRef = useRef(currentTheme.id);
   const isSnowingRef = useRef(false);
+  const snowTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const greetingTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fireworkTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const isFistActiveRef = useRef(false);
+  const shapeRef = useRef(SHAPES[0].id);
+  const customShapesRef = useRef<ShapeDefinition[]>([]);
+  const isDecoratingRef = useRef(false);
+  const selectedOrnamentRef = useRef<OrnamentType>('bauble');
+  const wasPointerPinchingRef = useRef(false);
+  const includeAudioRef = useRef(true);
+  const greetingTextRef = useRef(greeting.text);
+  const twoFingerHoldFiredRef = useRef(false);
+  const isAnchoredRef = useRef(false);
+  const trackingListenersRef = useRef(new Set<(frame: TrackingFrame) => void>());
   
   // Three.js Scene
   const threeSceneRef = useRef<ThreeScene | null>(null);
@@ -40,13 +138,25 @@ const GestureTree: React.FC = () => {
     // Initialize ThreeScene
     threeSceneRef.current = new ThreeScene({
       container: containerRef.current,
+      initialTheme: currentTheme,
+      settings: runtimeConfig.get(),
       onWindowResize: handleResize,
+      onFireworkBurst: (pan) => sounds.playBurst(pan),
       onParticleUpdate: (positions, velocities, targetTree, targetExploded) => {
         // Store references for gesture interaction
         // These would be used if we need direct access to particle data
       }
     });
 
+    // Opened from a shared link: assemble the greeting straight away
+    if (sharedGreeting) {
+      try {
+        showGreeting(sharedGreeting);
+      } catch (e) {
+        console.warn('Failed to show shared greeting', e);
+      }
+    }
+
     return () => {
       if (threeSceneRef.current) {
         threeSceneRef.current.dispose();
@@ -55,81 +165,507 @@ const GestureTree: React.FC = () => {
     };
   }, []);
 
-  // 2. Initialize MediaPipe with custom hook
-  const { videoRef } = useGestureRecognition({
-    onOneFingerGesture: () => {
-      // 1 finger: 切换颜色主题
-      const oldTheme = colorThemeRef.current;
-      const newTheme = (oldTheme + 1) % 3;
-      colorThemeRef.current = newTheme;
+  useEffect(() => themeRegistry.subscribe(setThemes), []);
+
+  // Runtime config changes reach the scene here; it rebuilds only the affected parts
+  useEffect(() => runtimeConfig.subscribe((next) => {
+    setSettings(next);
+    setConfigIssues(runtimeConfig.getIssues());
+    threeSceneRef.current?.applyConfig(next);
+  }), []);
+
+  // Music drives particle size, bloom and the star once a track or the microphone is on
+  useEffect(() => {
+    threeSceneRef.current?.setAudioAnalyzer(audioAnalyzer);
+    return () => {
+      threeSceneRef.current?.setAudioAnalyzer(null);
+      audioAnalyzer.dispose();
+    };
+  }, [audioAnalyzer]);
+
+  useEffect(() => {
+    threeSceneRef.current?.setAutoFireworks(autoFireworks);
+  }, [autoFireworks]);
+
+  useEffect(() => {
+    sounds.connect();
+    return () => sounds.dispose();
+  }, [sounds]);
+
+  useEffect(() => {
+    const unsubscribe = sceneRecorder.subscribe(state => setIsRecordingVideo(state.isRecording));
+    return () => {
+      unsubscribe();
+      sceneRecorder.dispose();
+    };
+  }, [sceneRecorder]);
+
+  // Placed ornaments are restored on load and kept in sync with the store
+  useEffect(() => {
+    threeSceneRef.current?.setPlacedOrnaments(ornamentStore.list());
+    return ornamentStore.subscribe((list) => {
+      setOrnaments(list);
+      threeSceneRef.current?.setPlacedOrnaments(list);
+    });
+  }, []);
+
+  const applyTheme = (theme: ThemeDefinition) => {
+    colorThemeRef.current = theme.id;
+    themeRegistry.setActiveId(theme.id);
+    setCurrentTheme(theme);
+
+    if (threeSceneRef.current) {
+      threeSceneRef.current.updateColorTheme(theme);
+    }
+  };
+
+  // Theme changes made here are also sent to the other screens of a shared session
+  const shareTheme = (theme: ThemeDefinition) => {
+    emitSceneEvent({ type: 'THEME', theme });
+  };
+
+  const cycleTheme = (step: number) => {
+    const list = themeRegistry.list();
+    const index = Math.max(0, list.findIndex(theme => theme.id === colorThemeRef.current));
+    shareTheme(list[(index + step + list.length) % list.length]);
+  };
+
+  // Library shapes plus the latest greeting and photo once generated
+  const getShapes = () => [...SHAPES, ...customShapesRef.current];
+
+  // Replace any earlier custom shape of the same kind (the id prefix before ':') and free its layout
+  const addCustomShape = (shape: ShapeDefinition) => {
+    const kind = shape.id.split(':')[0];
+    customShapesRef.current.forEach(s => {
+      if (s.id.split(':')[0] === kind && s.id !== shape.id) threeSceneRef.current?.releaseShape(s.id);
+    });
+    customShapesRef.current = [...customShapesRef.current.filter(s => s.id.split(':')[0] !== kind), shape];
+    setCustomShapes(customShapesRef.current);
+  };
+
+  const applyShape = (shape: ShapeDefinition) => {
+    if (threeSceneRef.current) {
+      threeSceneRef.current.setShape(shape);
+    }
+
+    shapeRef.current = shape.id;
+    setCurrentShapeId(shape.id);
+  };
+
+  const cycleShape = (step: number) => {
+    const shapes = getShapes();
+    const index = Math.max(0, shapes.findIndex(shape => shape.id === shapeRef.current));
+    applyShape(shapes[(index + step + shapes.length) % shapes.length]);
+  };
+
+  // Fly the particles into the greeting and hold it for a few seconds; throws if the text cannot be rendered
+  const showGreeting = (options: GreetingOptions) => {
+    const shape = createGreetingShape(options);
+    if (threeSceneRef.current) {
+      threeSceneRef.current.presentShape(shape, GREETING_CONFIG.PRESENT_DURATION);
+    }
+
+    addCustomShape(shape);
+    shapeRef.current = shape.id;
+    setCurrentShapeId(shape.id);
+    greetingTextRef.current = options.text;
+    setGreeting(options);
+  };
+
+  // Photo portrait: particles take the photo's colours and assemble into it on a fist
+  const handlePortraitFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !threeSceneRef.current) return;
+
+    try {
+      const image = await loadPortraitImage(file);
+      const shape = createPortraitShape(image, `照片: ${file.name}`, threeSceneRef.current.getParticleCount());
+      addCustomShape(shape);
+      applyShape(shape);
+      setPortraitError(null);
+    } catch (err: any) {
+      setPortraitError(err.message);
+    }
+  };
+
+  // Decorating needs the tree itself, held assembled while the mode is on
+  const setDecorating = (enabled: boolean) => {
+    isDecoratingRef.current = enabled;
+    wasPointerPinchingRef.current = false;
+    setIsDecorating(enabled);
+
+    if (enabled) applyShape(SHAPES[0]);
+    if (threeSceneRef.current) {
+      threeSceneRef.current.setDecorating(enabled);
+    }
+  };
+
+  const selectOrnament = (type: OrnamentType) => {
+    selectedOrnamentRef.current = type;
+    setSelectedOrnament(type);
+  };
 
-      setCurrentTheme(THEME_NAMES[newTheme]);
+  // Place the selected ornament at the cursor when the thumb and index finger close
+  const placeOrnament = () => {
+    const position = threeSceneRef.current?.getCursorPosition();
+    if (!position) return;
+
+    const palette = themeRegistry.get(colorThemeRef.current)?.palette || themeRegistry.getDefault().palette;
+    ornamentStore.add({
+      type: selectedOrnamentRef.current,
+      color: palette[Math.floor(Math.random() * palette.length)].color,
+      position,
+    });
+    sounds.play('PLACE');
+  };
+
+  const setRecordingAudio = (enabled: boolean) => {
+    includeAudioRef.current = enabled;
+    setIncludeAudio(enabled);
+  };
+
+  // Start or stop the WebM recording; the file downloads as soon as it is finalised
+  const toggleRecording = async () => {
+    if (!threeSceneRef.current) return;
+
+    try {
+      if (sceneRecorder.isRecording) {
+        const video = await sceneRecorder.stop();
+        downloadBlob(video, getCaptureFilename('webm'));
+      } else {
+        const audio = includeAudioRef.current ? [audioAnalyzer.getOutputStream(), sounds.getOutputStream()] : [];
+        sceneRecorder.start(threeSceneRef.current.getCanvas(), audio);
+      }
+      setCaptureError(null);
+    } catch (err: any) {
+      setCaptureError(err.message);
+    }
+  };
+
+  const saveSnapshot = async (width: number, height: number, burnInGreeting: boolean) => {
+    if (!threeSceneRef.current) return;
+
+    try {
+      const text = greetingTextRef.current;
+      const image = await threeSceneRef.current.captureSnapshot(
+        width,
+        height,
+        burnInGreeting ? (context, w, h) => drawGreetingOverlay(context, text, w, h) : undefined
+      );
+      downloadBlob(image, getCaptureFilename('png'));
+      setCaptureError(null);
+    } catch (err: any) {
+      setCaptureError(err.message);
+    }
+  };
+
+  // AR mode reuses the video element the hand tracker already streams into, so the camera keeps running
+  const setArMode = (enabled: boolean) => {
+    setIsArMode(enabled);
+    threeSceneRef.current?.setVideoBackground(enabled ? videoRef.current : null);
+    if (!enabled) setAnchored(false);
+  };
+
+  const setAnchored = (enabled: boolean) => {
+    isAnchoredRef.current = enabled;
+    setIsAnchored(enabled);
+    if (!enabled) threeSceneRef.current?.setAnchor(null);
+  };
+
+  useEffect(() => {
+    threeSceneRef.current?.setVideoBackgroundStyle(arDim, arBlur);
+  }, [arDim, arBlur]);
+
+  // Developer HUD: fed every tracking frame without re-rendering this component
+  const [subscribeTracking] = useState(() => (listener: (frame: TrackingFrame) => void) => {
+    trackingListenersRef.current.add(listener);
+    return () => {
+      trackingListenersRef.current.delete(listener);
+    };
+  });
+
+  const [getSceneStats] = useState(() => () => ({
+    fps: threeSceneRef.current ? threeSceneRef.current.getFps() : 0,
+    particleCount: threeSceneRef.current ? threeSceneRef.current.getParticleCount() : 0,
+  }));
+
+  // Backtick toggles the HUD
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === '`' && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement)) {
+        setIsDebugOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Timers started by bound actions must not fire after unmount
+  useEffect(() => () => {
+    if (snowTimerRef.current) clearTimeout(snowTimerRef.current);
+    if (greetingTimerRef.current) clearTimeout(greetingTimerRef.current);
+    fireworkTimersRef.current.forEach(clearTimeout);
+    fireworkTimersRef.current.clear();
+  }, []);
+
+  const setSnowing = (snowing: boolean) => {
+    if (snowTimerRef.current) clearTimeout(snowTimerRef.current);
+    snowTimerRef.current = null;
+    isSnowingRef.current = snowing;
+    if (threeSceneRef.current) {
+      threeSceneRef.current.toggleSnow(snowing);
+    }
+  };
+
+  // Snow for a number of seconds, or until stopped when 0; snowing again restarts the timer
+  const startSnow = (duration: number) => {
+    setSnowing(true);
+    if (duration > 0) {
+      snowTimerRef.current = setTimeout(() => setSnowing(false), duration * 1000);
+    }
+  };
+
+  // Grab (strength > 0) or release the tree
+  const setAssembled = (strength: number) => {
+    const assembling = strength > 0;
+    gsap.to(pinchStrengthRef, {
+      current: strength,
+      duration: assembling ? 0.3 : 0.5,
+      ease: 'power2.out',
+    });
+    if (assembling && !isPinchingRef.current) {
+      // Tree starts assembling: swell, then chime while it stays together
+      sounds.play('ASSEMBLE');
+      sounds.setChimeActive(true);
+    } else if (!assembling && isPinchingRef.current) {
+      sounds.play('RELEASE');
+      sounds.setChimeActive(false);
+    }
+    isPinchingRef.current = assembling;
+    setInteractionState(assembling ? 'PINCHING' : 'IDLE');
+
+    if (threeSceneRef.current) {
+      threeSceneRef.current.updatePinchState(assembling, strength);
+    }
+  };
+
+  // Scene changes that every screen of a shared session applies
+  const applySceneEvent = (event: SharedSceneEvent) => {
+    switch (event.type) {
+      case 'ASSEMBLE':
+        setAssembled(event.strength);
+        break;
+      case 'ROTATE':
+        threeSceneRef.current?.updateRotationTarget(event.x, event.y);
+        break;
+      case 'THEME':
+        // Prefer the local copy of a theme this client already knows
+        applyTheme(themeRegistry.get(event.theme.id) || event.theme);
+        break;
+      case 'SNOW':
+        if (event.visible) {
+          startSnow(event.duration ?? BINDINGS_CONFIG.SNOW_DURATION);
+        } else {
+          setSnowing(false);
+        }
+        break;
+      case 'FIREWORK':
+        threeSceneRef.current?.launchFirework(event.x, event.y);
+        break;
+    }
+  };
+
+  const emitSceneEvent = (event: SharedSceneEvent) => {
+    applySceneEvent(event);
+    sharedSession.broadcast(event);
+  };
+
+  // Shared session: ?room= in the URL joins straight away
+  useEffect(() => {
+    const unsubscribeState = sharedSession.subscribe(setSharedState);
+    const unsubscribeEvents = sharedSession.onEvent((event) => {
+      if (event.type === 'THEME') sounds.play('THEME');
+      if (event.type === 'SNOW' && event.visible) sounds.play('SNOW');
+      if (event.type === 'FIREWORK') sounds.play('LAUNCH');
+      applySceneEvent(event);
+    });
+
+    const fromUrl = getSharedSessionFromUrl();
+    if (fromUrl) {
+      try {
+        if (fromUrl.relayUrl) {
+          sharedSession.join(fromUrl.room, 'WEBSOCKET', fromUrl.relayUrl);
+        } else {
+          sharedSession.join(fromUrl.room, 'BROADCAST');
+        }
+      } catch (e) {
+        console.warn('Failed to join shared session from URL', e);
+      }
+    }
 
+    return () => {
+      unsubscribeState();
+      unsubscribeEvents();
+      sharedSession.dispose();
+    };
+  }, [sharedSession]);
+
+  // Gesture bindings: what each recognised gesture does is set in the bindings panel
+  const runAction = ({ action, params }: GestureBinding, context: ActionContext) => {
+    switch (action) {
+      case 'CYCLE_THEME':
+        cycleTheme(params.step === 'previous' ? -1 : 1);
+        break;
+      case 'SET_THEME': {
+        const theme = themeRegistry.get(String(params.theme));
+        if (theme) {
+          shareTheme(theme);
+        } else {
+          console.warn(`Bound theme "${params.theme}" no longer exists`);
+        }
+        break;
+      }
+      case 'SNOW':
+        if (params.mode === 'stop' || (params.mode === 'toggle' && isSnowingRef.current)) {
+          emitSceneEvent({ type: 'SNOW', visible: false });
+        } else {
+          emitSceneEvent({ type: 'SNOW', visible: true, duration: Number(params.duration) });
+        }
+        break;
+      case 'FIREWORK': {
+        // A salvo spreads sideways around the hand (or the centre), one rocket after another
+        const count = Number(params.count);
+        const origin = params.atHand ? context : BINDINGS_CONFIG.MOTION_POSITION;
+        for (let i = 0; i < count; i++) {
+          const x = origin.x + (i - (count - 1) / 2) * BINDINGS_CONFIG.FIREWORK_SPREAD;
+          const timer = setTimeout(() => {
+            fireworkTimersRef.current.delete(timer);
+            emitSceneEvent({ type: 'FIREWORK', x, y: origin.y });
+          }, i * BINDINGS_CONFIG.FIREWORK_INTERVAL);
+          fireworkTimersRef.current.add(timer);
+        }
+        break;
+      }
+      case 'CYCLE_SHAPE':
+        cycleShape(params.step === 'previous' ? -1 : 1);
+        break;
+      case 'GREETING':
+        // Greeting again restarts the timer
+        if (greetingTimerRef.current) clearTimeout(greetingTimerRef.current);
+        setIsGreeting(true);
+        greetingTimerRef.current = setTimeout(() => {
+          greetingTimerRef.current = null;
+          setIsGreeting(false);
+        }, Number(params.duration) * 1000);
+        break;
+      case 'SCREENSHOT': {
+        const size = CAPTURE_CONFIG.SNAPSHOT_SIZES.find(entry => entry.id === params.size) || CAPTURE_CONFIG.SNAPSHOT_SIZES[0];
+        saveSnapshot(size.width, size.height, Boolean(params.greeting));
+        break;
+      }
+      case 'TOGGLE_RECORDING':
+        toggleRecording();
+        break;
+      case 'RESET_VIEW':
+        threeSceneRef.current?.resetView();
+        break;
+    }
+  };
+
+  // Static gestures play the action's sound; motion gestures have their own
+  const runBinding = (trigger: GestureTrigger, context: ActionContext, withSound: boolean) => {
+    const binding = bindingStore.get(trigger);
+    const action = binding && getAction(binding.action);
+    if (!binding || !action || action.continuous) return;
+    if (withSound && action.sound) sounds.play(action.sound);
+    runAction(binding, context);
+  };
+
+  // 2. Initialize MediaPipe with custom hook
+  const { videoRef, inputSource, sessionRecorder, sessionPlayer } = useGestureRecognition({
+    tracking: settings.TRACKING_CONFIG,
+    zoom: settings.ZOOM_CONFIG,
+    onOneFingerGesture: (palmX, palmY) => {
+      // Pointing is used for the cursor while decorating
+      if (isDecoratingRef.current) return;
+      runBinding('ONE_FINGER', { x: palmX, y: palmY }, true);
+    },
+    onTwoFingersGesture: (palmX, palmY) => {
+      runBinding('TWO_FINGERS', { x: palmX, y: palmY }, true);
+    },
+    onThreeFingersGesture: (palmX, palmY) => {
+      runBinding('THREE_FINGERS', { x: palmX, y: palmY }, true);
+    },
+    onFistGesture: (strength, palmX, palmY) => {
+      // Bound to assembling, the fist streams strength and rotation; otherwise it fires once per fist
+      if (bindingStore.get('FIST')?.action === 'ASSEMBLE') {
+        emitSceneEvent({ type: 'ASSEMBLE', strength });
+        emitSceneEvent({
+          type: 'ROTATE',
+          x: (palmX - 0.5) * 2,
+          y: (palmY - 0.5) * 2,
+        });
+      } else if (!isFistActiveRef.current) {
+        runBinding('FIST', { x: palmX, y: palmY }, true);
+      }
+      isFistActiveRef.current = true;
+    },
+    onHandDepth: (depth) => {
       if (threeSceneRef.current) {
-        threeSceneRef.current.updateColorTheme(newTheme);
+        threeSceneRef.current.setZoomTarget(depthToCameraDistance(depth, runtimeConfig.get().ZOOM_CONFIG));
       }
     },
-    onTwoFingersGesture: () => {
-      // 2 fingers: 飘雪
-      if (!isSnowingRef.current) {
-        isSnowingRef.current = true;
+    onNoGesture: () => {
+      isFistActiveRef.current = false;
+      emitSceneEvent({ type: 'ASSEMBLE', strength: 0 });
+    },
+    onGestureEvent: (event) => {
+      if (event.type === 'START') setActiveGesture(event.gesture);
+      if (event.type === 'END') setActiveGesture(current => (current === event.gesture ? null : current));
 
-        if (threeSceneRef.current) {
-          threeSceneRef.current.toggleSnow(true);
+      // Holding two fingers fires its own binding, once per hold
+      if (event.gesture === 'TWO_FINGERS') {
+        if (event.type === 'START') twoFingerHoldFiredRef.current = false;
+        if (event.type === 'HOLD' && !twoFingerHoldFiredRef.current && event.duration >= BINDINGS_CONFIG.HOLD_TIME) {
+          twoFingerHoldFiredRef.current = true;
+          runBinding('TWO_FINGERS_HOLD', BINDINGS_CONFIG.MOTION_POSITION, true);
         }
+      }
+    },
+    onMotionGesture: (event) => {
+      sounds.play(event.type === 'WAVE' ? 'WAVE' : event.type.startsWith('SWIPE') ? 'SWIPE' : 'CIRCLE');
+      runBinding(event.type, BINDINGS_CONFIG.MOTION_POSITION, false);
+    },
+    onPointer: (pointer) => {
+      if (!isDecoratingRef.current || !threeSceneRef.current) return;
 
-        setTimeout(() => {
-          isSnowingRef.current = false;
-          if (threeSceneRef.current) {
-            threeSceneRef.current.toggleSnow(false);
-          }
-        }, 10000);
+      const onTree = pointer ? threeSceneRef.current.updatePointer(pointer.x, pointer.y) : false;
+      const pinching = Boolean(pointer && pointer.pinching);
+      if (pinching && !wasPointerPinchingRef.current && onTree) {
+        placeOrnament();
       }
+      wasPointerPinchingRef.current = pinching;
     },
-    onThreeFingersGesture: () => {
-      // 3 fingers: 烟花 - 多层爆炸效果
-      // Note: palmBase coordinates are not available here, will be handled in onFistGesture
-      if (threeSceneRef.current) {
-        threeSceneRef.current.createFireworks(
-          0, // Default x position
-          0, // Default y position
-          0  // Default z position
-        );
+    onPalm: (palm) => {
+      if (isAnchoredRef.current) {
+        threeSceneRef.current?.setAnchor(palm);
       }
     },
-    onFistGesture: (strength, palmX, palmY) => {
-      gsap.to(pinchStrengthRef, {
-        current: strength,
-        duration: 0.3,
-        ease: 'power2.out',
-      });
-      isPinchingRef.current = true;
-      setInteractionState('PINCHING');
-      
-      const cx = palmX;
-      const cy = palmY;
-      
-      // Update ThreeScene with new state
+    onTrackingFrame: (frame) => {
+      trackingListenersRef.current.forEach(listener => listener(frame));
+    },
+    onTwoHandScale: (scale) => {
+      // Both hands open: spread apart / bring together to scale the tree
       if (threeSceneRef.current) {
-        threeSceneRef.current.updatePinchState(true, strength);
-        threeSceneRef.current.updateRotationTarget(
-          (cx - 0.5) * 2,
-          (cy - 0.5) * 2
-        );
+        threeSceneRef.current.setTreeScale(scale);
       }
     },
-    onNoGesture: () => {
-      gsap.to(pinchStrengthRef, {
-        current: 0,
-        duration: 0.5,
-        ease: 'power2.out',
-      });
-      isPinchingRef.current = false;
-      setInteractionState('IDLE');
-      
-      // Update ThreeScene with new state
+    onTwoHandReset: () => {
+      // Both fists together: reset scale and rotation
+      sounds.play('RESET');
       if (threeSceneRef.current) {
-        threeSceneRef.current.updatePinchState(false, 0);
+        threeSceneRef.current.resetView();
       }
     },
     onError: (message) => {
@@ -168,12 +704,47 @@ const GestureTree: React.FC = () => {
                 </div>
                 <div className="flex items-center gap-2 mt-1">
                   <span className="text-xl">✌️</span>
-                  <span>2根手指飘雪</span>
+                  <span>2根手指飘雪，保持 2 秒录制视频</span>
                 </div>
                 <div className="flex items-center gap-2 mt-1">
                   <span className="text-xl">🤟</span>
                   <span>3根手指烟花</span>
                 </div>
+              </div>
+              <div className="mt-3 pt-2 border-t border-white/10">
+                <div className="text-xs text-gray-400 mb-1">双手：</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xl">🤲</span>
+                  <span>左手控制树，右手触发特效</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xl">🙌</span>
+                  <span>双手张开拉远/靠近缩放</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xl">👊</span>
+                  <span>双拳相碰重置视角</span>
+                </div>
+              </div>
+              <div className="mt-3 pt-2 border-t border-white/10">
+                <div className="text-xs text-gray-400 mb-1">动作：</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-xl">👉</span>
+                  <span>左右挥动切换主题</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xl">☝️</span>
+                  <span>上挥飘雪，下挥停雪</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xl">🔄</span>
+                  <span>顺时针画圈放烟花，逆时针画圈切换形状</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xl">👋</span>
+                  <span>挥手打招呼</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-2">以上为默认绑定，可在「🎮 手势绑定」中修改</div>
                     </div>
                 </div>
             </div>
@@ -215,8 +786,224 @@ const GestureTree: React.FC = () => {
             </div>
 
             <div className="px-4 py-2 rounded-full border border-purple-500/30 bg-purple-900/30 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-purple-300">
-              当前主题: {currentTheme}
+              当前主题: {currentTheme.name}
             </div>
+
+            <select
+              value={currentShapeId}
+              onChange={(e) => {
+                const shape = getShapes().find(s => s.id === e.target.value);
+                if (shape) applyShape(shape);
+              }}
+              className="pointer-events-auto px-4 py-2 rounded-full border border-green-500/30 bg-green-900/30 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-green-300"
+            >
+              {[...SHAPES, ...customShapes].map(shape => (
+                <option key={shape.id} value={shape.id} className="text-black">
+                  当前形状: {shape.name}
+                </option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => setIsThemeEditorOpen(open => !open)}
+              className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+            >
+              🎨 主题编辑
+            </button>
+
+            <label className="pointer-events-auto cursor-pointer px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors">
+              🖼️ 照片粒子
+              <input type="file" accept="image/*" className="hidden" onChange={handlePortraitFile} />
+            </label>
+
+            {portraitError && (
+              <div className="px-4 py-2 rounded-xl border border-red-500/30 bg-red-900/30 backdrop-blur-md text-xs text-red-300 max-w-xs">
+                {portraitError}
+              </div>
+            )}
+
+            <button
+              onClick={() => setDecorating(!isDecorating)}
+              className={`pointer-events-auto px-4 py-2 rounded-full border backdrop-blur-md font-bold text-xs tracking-wider shadow-lg transition-colors ${
+                isDecorating
+                  ? 'border-yellow-500/40 bg-yellow-900/40 text-yellow-300'
+                  : 'border-white/20 bg-white/10 hover:bg-white/20 text-gray-200'
+              }`}
+            >
+              🎄 装饰模式
+            </button>
+
+            {isDecorating && (
+              <DecoratePanel
+                selected={selectedOrnament}
+                ornamentCount={ornaments.length}
+                onSelect={selectOrnament}
+                onUndo={() => ornamentStore.undo()}
+                onClear={() => ornamentStore.clear()}
+                onClose={() => setDecorating(false)}
+              />
+            )}
+
+            <SoundControls sounds={sounds} />
+
+            <button
+              onClick={() => setIsMusicPanelOpen(open => !open)}
+              className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+            >
+              🎵 音乐
+            </button>
+
+            {isMusicPanelOpen && (
+              <MusicPanel
+                analyzer={audioAnalyzer}
+                autoFireworks={autoFireworks}
+                onAutoFireworksChange={setAutoFireworks}
+                onClose={() => setIsMusicPanelOpen(false)}
+              />
+            )}
+
+            <button
+              onClick={() => setIsGreetingEditorOpen(open => !open)}
+              className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+            >
+              ✉️ 祝福语
+            </button>
+
+            {isGreetingEditorOpen && (
+              <GreetingEditor
+                greeting={greeting}
+                onApply={showGreeting}
+                onClose={() => setIsGreetingEditorOpen(false)}
+              />
+            )}
+
+            <button
+              onClick={() => setArMode(!isArMode)}
+              disabled={inputSource === 'REPLAY'}
+              title={inputSource === 'REPLAY' ? '回放模式没有摄像头画面' : undefined}
+              className={`pointer-events-auto px-4 py-2 rounded-full border backdrop-blur-md font-bold text-xs tracking-wider shadow-lg transition-colors disabled:opacity-40 ${
+                isArMode
+                  ? 'border-cyan-500/40 bg-cyan-900/40 text-cyan-300'
+                  : 'border-white/20 bg-white/10 hover:bg-white/20 text-gray-200'
+              }`}
+            >
+              📷 AR 模式
+            </button>
+
+            {isArMode && (
+              <ArPanel
+                dim={arDim}
+                blur={arBlur}
+                anchored={isAnchored}
+                onDimChange={setArDim}
+                onBlurChange={setArBlur}
+                onAnchoredChange={setAnchored}
+                onClose={() => setArMode(false)}
+              />
+            )}
+
+            <button
+              onClick={() => setIsCapturePanelOpen(open => !open)}
+              className={`pointer-events-auto px-4 py-2 rounded-full border backdrop-blur-md font-bold text-xs tracking-wider shadow-lg transition-colors ${
+                isRecordingVideo
+                  ? 'border-red-500/40 bg-red-900/40 text-red-300'
+                  : 'border-white/20 bg-white/10 hover:bg-white/20 text-gray-200'
+              }`}
+            >
+              {isRecordingVideo ? '● 录制中' : '📸 录制与截图'}
+            </button>
+
+            {isCapturePanelOpen && (
+              <CapturePanel
+                recorder={sceneRecorder}
+                includeAudio={includeAudio}
+                error={captureError}
+                onIncludeAudioChange={setRecordingAudio}
+                onToggleRecording={toggleRecording}
+                onSnapshot={saveSnapshot}
+                onClose={() => setIsCapturePanelOpen(false)}
+              />
+            )}
+
+            {isThemeEditorOpen && (
+              <ThemeEditor
+                themes={themes}
+                activeTheme={currentTheme}
+                onApply={shareTheme}
+                onClose={() => setIsThemeEditorOpen(false)}
+              />
+            )}
+
+            <button
+              onClick={() => setIsSharePanelOpen(open => !open)}
+              className={`pointer-events-auto px-4 py-2 rounded-full border backdrop-blur-md font-bold text-xs tracking-wider shadow-lg transition-colors ${
+                sharedState.status === 'CONNECTED'
+                  ? 'border-sky-500/40 bg-sky-900/40 text-sky-300'
+                  : 'border-white/20 bg-white/10 hover:bg-white/20 text-gray-200'
+              }`}
+            >
+              {sharedState.status === 'CONNECTED'
+                ? `🔗 房间 ${sharedState.room} · ${sharedState.peers + 1} 台`
+                : sharedState.status === 'IDLE'
+                ? '🔗 多屏同步'
+                : sharedState.status === 'ERROR'
+                ? '🔗 同步失败'
+                : '🔗 连接中…'}
+            </button>
+
+            {isSharePanelOpen && (
+              <SharePanel session={sharedSession} onClose={() => setIsSharePanelOpen(false)} />
+            )}
+
+            <button
+              onClick={() => setIsBindingsPanelOpen(open => !open)}
+              className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+            >
+              🎮 手势绑定
+            </button>
+
+            {isBindingsPanelOpen && (
+              <BindingsPanel themes={themes} onClose={() => setIsBindingsPanelOpen(false)} />
+            )}
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setCalibrationMode(mode => (mode === 'FULL' ? null : 'FULL'))}
+                className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+              >
+                🎯 手势校准
+              </button>
+              <button
+                onClick={() => setCalibrationMode('QUICK')}
+                title="按当前档案快速重新校准"
+                className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+              >
+                ↻
+              </button>
+            </div>
+
+            {calibrationMode && (
+              <CalibrationWizard
+                key={calibrationMode}
+                subscribe={subscribeTracking}
+                quick={calibrationMode === 'QUICK'}
+                onClose={() => setCalibrationMode(null)}
+              />
+            )}
+
+            <button
+              onClick={() => setIsDebugOpen(open => !open)}
+              title="快捷键 `"
+              className="pointer-events-auto px-4 py-2 rounded-full border border-white/20 bg-white/10 hover:bg-white/20 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-gray-200 transition-colors"
+            >
+              🛠️ 调试
+            </button>
+
+            {activeGesture && (
+              <div className="px-4 py-2 rounded-full border border-yellow-500/30 bg-yellow-900/30 backdrop-blur-md font-bold text-xs tracking-wider shadow-lg text-yellow-300">
+                当前手势: {GESTURE_LABELS[activeGesture]}
+              </div>
+            )}
             </div>
         </div>
 
@@ -224,14 +1011,48 @@ const GestureTree: React.FC = () => {
           className={`
             absolute top-10 left-1/2 transform -translate-x-1/2
             transition-all duration-500 ease-out pointer-events-none
-            ${interactionState === 'PINCHING' ? 'scale-110 opacity-100' : 'scale-50 opacity-0'}
+            ${interactionState === 'PINCHING' || isGreeting ? 'scale-110 opacity-100' : 'scale-50 opacity-0'}
         `}
         >
-             <div className="text-6xl font-black text-yellow-100 drop-shadow-[0_0_30px_rgba(255,215,0,0.8)] tracking-tighter mix-blend-screen">
-                 圣诞 快乐
+             <div className="text-6xl font-black text-yellow-100 drop-shadow-[0_0_30px_rgba(255,215,0,0.8)] tracking-tighter mix-blend-screen whitespace-pre-line text-center">
+                 {greeting.text}
              </div>
         </div>
 
+        {isDebugOpen && (
+          <div className="absolute bottom-6 right-6">
+            <DebugHud
+              videoRef={videoRef}
+              subscribe={subscribeTracking}
+              getSceneStats={getSceneStats}
+              onClose={() => setIsDebugOpen(false)}
+            />
+          </div>
+        )}
+
+        {configIssues.length > 0 && (
+          <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 bg-orange-950/90 backdrop-blur-md p-4 rounded-xl border border-orange-500/50 shadow-2xl pointer-events-auto text-xs text-orange-100 font-mono max-w-lg flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-4">
+              <span className="font-bold">⚠️ 配置有误，以下设置已忽略</span>
+              <button onClick={() => setConfigIssues([])} className="text-orange-300 hover:text-white">✕</button>
+            </div>
+            <ul className="flex flex-col gap-1">
+              {configIssues.map((issue, i) => (
+                <li key={i}>[{issue.source}] {issue.path || '—'}: {issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="absolute bottom-6 left-6">
+          <SessionControls
+            inputSource={inputSource}
+            recorder={sessionRecorder}
+            player={sessionPlayer}
+            onError={setErrorMessage}
+          />
+        </div>
+
         {errorMessage && (
             <div className="self-center bg-red-950/90 text-white p-6 rounded-xl border border-red-500 shadow-2xl pointer-events-auto max-w-md text-center">
                 <div className="text-4xl mb-2">⚠️</div>
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { GreetingOptions, GreetingAlign } from '../types';
+import { GREETING_CONFIG } from '../constants';
+import { parseGreeting, buildGreetingUrl } from '../greeting';
+
+interface GreetingEditorProps {
+  greeting: GreetingOptions;
+  onApply: (greeting: GreetingOptions) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-white/10 rounded px-2 py-1 text-gray-100 w-full';
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors';
+
+const ALIGN_LABELS: Record<GreetingAlign, string> = {
+  left: '左对齐',
+  center: '居中',
+  right: '右对齐',
+};
+
+const GreetingEditor: React.FC<GreetingEditorProps> = ({ greeting, onApply, onClose }) => {
+  const [draft, setDraft] = useState<GreetingOptions>(greeting);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const update = (changes: Partial<GreetingOptions>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setMessage(null);
+  };
+
+  const validate = (): GreetingOptions | null => {
+    try {
+      return parseGreeting(draft);
+    } catch (e: any) {
+      setMessage({ text: e.message, isError: true });
+      return null;
+    }
+  };
+
+  const handleApply = () => {
+    const validated = validate();
+    if (!validated) return;
+
+    try {
+      onApply(validated);
+    } catch (e: any) {
+      setMessage({ text: e.message, isError: true });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const validated = validate();
+    if (!validated) return;
+
+    const url = buildGreetingUrl(validated);
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage({ text: '分享链接已复制', isError: false });
+    } catch {
+      // Clipboard access can be denied; show the link so it can be copied by hand
+      setMessage({ text: url, isError: false });
+    }
+  };
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">✉️ 祝福语</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        内容（可换行，支持表情）
+        <textarea
+          className={`${inputClass} h-20 font-sans`}
+          value={draft.text}
+          maxLength={GREETING_CONFIG.MAX_LENGTH * 2}
+          onChange={(e) => update({ text: e.target.value })}
+        />
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          字体
+          <select className={inputClass} value={draft.font} onChange={(e) => update({ font: e.target.value })}>
+            {GREETING_CONFIG.FONTS.map(font => (
+              <option key={font.id} value={font.id} className="text-black">{font.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          对齐
+          <select
+            className={inputClass}
+            value={draft.align}
+            onChange={(e) => update({ align: e.target.value as GreetingAlign })}
+          >
+            {(Object.keys(ALIGN_LABELS) as GreetingAlign[]).map(align => (
+              <option key={align} value={align} className="text-black">{ALIGN_LABELS[align]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 col-span-2">
+          字号 {draft.size.toFixed(1)}
+          <input
+            type="range" min={GREETING_CONFIG.MIN_SIZE} max={GREETING_CONFIG.MAX_SIZE} step={0.5} value={draft.size}
+            onChange={(e) => update({ size: Number(e.target.value) })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 col-span-2">
+          行距 {draft.lineHeight.toFixed(2)}
+          <input
+            type="range" min={0.8} max={2} step={0.05} value={draft.lineHeight}
+            onChange={(e) => update({ lineHeight: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      {message && (
+        <div className={`${message.isError ? 'text-red-400' : 'text-green-400'} break-all`}>{message.text}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button className={`${buttonClass} bg-yellow-600/60`} onClick={handleApply}>生成粒子文字</button>
+        <button className={buttonClass} onClick={handleCopyLink}>复制分享链接</button>
+      </div>
+    </div>
+  );
+};
+
+export default GreetingEditor;
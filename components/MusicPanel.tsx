@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { MusicPlayerState } from '../types';
+import { AudioAnalyzer } from '../AudioAnalyzer';
+
+interface MusicPanelProps {
+  analyzer: AudioAnalyzer;
+  autoFireworks: boolean;
+  onAutoFireworksChange: (enabled: boolean) => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30';
+
+const MusicPanel: React.FC<MusicPanelProps> = ({ analyzer, autoFireworks, onAutoFireworksChange, onClose }) => {
+  const [state, setState] = useState<MusicPlayerState>(() => analyzer.getState());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => analyzer.subscribe(setState), [analyzer]);
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      analyzer.setPlaylist(files);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleMicrophone = async () => {
+    try {
+      if (state.source === 'MICROPHONE') {
+        analyzer.stopMicrophone();
+      } else {
+        await analyzer.useMicrophone();
+      }
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const hasTracks = state.tracks.length > 0;
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">🎵 音乐</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <label className={`${buttonClass} cursor-pointer`}>
+          添加音乐
+          <input type="file" accept="audio/*" multiple className="hidden" onChange={handleFiles} />
+        </label>
+        <button
+          className={`${buttonClass} ${state.source === 'MICROPHONE' ? 'bg-red-600/60 hover:bg-red-600/70' : ''}`}
+          onClick={handleMicrophone}
+        >
+          {state.source === 'MICROPHONE' ? '🎤 停止麦克风' : '🎤 麦克风'}
+        </button>
+      </div>
+
+      {hasTracks && (
+        <ol className="max-h-40 overflow-y-auto flex flex-col gap-1">
+          {state.tracks.map((name, i) => (
+            <li key={`${i}-${name}`}>
+              <button
+                onClick={() => analyzer.playTrack(i)}
+                className={`w-full text-left truncate px-2 py-1 rounded hover:bg-white/10 ${
+                  i === state.currentTrack && state.source === 'FILE' ? 'text-yellow-300' : ''
+                }`}
+              >
+                {i === state.currentTrack && state.source === 'FILE' && state.isPlaying ? '▶ ' : ''}{name}
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex gap-2">
+        <button className={buttonClass} disabled={!hasTracks} onClick={() => analyzer.previous()}>⏮</button>
+        <button className={buttonClass} disabled={!hasTracks || state.source !== 'FILE'} onClick={() => analyzer.togglePlay()}>
+          {state.isPlaying && state.source === 'FILE' ? '⏸' : '▶'}
+        </button>
+        <button className={buttonClass} disabled={!hasTracks} onClick={() => analyzer.next()}>⏭</button>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        音量 {Math.round(state.volume * 100)}%
+        <input
+          type="range" min={0} max={1} step={0.01} value={state.volume}
+          onChange={(e) => analyzer.setVolume(Number(e.target.value))}
+        />
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={autoFireworks} onChange={(e) => onAutoFireworksChange(e.target.checked)} />
+        强拍自动放烟花
+      </label>
+
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default MusicPanel;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { InputSource, PlaybackState } from '../types';
+import { SessionRecorder, SessionPlayer, loadSessionFromFile } from '../landmarkSession';
+
+interface SessionControlsProps {
+  inputSource: InputSource;
+  recorder: SessionRecorder;
+  player: SessionPlayer;
+  onError: (message: string) => void;
+}
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const SessionControls: React.FC<SessionControlsProps> = ({ inputSource, recorder, player, onError }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [playback, setPlayback] = useState<PlaybackState>(player.getState());
+
+  useEffect(() => player.subscribe(setPlayback), [player]);
+
+  const toggleRecording = () => {
+    if (recorder.isRecording) {
+      recorder.stop();
+      setIsRecording(false);
+      setRecordedFrames(recorder.frameCount);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+      setRecordedFrames(0);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const session = await loadSessionFromFile(file);
+      player.load(session);
+      player.play();
+    } catch (err: any) {
+      console.error(err);
+      onError(err.message || 'Failed to load recorded session.');
+    }
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-md p-3 rounded-xl border border-white/10 shadow-xl pointer-events-auto text-xs text-gray-300 font-mono flex flex-col gap-2 w-64">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={toggleRecording}
+          className={`px-3 py-1 rounded font-bold transition-colors ${
+            isRecording ? 'bg-red-600 hover:bg-red-500 text-white' : 'bg-white/10 hover:bg-white/20'
+          }`}
+        >
+          {isRecording ? '■ 停止录制' : '● 录制'}
+        </button>
+        {!isRecording && recordedFrames > 0 && (
+          <button
+            onClick={() => recorder.download()}
+            className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors"
+          >
+            下载 ({recordedFrames} 帧)
+          </button>
+        )}
+      </div>
+
+      {inputSource === 'REPLAY' && (
+        <div className="flex flex-col gap-2 pt-2 border-t border-white/10">
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="text-xs file:mr-2 file:px-2 file:py-1 file:rounded file:border-0 file:bg-white/10 file:text-gray-200"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              disabled={!playback.isLoaded}
+              onClick={() => (playback.isPlaying ? player.pause() : player.play())}
+              className="px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-40"
+            >
+              {playback.isPlaying ? '暂停' : '播放'}
+            </button>
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={playback.isLooping}
+                onChange={(e) => player.setLoop(e.target.checked)}
+              />
+              循环
+            </label>
+            <span className="ml-auto">
+              {formatTime(playback.currentTime)} / {formatTime(playback.duration)}
+            </span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={playback.duration}
+            step={1}
+            value={playback.currentTime}
+            disabled={!playback.isLoaded}
+            onChange={(e) => player.seek(Number(e.target.value))}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionControls;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { SharedSessionState, SyncTransportType } from '../types';
+import { SYNC_CONFIG } from '../constants';
+import { SharedSession, createRoomCode, createShareLink } from '../sharedSession';
+
+interface SharePanelProps {
+  session: SharedSession;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30';
+
+const STATUS_LABELS: Record<SharedSessionState['status'], string> = {
+  IDLE: '未加入',
+  CONNECTING: '连接中…',
+  CONNECTED: '已连接',
+  ERROR: '连接失败',
+};
+
+const SharePanel: React.FC<SharePanelProps> = ({ session, onClose }) => {
+  const [state, setState] = useState<SharedSessionState>(() => session.getState());
+  const [room, setRoom] = useState(() => state.room || createRoomCode());
+  const [transport, setTransport] = useState<SyncTransportType>(() => state.transport || 'BROADCAST');
+  const [relayUrl, setRelayUrl] = useState<string>(() => state.relayUrl || SYNC_CONFIG.DEFAULT_RELAY_URL);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => session.subscribe(setState), [session]);
+
+  const join = () => {
+    try {
+      session.join(room, transport, relayUrl);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!state.room) return;
+    try {
+      await navigator.clipboard.writeText(createShareLink(state.room, state.relayUrl));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const joined = state.status !== 'IDLE';
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">🔗 多屏同步</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        房间码
+        <div className="flex gap-2">
+          <input
+            value={room}
+            disabled={joined}
+            onChange={(e) => setRoom(e.target.value.toUpperCase())}
+            className="flex-1 bg-white/10 rounded px-2 py-1 text-gray-100 tracking-widest disabled:opacity-50"
+          />
+          <button className={buttonClass} disabled={joined} onClick={() => setRoom(createRoomCode())}>随机</button>
+        </div>
+      </label>
+
+      <label className="flex flex-col gap-1">
+        连接方式
+        <select
+          value={transport}
+          disabled={joined}
+          onChange={(e) => setTransport(e.target.value as SyncTransportType)}
+          className="bg-white/10 rounded px-2 py-1 text-gray-100 disabled:opacity-50"
+        >
+          <option value="BROADCAST" className="text-black">本机标签页 (BroadcastChannel)</option>
+          <option value="WEBSOCKET" className="text-black">WebSocket 中继服务器</option>
+        </select>
+      </label>
+
+      {transport === 'WEBSOCKET' && (
+        <label className="flex flex-col gap-1">
+          中继地址
+          <input
+            value={relayUrl}
+            disabled={joined}
+            onChange={(e) => setRelayUrl(e.target.value)}
+            className="bg-white/10 rounded px-2 py-1 text-gray-100 disabled:opacity-50"
+          />
+        </label>
+      )}
+
+      <div className="flex justify-between">
+        <span>状态: {STATUS_LABELS[state.status]}</span>
+        {state.status === 'CONNECTED' && <span>其他设备: {state.peers}</span>}
+      </div>
+
+      <div className="flex gap-2">
+        {joined ? (
+          <button className={buttonClass} onClick={() => session.leave()}>离开房间</button>
+        ) : (
+          <button className={buttonClass} disabled={!room.trim()} onClick={join}>加入房间</button>
+        )}
+        <button className={buttonClass} disabled={!joined} onClick={copyLink}>
+          {copied ? '已复制' : '复制邀请链接'}
+        </button>
+      </div>
+
+      {(error || state.error) && <div className="text-red-400">{error || state.error}</div>}
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { SoundSettings } from '../types';
+import { SoundEffects } from '../SoundEffects';
+
+interface SoundControlsProps {
+  sounds: SoundEffects;
+}
+
+const SoundControls: React.FC<SoundControlsProps> = ({ sounds }) => {
+  const [settings, setSettings] = useState<SoundSettings>(() => sounds.getSettings());
+
+  useEffect(() => sounds.subscribe(setSettings), [sounds]);
+
+  return (
+    <div className="pointer-events-auto flex items-center gap-2 px-4 py-2 rounded-full border border-white/20 bg-white/10 backdrop-blur-md text-xs text-gray-200 shadow-lg">
+      <button
+        onClick={() => sounds.setMuted(!settings.muted)}
+        className="hover:text-white"
+        title={settings.muted ? '取消静音' : '静音'}
+      >
+        {settings.muted ? '🔇' : '🔊'}
+      </button>
+      <input
+        type="range" min={0} max={1} step={0.01} value={settings.volume}
+        disabled={settings.muted}
+        onChange={(e) => sounds.setVolume(Number(e.target.value))}
+        className="w-24 disabled:opacity-30"
+      />
+    </div>
+  );
+};
+
+export default SoundControls;
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { ThemeDefinition } from '../types';
+import { createThemeId, themeRegistry } from '../themes';
+import { downloadTextFile } from '../utils';
+
+interface ThemeEditorProps {
+  themes: ThemeDefinition[];
+  activeTheme: ThemeDefinition;
+  onApply: (theme: ThemeDefinition) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-white/10 rounded px-2 py-1 text-gray-100 w-full';
+const buttonClass = 'px-3 py-1 rounded bg-white/10 hover:bg-white/20 transition-colors';
+
+// Copy of a theme that can be edited and saved as a user theme
+const toDraft = (theme: ThemeDefinition): ThemeDefinition => ({
+  ...JSON.parse(JSON.stringify(theme)),
+  id: theme.builtIn ? createThemeId() : theme.id,
+  name: theme.builtIn ? `${theme.name} (自定义)` : theme.name,
+  builtIn: undefined,
+});
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ themes, activeTheme, onApply, onClose }) => {
+  const [draft, setDraft] = useState<ThemeDefinition>(() => toDraft(activeTheme));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setError(null), [draft]);
+
+  const update = (changes: Partial<ThemeDefinition>) => setDraft(current => ({ ...current, ...changes }));
+
+  const updatePalette = (index: number, changes: Partial<ThemeDefinition['palette'][number]>) =>
+    update({ palette: draft.palette.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) });
+
+  const handleSave = () => {
+    try {
+      const saved = themeRegistry.save(draft);
+      setDraft(saved);
+      onApply(saved);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  // Only the theme on screen needs replacing; otherwise go back to editing it
+  const handleDelete = () => {
+    themeRegistry.remove(draft.id);
+    if (draft.id === activeTheme.id) {
+      onApply(themeRegistry.getDefault());
+      setDraft(toDraft(themeRegistry.getDefault()));
+    } else {
+      setDraft(toDraft(activeTheme));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = themeRegistry.importJson(await file.text());
+      if (imported.length > 0) {
+        setDraft(imported[0]);
+        onApply(imported[0]);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const isUserTheme = themes.some(theme => theme.id === draft.id && !theme.builtIn);
+
+  return (
+    <div className="bg-black/80 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-2xl pointer-events-auto text-xs text-gray-300 font-mono w-80 max-h-[80vh] overflow-y-auto flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-sm text-gray-100">🎨 主题编辑</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <select
+        className={inputClass}
+        value=""
+        onChange={(e) => {
+          const theme = themes.find(t => t.id === e.target.value);
+          if (theme) setDraft(toDraft(theme));
+        }}
+      >
+        <option value="" disabled>从已有主题开始…</option>
+        {themes.map(theme => (
+          <option key={theme.id} value={theme.id} className="text-black">
+            {theme.name}{theme.builtIn ? '' : ' ★'}
+          </option>
+        ))}
+      </select>
+
+      <label className="flex flex-col gap-1">
+        名称
+        <input className={inputClass} value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+      </label>
+
+      <div className="flex flex-col gap-1">
+        <div className="flex justify-between">
+          <span>粒子颜色（颜色 / 权重 / 亮度）</span>
+          <button
+            className="text-gray-400 hover:text-white"
+            onClick={() => update({ palette: [...draft.palette, { color: '#FFFFFF', weight: 0.1, intensity: 1 }] })}
+          >
+            ＋
+          </button>
+        </div>
+        {draft.palette.map((entry, i) => (
+          <div key={i} className="flex items-center gap-1">
+            <input type="color" value={entry.color} onChange={(e) => updatePalette(i, { color: e.target.value })} />
+            <input
+              type="number" step={0.05} min={0.01} className={inputClass} value={entry.weight}
+              onChange={(e) => updatePalette(i, { weight: Number(e.target.value) })}
+            />
+            <input
+              type="number" step={0.1} min={0} className={inputClass} value={entry.intensity}
+              onChange={(e) => updatePalette(i, { intensity: Number(e.target.value) })}
+            />
+            <button
+              disabled={draft.palette.length <= 1}
+              className="text-gray-400 hover:text-white disabled:opacity-30"
+              onClick={() => update({ palette: draft.palette.filter((_, j) => j !== i) })}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          背景
+          <input type="color" value={draft.background} onChange={(e) => update({ background: e.target.value })} />
+        </label>
+        <label className="flex flex-col gap-1">
+          雾颜色
+          <input
+            type="color" value={draft.fog.color}
+            onChange={(e) => update({ fog: { ...draft.fog, color: e.target.value } })}
+          />
+        </label>
+        <label className="flex flex-col gap-1 col-span-2">
+          雾浓度 {draft.fog.density.toFixed(3)}
+          <input
+            type="range" min={0} max={0.08} step={0.001} value={draft.fog.density}
+            onChange={(e) => update({ fog: { ...draft.fog, density: Number(e.target.value) } })}
+          />
+        </label>
+        {(['strength', 'radius', 'threshold'] as const).map(key => (
+          <label key={key} className="flex flex-col gap-1 col-span-2">
+            光晕 {key} {draft.bloom[key].toFixed(2)}
+            <input
+              type="range" min={0} max={key === 'strength' ? 4 : 1} step={0.01} value={draft.bloom[key]}
+              onChange={(e) => update({ bloom: { ...draft.bloom, [key]: Number(e.target.value) } })}
+            />
+          </label>
+        ))}
+      </div>
+
+      <label className="flex flex-col gap-1">
+        星星渐变（每行 位置,颜色）
+        <textarea
+          className={`${inputClass} h-20`}
+          defaultValue={draft.starGradient.map(stop => `${stop.offset},${stop.color}`).join('\n')}
+          key={`star-${draft.id}`}
+          onBlur={(e) => update({
+            starGradient: e.target.value.split('\n').filter(Boolean).map(line => {
+              const [offset, ...color] = line.split(',');
+              return { offset: Number(offset), color: color.join(',').trim() };
+            }),
+          })}
+        />
+      </label>
+
+      <label className="flex flex-col gap-1">
+        烟花色相（0-1，逗号分隔，留空为随机）
+        <input
+          className={inputClass}
+          defaultValue={draft.fireworkHues.join(', ')}
+          key={`hues-${draft.id}`}
+          onBlur={(e) => update({
+            fireworkHues: e.target.value.split(',').map(v => v.trim()).filter(Boolean).map(Number),
+          })}
+        />
+      </label>
+
+      {error && <div className="text-red-400">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        <button className={`${buttonClass} bg-yellow-600/60`} onClick={handleSave}>保存并应用</button>
+        {isUserTheme && <button className={buttonClass} onClick={handleDelete}>删除</button>}
+        <button
+          className={buttonClass}
+          onClick={() => downloadTextFile(themeRegistry.exportJson(), 'gesture-tree-themes.json')}
+        >
+          导出
+        </button>
+        <label className={`${buttonClass} cursor-pointer`}>
+          导入
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ThemeEditor;
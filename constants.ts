@@ -1,10 +1,183 @@
 // Particle system constants
 export const PARTICLE_CONFIG = {
   COUNT: 5000,
+} as const;
+
+// Cone the tree shape, trunk, star and ornaments are laid out on
+export const TREE_CONFIG = {
   HEIGHT: 25,
   RADIUS: 10,
 } as const;
 
+// Shape morphing
+export const SHAPE_CONFIG = {
+  MORPH_DURATION: 1.5, // Seconds
+  MORPH_EASING: 'easeInOutCubic',
+} as const;
+
+// 3D ornaments attached to the tree
+export const DECORATION_CONFIG = {
+  BAUBLE_COUNT: 24,
+  BAUBLE_RADIUS: 0.55,
+  GLASS_RATIO: 0.35, // Share of baubles using the glass material
+  BOW_COUNT: 6,
+  GARLAND_TURNS: 4,
+  GARLAND_THICKNESS: 0.12,
+  TOPPER_SIZE: 1.6,
+  SURFACE_OFFSET: 0.3, // Distance outside the particle surface
+  ASSEMBLE_DURATION: 0.8, // Seconds per ornament
+  ASSEMBLE_STAGGER: 1.0, // Extra delay from the bottom to the top of the tree
+  SCATTER_DURATION: 0.6,
+  SCATTER_DISTANCE: 30,
+} as const;
+
+// Point-to-decorate mode
+export const DECORATE_CONFIG = {
+  PINCH_ENTER: 0.35, // Thumb-to-index distance as a fraction of palm size
+  PINCH_EXIT: 0.5,
+  CURSOR_SMOOTHING: 0.35,
+  MAX_ORNAMENTS: 200,
+  STORAGE_KEY: 'gesture-tree:ornaments',
+} as const;
+
+// Music analysis and beat reactions
+export const AUDIO_CONFIG = {
+  FFT_SIZE: 1024,
+  SMOOTHING: 0.75,
+  BASS_RANGE: [20, 250], // Hz
+  MID_RANGE: [250, 2000],
+  TREBLE_RANGE: [2000, 8000],
+  BEAT_HISTORY: 43, // Frames of bass energy averaged for onset detection (~0.7 s)
+  BEAT_THRESHOLD: 1.35, // Bass must exceed the recent average by this factor
+  BEAT_MIN_ENERGY: 0.25,
+  BEAT_COOLDOWN: 250, // ms
+  DEFAULT_VOLUME: 0.8,
+  SIZE_BOOST: 0.6, // Particle size gain from bass
+  ALPHA_BOOST: 0.3, // Particle alpha gain from treble
+  BLOOM_BOOST: 0.8, // Bloom strength gain from overall energy
+  STAR_PULSE: 0.6, // Star scale kick on a beat
+  PULSE_DECAY: 6, // Per second
+  AUTO_FIREWORK_STRENGTH: 0.6, // Beat strength needed to fire automatically
+  AUTO_FIREWORK_COOLDOWN: 1.2, // Seconds
+} as const;
+
+// Synthesised sound effects
+export const SOUND_CONFIG = {
+  DEFAULT_VOLUME: 0.6,
+  STORAGE_KEY: 'gesture-tree:sound',
+  CHIME_INTERVAL: 450, // ms between notes while the tree is assembled
+  CHIME_NOTES: [523.25, 587.33, 659.25, 783.99, 880.0, 1046.5], // C major pentatonic
+} as const;
+
+// Video recording and PNG snapshots
+export const CAPTURE_CONFIG = {
+  VIDEO_FPS: 30,
+  VIDEO_BITRATE: 8_000_000,
+  VIDEO_MIME_TYPES: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  SNAPSHOT_SIZES: [
+    { id: '1080p', name: '1920×1080', width: 1920, height: 1080 },
+    { id: '4k', name: '3840×2160', width: 3840, height: 2160 },
+    { id: 'square', name: '2048×2048', width: 2048, height: 2048 },
+    { id: 'portrait', name: '1080×1920', width: 1080, height: 1920 },
+  ],
+} as const;
+
+// Greeting text rendered as particles
+export const GREETING_CONFIG = {
+  DEFAULT_TEXT: '圣诞快乐',
+  MAX_LENGTH: 60,
+  FONTS: [
+    { id: 'sans', name: '黑体', family: '"PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif' },
+    { id: 'serif', name: '宋体', family: '"Songti SC", "SimSun", "Noto Serif CJK SC", serif' },
+    { id: 'kai', name: '楷体', family: '"Kaiti SC", "STKaiti", "KaiTi", serif' },
+    { id: 'cursive', name: '手写', family: '"Comic Sans MS", "Segoe Print", cursive' },
+  ],
+  DEFAULT_SIZE: 6,
+  MIN_SIZE: 3,
+  MAX_SIZE: 12,
+  DEFAULT_LINE_HEIGHT: 1.2,
+  RASTER_FONT_SIZE: 96, // Pixels; the offscreen canvas is sampled at this resolution
+  MAX_WIDTH: 36, // World units; longer lines shrink to fit
+  MAX_HEIGHT: 26,
+  DEPTH: 1.5,
+  URL_PARAM: 'greeting',
+  PRESENT_DURATION: 6, // Seconds a shared greeting stays assembled after opening the link
+} as const;
+
+// Photo portrait made of particles
+export const PORTRAIT_CONFIG = {
+  SAMPLE_RESOLUTION: 200, // Longest image side in pixels after downscaling
+  ALPHA_THRESHOLD: 64, // Pixels at or below this alpha (0-255) are treated as transparent
+  MAX_WIDTH: 30, // World units
+  MAX_HEIGHT: 30,
+  RELIEF_DEPTH: 6, // Brightness mapped to z for a relief effect
+  COLOR_INTENSITY: 0.9, // Keeps additive blending from washing out the photo
+} as const;
+
+// AR mode: webcam feed behind the tree, optionally held in the palm
+export const AR_CONFIG = {
+  DEFAULT_DIM: 0.4, // 0 = raw camera image, 1 = black
+  DEFAULT_BLUR: 0, // Texels
+  MAX_BLUR: 8,
+  ANCHOR_SCALE: 0.35, // Tree scale when held at the reference palm size
+  REFERENCE_PALM_SIZE: 0.12, // Wrist to middle knuckle, normalised webcam units
+  ANCHOR_SMOOTHING: 0.25,
+} as const;
+
+// Gesture-to-action bindings (see actions.ts and bindings.ts)
+export const BINDINGS_CONFIG = {
+  STORAGE_KEY: 'gesture-tree:bindings',
+  FILE_VERSION: 1,
+  MOTION_POSITION: { x: 0.5, y: 0.3 }, // Where actions of motion and hold gestures happen, e.g. fireworks
+  HOLD_TIME: 2000, // ms holding two fingers to fire TWO_FINGERS_HOLD
+  FIREWORK_SPREAD: 0.15, // Horizontal spacing of rockets in a salvo
+  FIREWORK_INTERVAL: 150, // ms between rockets in a salvo
+  SNOW_DURATION: 10, // Seconds of snow when a shared event doesn't say
+} as const;
+
+// Embeddable <gesture-tree> element and its iframe message protocol
+export const EMBED_CONFIG = {
+  TAG_NAME: 'gesture-tree',
+  MESSAGE_SOURCE: 'gesture-tree', // Marks postMessage traffic in both directions
+  ORIGIN_PARAM: 'origin', // embed.html?origin=https://host only accepts commands from that origin
+  SNOW_DURATION: 10000, // ms of snow started by a gesture
+  MEDIAPIPE_SCRIPTS: [
+    'https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js',
+    'https://cdn.jsdelivr.net/npm/@mediapipe/hands/hands.js',
+  ],
+} as const;
+
+// Multi-screen shared sessions
+export const SYNC_CONFIG = {
+  ROOM_PARAM: 'room', // ?room=CODE joins a session on load
+  RELAY_PARAM: 'relay', // ?relay=ws://host:8787 uses the WebSocket relay instead of BroadcastChannel
+  DEFAULT_RELAY_URL: 'ws://localhost:8787',
+  ROOM_CODE_LENGTH: 5,
+  CHANNEL_PREFIX: 'gesture-tree:room:',
+  STREAM_INTERVAL: 50, // ms between assemble / rotation updates sent by one client
+  PRESENCE_INTERVAL: 2000,
+  PRESENCE_TIMEOUT: 5000, // Peers silent for longer are no longer counted
+  RECONNECT_DELAY: 1000, // Doubles after each failed attempt
+  MAX_RECONNECT_DELAY: 15000,
+} as const;
+
+// Hand tracking (MediaPipe Hands options and webcam resolution)
+export const TRACKING_CONFIG = {
+  MAX_NUM_HANDS: 2,
+  MODEL_COMPLEXITY: 1, // 0 = lite, 1 = full
+  MIN_DETECTION_CONFIDENCE: 0.5,
+  MIN_TRACKING_CONFIDENCE: 0.5,
+  CAMERA_WIDTH: 640,
+  CAMERA_HEIGHT: 480,
+} as const;
+
+// Runtime overrides of the config objects below (see runtimeConfig.ts)
+export const RUNTIME_CONFIG = {
+  FILE_URL: 'config.json', // Served next to index.html
+  FILE_PARAM: 'config', // ?config=<url> loads a different file
+  STORAGE_KEY: 'gesture-tree:config',
+} as const;
+
 // Three.js rendering constants
 export const RENDER_CONFIG = {
   CAMERA_FOV: 60,
@@ -24,17 +197,20 @@ export const ANIMATION_CONFIG = {
   BROWN_MOTION: 0.03,
   ROTATION_SPEED_X: 1.8,
   ROTATION_SPEED_Y: 2.5,
+  FIXED_TIMESTEP: 1 / 60, // Physics step in seconds; per-step forces above are tuned for 60 Hz
+  MAX_FRAME_DELTA: 0.25, // Clamp long frames (e.g. after a background tab) to avoid a catch-up spiral
+  MAX_STEPS_PER_FRAME: 8,
+  IDLE_SPIN_SPEED: 0.12, // Radians per second when the tree is not held
+  TRUNK_SPIN_SPEED: 0.06,
 } as const;
 
-// Color themes
-export const COLOR_THEMES = {
-  CLASSIC: '经典圣诞',
-  WINTER: '冰雪奇缘',
-  DREAMY: '梦幻粉紫',
+// Color themes (palettes live in themes.ts)
+export const THEME_CONFIG = {
+  FADE_DURATION: 1.2, // Seconds to cross-fade between themes
+  STORAGE_KEY: 'gesture-tree:themes',
+  ACTIVE_STORAGE_KEY: 'gesture-tree:active-theme',
 } as const;
 
-export const THEME_NAMES = [COLOR_THEMES.CLASSIC, COLOR_THEMES.WINTER, COLOR_THEMES.DREAMY] as const;
-
 // Snow particles
 export const SNOW_CONFIG = {
   COUNT: 1000,
@@ -47,17 +223,101 @@ export const FIREWORKS_CONFIG = {
   LIFETIME: 3.0,
   GRAVITY: 0.015,
   AIR_RESISTANCE: 0.97,
+  ROCKET_DURATION: 0.9, // Seconds from launch to burst
+  ROCKET_LAUNCH_Y: -18, // World y the rocket rises from
+  ROCKET_TRAIL_COUNT: 150,
+  ROCKET_TRAIL_LIFETIME: 0.6,
+  ROCKET_TRAIL_SPAWN: 4, // Trail sparks emitted per frame
+  MAX_BURSTS: 8, // Concurrent bursts; the oldest is recycled when all are in use
+  MAX_ROCKETS: 8,
+  LAYERS: [
+    { COUNT: 200, SPEED: 0.8, SIZE: 0.8, DELAY: 0 },   // Outer layer: fast, large particles
+    { COUNT: 150, SPEED: 0.5, SIZE: 0.6, DELAY: 0.1 }, // Middle layer: medium speed, medium particles
+    { COUNT: 100, SPEED: 0.3, SIZE: 0.4, DELAY: 0.2 }, // Inner layer: slow, small particles
+  ],
 } as const;
 
-// Gesture detection thresholds
+// Per-finger curl boundaries for the joint-angle classifier
 export const GESTURE_THRESHOLDS = {
-  INDEX_CURLED: 0.12,
-  MIDDLE_CURLED: 0.12,
-  RING_CURLED: 0.12,
-  PINKY_CURLED: 0.12,
-  THUMB_CURLED: 0.18,
-  INDEX_EXTENDED: 0.15,
-  MIDDLE_EXTENDED: 0.15,
-  RING_EXTENDED: 0.15,
-  PINKY_EXTENDED: 0.15,
+  THUMB_CURLED_MIN: 0.55,
+  INDEX_CURLED_MIN: 0.55,
+  MIDDLE_CURLED_MIN: 0.55,
+  RING_CURLED_MIN: 0.55,
+  PINKY_CURLED_MIN: 0.55,
+  THUMB_EXTENDED_MAX: 0.4,
+  INDEX_EXTENDED_MAX: 0.4,
+  MIDDLE_EXTENDED_MAX: 0.4,
+  RING_EXTENDED_MAX: 0.4,
+  PINKY_EXTENDED_MAX: 0.4,
+} as const;
+
+// Per-user threshold calibration
+export const CALIBRATION_CONFIG = {
+  SETTLE_TIME: 1500, // ms to get into each pose before recording starts
+  SAMPLE_FRAMES: 30, // Tracking frames recorded per pose
+  CURLED_PERCENTILE: 0.1, // Lower end of the curled curls
+  EXTENDED_PERCENTILE: 0.9, // Upper end of the extended curls
+  MARGIN: 1 / 3, // Fraction of the gap between them kept as a dead zone on each side
+  STORAGE_KEY: 'gesture-tree:calibration',
+} as const;
+
+// Joint-angle finger classifier
+export const FINGER_CLASSIFIER_CONFIG = {
+  ASPECT_RATIO: 640 / 480, // Landmark x is normalised by video width, y by height
+  FULL_CURL_ANGLE: 4.2, // Summed MCP+PIP+DIP bend (radians) of a fully curled finger
+  FULL_THUMB_CURL_ANGLE: 2.0, // Summed MCP+IP bend of a fully curled thumb
+  ANGLE_WEIGHT: 0.7, // Remainder is the palm-normalised tip distance cue
+  THUMB_ANGLE_WEIGHT: 0.4,
+  EXTENDED_TIP_RATIO: 1.9, // Tip-to-wrist over MCP-to-wrist distance of a straight finger
+  CURLED_TIP_RATIO: 1.0,
+  THUMB_TUCKED_DISTANCE: 0.5, // Thumb tip to index MCP, in palm sizes
+  THUMB_OPEN_DISTANCE: 1.0,
+} as const;
+
+// Gesture state machine timing (ms) and confidence hysteresis
+export const GESTURE_TIMING = {
+  ENTER_CONFIDENCE: 0.25, // Minimum classifier confidence to start a gesture
+  EXIT_CONFIDENCE: 0.05, // A running gesture survives down to this confidence
+  FIST: { HOLD_TIME: 120, RELEASE_TIME: 300, COOLDOWN: 0 },
+  ONE_FINGER: { HOLD_TIME: 300, RELEASE_TIME: 200, COOLDOWN: 1000 },
+  TWO_FINGERS: { HOLD_TIME: 300, RELEASE_TIME: 200, COOLDOWN: 1000 },
+  THREE_FINGERS: { HOLD_TIME: 300, RELEASE_TIME: 200, COOLDOWN: 1500 },
+} as const;
+
+// Two-hand tracking and bimanual gestures
+export const BIMANUAL_CONFIG = {
+  // MediaPipe labels assume a mirrored selfie image; the raw webcam feed is not mirrored
+  SWAP_HANDEDNESS: true,
+  MIN_TREE_SCALE: 0.5,
+  MAX_TREE_SCALE: 2.0,
+  FISTS_TOGETHER_DISTANCE: 0.15, // Palm-to-palm distance in normalised image units
+  RESET_HOLD_TIME: 300,
+  RESET_COOLDOWN: 1500,
+} as const;
+
+// Trajectory-based motion gestures (distances in normalised image units)
+export const MOTION_CONFIG = {
+  MAX_SAMPLES: 90,
+  COOLDOWN: 600, // ms after a motion gesture before the next one can fire
+  SWIPE_WINDOW: 400,
+  SWIPE_MIN_DISTANCE: 0.25,
+  SWIPE_MIN_VELOCITY: 0.8,
+  SWIPE_AXIS_RATIO: 2.0, // Dominant axis must be this much longer than the other
+  CIRCLE_WINDOW: 1500,
+  CIRCLE_MIN_RADIUS: 0.05,
+  CIRCLE_MIN_TURN: Math.PI * 1.8,
+  WAVE_WINDOW: 1500,
+  WAVE_MIN_AMPLITUDE: 0.04,
+  WAVE_MIN_REVERSALS: 3,
+} as const;
+
+// Camera dolly driven by hand depth
+export const ZOOM_CONFIG = {
+  DEFAULT_DISTANCE: 35,
+  MIN_DISTANCE: 18,
+  MAX_DISTANCE: 60,
+  NEAR_PALM_SPAN: 0.45, // Palm span (landmarks 0, 5, 17) of a hand close to the webcam
+  FAR_PALM_SPAN: 0.15,
+  DEAD_ZONE: 0.15, // Depth band around the middle that leaves the camera at its default distance
+  SMOOTHING: 0.08, // Fraction of the remaining distance covered per frame
 } as const;
\ No newline at end of file
@@ -0,0 +1,10 @@
+// Entry of the embeddable build (npm run build:embed). Importing it registers <gesture-tree>.
+import { defineGestureTree } from './GestureTreeElement';
+
+export { GestureTreeElement, defineGestureTree } from './GestureTreeElement';
+export { GestureTreeApi } from './GestureTreeApi';
+export { connectMessageBridge, parseEmbedCommand } from './embedBridge';
+export { resolveConfig } from './runtimeConfig';
+export type { EmbedCommand, EmbedHostMessage, EmbedFrameMessage, RuntimeConfig, ThemeDefinition } from './types';
+
+defineGestureTree();
@@ -0,0 +1,75 @@
+import { EmbedCommand, EmbedFrameMessage } from './types';
+import { EMBED_CONFIG } from './constants';
+import { GestureTreeElement } from './GestureTreeElement';
+
+// Element events forwarded to the iframe host
+const FORWARDED_EVENTS = ['gesture', 'motiongesture', 'camerastatus', 'treeerror'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Commands come from another page, so check every field before the tree sees it
+export function parseEmbedCommand(data: any): EmbedCommand | null {
+  switch (data?.command) {
+    case 'assemble':
+      return isNumber(data.strength) ? { command: 'assemble', strength: data.strength } : null;
+    case 'rotate':
+      return isNumber(data.x) && isNumber(data.y) ? { command: 'rotate', x: data.x, y: data.y } : null;
+    case 'setTheme':
+      // Theme objects are validated by the tree itself
+      return typeof data.theme === 'string' || (data.theme && typeof data.theme === 'object')
+        ? { command: 'setTheme', theme: data.theme }
+        : null;
+    case 'snow':
+      return typeof data.visible === 'boolean' ? { command: 'snow', visible: data.visible } : null;
+    case 'fireworks':
+      return isNumber(data.x) && isNumber(data.y) && isNumber(data.z)
+        ? { command: 'fireworks', x: data.x, y: data.y, z: data.z }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Let the page embedding this one in an iframe drive the tree with postMessage and hear
+// its events. With an allowed origin, messages from anywhere else are ignored and events
+// are only posted to that origin. Returns a function that disconnects the bridge.
+export function connectMessageBridge(element: GestureTreeElement, allowedOrigin: string | null): () => void {
+  const host = window.parent;
+  const post = (message: EmbedFrameMessage) => host.postMessage(message, allowedOrigin || '*');
+
+  const handleMessage = (e: MessageEvent) => {
+    if (e.source !== host || (allowedOrigin && e.origin !== allowedOrigin)) return;
+    const data = e.data;
+    if (!data || data.source !== EMBED_CONFIG.MESSAGE_SOURCE || data.type !== 'command') return;
+
+    // Commands with an id get a result message back
+    const id = typeof data.id === 'string' ? data.id : null;
+    try {
+      const command = parseEmbedCommand(data);
+      if (!command) {
+        throw new Error(`Invalid ${JSON.stringify(data.command)} command.`);
+      }
+      element.run(command);
+      if (id) post({ source: EMBED_CONFIG.MESSAGE_SOURCE, type: 'result', id, ok: true });
+    } catch (err: any) {
+      if (id) {
+        post({ source: EMBED_CONFIG.MESSAGE_SOURCE, type: 'result', id, ok: false, error: err.message });
+      } else {
+        console.warn('Failed to run embed command', err);
+      }
+    }
+  };
+
+  const forward = (e: Event) => {
+    post({ source: EMBED_CONFIG.MESSAGE_SOURCE, type: 'event', name: e.type, detail: (e as CustomEvent).detail });
+  };
+
+  window.addEventListener('message', handleMessage);
+  FORWARDED_EVENTS.forEach(name => element.addEventListener(name, forward));
+  post({ source: EMBED_CONFIG.MESSAGE_SOURCE, type: 'ready' });
+
+  return () => {
+    window.removeEventListener('message', handleMessage);
+    FORWARDED_EVENTS.forEach(name => element.removeEventListener(name, forward));
+  };
+}
@@ -0,0 +1,17 @@
+// embed.html: one full-page <gesture-tree> for iframe hosts, driven over postMessage.
+// Attributes come from the query string, e.g. ?theme=classic&gestures&origin=https://example.com
+import { EMBED_CONFIG } from './constants';
+import { GestureTreeElement, defineGestureTree } from './GestureTreeElement';
+import { connectMessageBridge } from './embedBridge';
+
+defineGestureTree();
+
+const params = new URLSearchParams(window.location.search);
+const element = document.createElement(EMBED_CONFIG.TAG_NAME) as GestureTreeElement;
+GestureTreeElement.observedAttributes.forEach(name => {
+  const value = params.get(name);
+  if (value !== null) element.setAttribute(name, value);
+});
+document.body.appendChild(element);
+
+connectMessageBridge(element, params.get(EMBED_CONFIG.ORIGIN_PARAM));
@@ -0,0 +1,140 @@
+import { GestureType, GestureEvent, FingerState } from './types';
+import { GESTURE_TIMING } from './constants';
+import { HandPose } from './utils';
+
+export interface GestureTiming {
+  HOLD_TIME: number; // Gesture must be seen this long before it starts
+  RELEASE_TIME: number; // Gesture must be missing this long before it ends
+  COOLDOWN: number; // Minimum time between two starts of the same gesture
+}
+
+export interface GestureStateMachineConfig {
+  enterConfidence: number;
+  exitConfidence: number;
+  timing: Record<GestureType, GestureTiming>;
+  onEvent: (event: GestureEvent) => void;
+}
+
+export interface DetectedGesture {
+  gesture: GestureType;
+  confidence: number;
+}
+
+const minConfidence = (fingers: FingerState[]) =>
+  Math.min(...fingers.map(f => f.confidence));
+
+// Pick the pose shown this frame, with the confidence of the fingers that define it
+export function detectGesture(pose: HandPose | null): DetectedGesture | null {
+  if (!pose) return null;
+
+  const { thumb, index, middle, ring, pinky } = pose.fingers;
+
+  if (pose.isFist) {
+    const curled = [index, middle, ring, pinky].filter(f => f.isCurled);
+    return { gesture: 'FIST', confidence: minConfidence([thumb, ...curled]) };
+  }
+  if (pose.isThreeFingers) {
+    return { gesture: 'THREE_FINGERS', confidence: minConfidence([index, middle, ring, pinky]) };
+  }
+  if (pose.isTwoFingers) {
+    return { gesture: 'TWO_FINGERS', confidence: minConfidence([index, middle, ring, pinky]) };
+  }
+  if (pose.isOneFinger) {
+    return { gesture: 'ONE_FINGER', confidence: minConfidence([index, middle, ring, pinky]) };
+  }
+  return null;
+}
+
+// Debounces per-frame poses into start / hold / end events.
+// Only one gesture is active at a time.
+export class GestureStateMachine {
+  private candidate: GestureType | null = null;
+  private candidateSince: number = 0;
+  private active: GestureType | null = null;
+  private activeSince: number = 0;
+  private lastSeen: number = 0;
+  private lastStarted: Partial<Record<GestureType, number>> = {};
+
+  constructor(private config: GestureStateMachineConfig) {}
+
+  public get activeGesture() {
+    return this.active;
+  }
+
+  public update(detected: DetectedGesture | null, timestamp: number) {
+    if (this.active) {
+      const stillHeld =
+        detected !== null &&
+        detected.gesture === this.active &&
+        detected.confidence >= this.config.exitConfidence;
+
+      if (stillHeld) {
+        this.lastSeen = timestamp;
+        this.emit('HOLD', this.active, timestamp);
+        return;
+      }
+
+      // Ride out short dropouts before ending the gesture
+      if (timestamp - this.lastSeen < this.config.timing[this.active].RELEASE_TIME) {
+        return;
+      }
+
+      this.emit('END', this.active, timestamp);
+      this.active = null;
+    }
+
+    if (!detected || detected.confidence < this.config.enterConfidence || this.isCoolingDown(detected.gesture, timestamp)) {
+      this.candidate = null;
+      return;
+    }
+
+    if (this.candidate !== detected.gesture) {
+      this.candidate = detected.gesture;
+      this.candidateSince = timestamp;
+    }
+
+    if (timestamp - this.candidateSince >= this.config.timing[detected.gesture].HOLD_TIME) {
+      this.active = detected.gesture;
+      this.activeSince = timestamp;
+      this.lastSeen = timestamp;
+      this.lastStarted[detected.gesture] = timestamp;
+      this.candidate = null;
+      this.emit('START', this.active, timestamp);
+    }
+  }
+
+  public reset(timestamp: number) {
+    if (this.active) {
+      this.emit('END', this.active, timestamp);
+    }
+    this.active = null;
+    this.candidate = null;
+  }
+
+  private isCoolingDown(gesture: GestureType, timestamp: number) {
+    const lastStarted = this.lastStarted[gesture];
+    return lastStarted !== undefined && timestamp - lastStarted < this.config.timing[gesture].COOLDOWN;
+  }
+
+  private emit(type: GestureEvent['type'], gesture: GestureType, timestamp: number) {
+    this.config.onEvent({
+      type,
+      gesture,
+      duration: timestamp - this.activeSince,
+      timestamp,
+    });
+  }
+}
+
+export const createDefaultGestureStateMachine = (onEvent: (event: GestureEvent) => void) =>
+  new GestureStateMachine({
+    enterConfidence: GESTURE_TIMING.ENTER_CONFIDENCE,
+    exitConfidence: GESTURE_TIMING.EXIT_CONFIDENCE,
+    timing: {
+      FIST: GESTURE_TIMING.FIST,
+      ONE_FINGER: GESTURE_TIMING.ONE_FINGER,
+      TWO_FINGERS: GESTURE_TIMING.TWO_FINGERS,
+      THREE_FINGERS: GESTURE_TIMING.THREE_FINGERS,
+    },
+    onEvent,
+  });
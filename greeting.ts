@@ -0,0 +1,149 @@
+import { GreetingOptions, GreetingAlign, ShapeDefinition } from './types';
+import { GREETING_CONFIG } from './constants';
+
+export const DEFAULT_GREETING: GreetingOptions = {
+  text: GREETING_CONFIG.DEFAULT_TEXT,
+  font: GREETING_CONFIG.FONTS[0].id,
+  size: GREETING_CONFIG.DEFAULT_SIZE,
+  lineHeight: GREETING_CONFIG.DEFAULT_LINE_HEIGHT,
+  align: 'center',
+};
+
+const ALIGNMENTS: GreetingAlign[] = ['left', 'center', 'right'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Validate untrusted options (URL or form input), filling in defaults
+export function parseGreeting(data: any): GreetingOptions {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Invalid greeting: expected an object.');
+  }
+  if (typeof data.text !== 'string' || data.text.trim() === '') {
+    throw new Error('Invalid greeting: text is required.');
+  }
+  if (Array.from(data.text).length > GREETING_CONFIG.MAX_LENGTH) {
+    throw new Error(`Invalid greeting: text is longer than ${GREETING_CONFIG.MAX_LENGTH} characters.`);
+  }
+
+  const size = Number(data.size);
+  const lineHeight = Number(data.lineHeight);
+  return {
+    text: data.text.replace(/\r\n?/g, '\n').trim(),
+    font: GREETING_CONFIG.FONTS.some(font => font.id === data.font) ? data.font : DEFAULT_GREETING.font,
+    size: Number.isFinite(size)
+      ? clamp(size, GREETING_CONFIG.MIN_SIZE, GREETING_CONFIG.MAX_SIZE)
+      : DEFAULT_GREETING.size,
+    lineHeight: Number.isFinite(lineHeight) ? clamp(lineHeight, 0.8, 2) : DEFAULT_GREETING.lineHeight,
+    align: ALIGNMENTS.includes(data.align) ? data.align : DEFAULT_GREETING.align,
+  };
+}
+
+// Draw the text to an offscreen canvas and return the filled pixels as [x, y] pairs
+function rasterizeGreeting(options: GreetingOptions) {
+  const fontSize = GREETING_CONFIG.RASTER_FONT_SIZE;
+  const family = (GREETING_CONFIG.FONTS.find(font => font.id === options.font) || GREETING_CONFIG.FONTS[0]).family;
+  const font = `bold ${fontSize}px ${family}`;
+  const lines = options.text.split('\n');
+  const lineHeight = fontSize * options.lineHeight;
+
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available.');
+
+  context.font = font;
+  const padding = Math.ceil(fontSize * 0.25);
+  const textWidth = Math.max(...lines.map(line => context.measureText(line).width));
+  canvas.width = Math.ceil(textWidth) + padding * 2;
+  canvas.height = Math.ceil(lineHeight * lines.length) + padding * 2;
+
+  // Resizing resets the context state
+  context.font = font;
+  context.fillStyle = '#FFFFFF';
+  context.textBaseline = 'middle';
+  context.textAlign = options.align;
+  const anchorX = options.align === 'left' ? padding : options.align === 'right' ? canvas.width - padding : canvas.width / 2;
+  lines.forEach((line, i) => {
+    context.fillText(line, anchorX, padding + lineHeight * (i + 0.5));
+  });
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels: number[] = [];
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      if (data[(y * canvas.width + x) * 4 + 3] > 128) {
+        pixels.push(x, y);
+      }
+    }
+  }
+
+  return { pixels, width: canvas.width, height: canvas.height };
+}
+
+// Sample particle positions from the rasterised greeting, centred on the origin
+export function generateGreetingPositions(options: GreetingOptions, count: number): Float32Array {
+  const { pixels, width, height } = rasterizeGreeting(options);
+  if (pixels.length === 0) {
+    throw new Error('Greeting text has no visible characters.');
+  }
+
+  let scale = options.size / GREETING_CONFIG.RASTER_FONT_SIZE;
+  scale = Math.min(scale, GREETING_CONFIG.MAX_WIDTH / width, GREETING_CONFIG.MAX_HEIGHT / height);
+
+  const positions = new Float32Array(count * 3);
+  const pixelCount = pixels.length / 2;
+  for (let i = 0; i < count; i++) {
+    const p = Math.floor(Math.random() * pixelCount) * 2;
+    positions[i * 3] = (pixels[p] + Math.random() - width / 2) * scale;
+    positions[i * 3 + 1] = (height / 2 - pixels[p + 1] - Math.random()) * scale;
+    positions[i * 3 + 2] = (Math.random() - 0.5) * GREETING_CONFIG.DEPTH;
+  }
+  return positions;
+}
+
+// Wrap a greeting as a shape so ThreeScene can morph into it like any other
+export function createGreetingShape(options: GreetingOptions): ShapeDefinition {
+  return {
+    // Keyed by content so ThreeScene caches each distinct greeting separately
+    id: `greeting:${encodeGreeting(options)}`,
+    name: '祝福语',
+    generate: (count) => generateGreetingPositions(options, count),
+    showTrunk: false,
+    starPosition: null,
+  };
+}
+
+// UTF-8 safe base64url so CJK and emoji survive the query string
+export function encodeGreeting(options: GreetingOptions): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(options));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeGreeting(encoded: string): GreetingOptions {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return parseGreeting(JSON.parse(new TextDecoder().decode(bytes)));
+}
+
+// Greeting shared through ?greeting=..., or null when absent or malformed
+export function getGreetingFromUrl(): GreetingOptions | null {
+  const encoded = new URLSearchParams(window.location.search).get(GREETING_CONFIG.URL_PARAM);
+  if (!encoded) return null;
+
+  try {
+    return decodeGreeting(encoded);
+  } catch (e) {
+    console.warn('Ignoring invalid shared greeting', e);
+    return null;
+  }
+}
+
+export function buildGreetingUrl(options: GreetingOptions): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(GREETING_CONFIG.URL_PARAM, encodeGreeting(options));
+  return url.toString();
+}
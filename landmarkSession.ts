@@ -0,0 +1,271 @@
+import { Landmark, Handedness, Results, RecordedFrame, RecordedSession, InputSource, PlaybackState } from './types';
+import { downloadTextFile } from './utils';
+
+const SESSION_VERSION = 1;
+
+// Read the input source from the URL, e.g. ?source=replay&session=/sessions/fist.json
+export function getInputSource(): InputSource {
+  const params = new URLSearchParams(window.location.search);
+  return params.get('source') === 'replay' ? 'REPLAY' : 'CAMERA';
+}
+
+export function getSessionUrl(): string | null {
+  const params = new URLSearchParams(window.location.search);
+  return params.get('session');
+}
+
+// Copy only the plain landmark data (MediaPipe objects also carry the video frame)
+function cloneLandmarks(hands: Landmark[][]): Landmark[][] {
+  return hands.map(hand => hand.map(({ x, y, z }) => ({ x, y, z })));
+}
+
+function cloneHandedness(handedness: Handedness[]): Handedness[] {
+  return handedness.map(({ index, score, label }) => ({ index, score, label }));
+}
+
+function frameToResults(frame: RecordedFrame, timestamp: number): Results {
+  return {
+    multiHandLandmarks: frame.multiHandLandmarks,
+    multiHandedness: frame.multiHandedness,
+    image: null,
+    timestamp,
+  };
+}
+
+const LANDMARKS_PER_HAND = 21;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Every hand must carry the full MediaPipe skeleton with finite coordinates
+function isHandList(value: unknown): value is Landmark[][] {
+  return Array.isArray(value) && value.every(hand =>
+    Array.isArray(hand) &&
+    hand.length === LANDMARKS_PER_HAND &&
+    hand.every(point => isRecord(point) && isFiniteNumber(point.x) && isFiniteNumber(point.y) && isFiniteNumber(point.z))
+  );
+}
+
+// Validate parsed JSON and return a session with frames sorted by time
+export function parseSession(data: unknown): RecordedSession {
+  if (!isRecord(data) || !Array.isArray(data.frames)) {
+    throw new Error('Invalid session file: missing frames.');
+  }
+
+  const frames: RecordedFrame[] = data.frames.map((frame: unknown, index: number) => {
+    if (!isRecord(frame) || !isFiniteNumber(frame.timestamp) || !isHandList(frame.multiHandLandmarks)) {
+      throw new Error(`Invalid session file: frame ${index} is malformed.`);
+    }
+    return {
+      timestamp: frame.timestamp,
+      multiHandLandmarks: cloneLandmarks(frame.multiHandLandmarks),
+      multiHandedness: Array.isArray(frame.multiHandedness) ? frame.multiHandedness : [],
+    };
+  });
+  frames.sort((a, b) => a.timestamp - b.timestamp);
+
+  return {
+    version: typeof data.version === 'number' ? data.version : SESSION_VERSION,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : '',
+    duration: frames.length > 0 ? frames[frames.length - 1].timestamp : 0,
+    frames,
+  };
+}
+
+export async function loadSessionFromUrl(url: string): Promise<RecordedSession> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load session: ${response.status} ${response.statusText}`);
+  }
+  return parseSession(await response.json());
+}
+
+export async function loadSessionFromFile(file: File): Promise<RecordedSession> {
+  return parseSession(JSON.parse(await file.text()));
+}
+
+// Captures the results stream into a downloadable JSON session
+export class SessionRecorder {
+  private frames: RecordedFrame[] = [];
+  private startTime: number = 0;
+  private recording: boolean = false;
+
+  public get isRecording() {
+    return this.recording;
+  }
+
+  public get frameCount() {
+    return this.frames.length;
+  }
+
+  public start() {
+    this.frames = [];
+    this.startTime = performance.now();
+    this.recording = true;
+  }
+
+  public stop() {
+    this.recording = false;
+  }
+
+  public capture(results: Results) {
+    if (!this.recording) return;
+
+    this.frames.push({
+      timestamp: performance.now() - this.startTime,
+      multiHandLandmarks: cloneLandmarks(results.multiHandLandmarks || []),
+      multiHandedness: cloneHandedness(results.multiHandedness || []),
+    });
+  }
+
+  public toSession(): RecordedSession {
+    return {
+      version: SESSION_VERSION,
+      createdAt: new Date().toISOString(),
+      duration: this.frames.length > 0 ? this.frames[this.frames.length - 1].timestamp : 0,
+      frames: this.frames,
+    };
+  }
+
+  public download(filename = `gesture-session-${Date.now()}.json`) {
+    downloadTextFile(JSON.stringify(this.toSession()), filename);
+  }
+}
+
+// Feeds a recorded session back through an onResults callback in real time
+export class SessionPlayer {
+  private session: RecordedSession | null = null;
+  private currentTime: number = 0;
+  private frameIndex: number = 0;
+  private playing: boolean = false;
+  private looping: boolean = true;
+  private lastTickTime: number = 0;
+  private animationFrameId: number | null = null;
+  private listeners = new Set<(state: PlaybackState) => void>();
+  // Emitted timestamps are the recorded ones shifted onto a clock that keeps running across
+  // loops, seeks and sessions, so hold and motion timing never sees time go backwards
+  private clockOffset: number = 0;
+  private lastEmitted: number = 0;
+
+  constructor(private onFrame: (results: Results) => void) {}
+
+  public load(session: RecordedSession) {
+    this.pause();
+    this.clockOffset = this.lastEmitted;
+    this.session = session;
+    this.currentTime = 0;
+    this.frameIndex = 0;
+    this.notify();
+  }
+
+  public play() {
+    if (!this.session || this.playing) return;
+    if (this.currentTime >= this.session.duration) {
+      this.seek(0);
+    }
+    this.playing = true;
+    this.lastTickTime = performance.now();
+    this.animationFrameId = requestAnimationFrame(this.tick);
+    this.notify();
+  }
+
+  public pause() {
+    this.playing = false;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.notify();
+  }
+
+  public setLoop(loop: boolean) {
+    this.looping = loop;
+    this.notify();
+  }
+
+  // Jump to a time (ms) and emit the frame shown at that moment
+  public seek(time: number) {
+    if (!this.session) return;
+
+    const frames = this.session.frames;
+    this.currentTime = Math.max(0, Math.min(time, this.session.duration));
+    this.frameIndex = 0;
+    while (this.frameIndex < frames.length && frames[this.frameIndex].timestamp <= this.currentTime) {
+      this.frameIndex++;
+    }
+
+    if (this.frameIndex > 0) {
+      // Continue the clock from the last emitted frame rather than jumping with the seek
+      const frame = frames[this.frameIndex - 1];
+      this.clockOffset = this.lastEmitted - frame.timestamp;
+      this.emit(frame);
+    }
+    this.notify();
+  }
+
+  public getState(): PlaybackState {
+    return {
+      isLoaded: this.session !== null,
+      isPlaying: this.playing,
+      isLooping: this.looping,
+      currentTime: this.currentTime,
+      duration: this.session ? this.session.duration : 0,
+    };
+  }
+
+  public subscribe(listener: (state: PlaybackState) => void) {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public dispose() {
+    this.pause();
+    this.listeners.clear();
+    this.session = null;
+  }
+
+  private emit(frame: RecordedFrame) {
+    this.lastEmitted = Math.max(this.lastEmitted, frame.timestamp + this.clockOffset);
+    this.onFrame(frameToResults(frame, this.lastEmitted));
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private tick = () => {
+    if (!this.session || !this.playing) return;
+
+    const now = performance.now();
+    this.currentTime += now - this.lastTickTime;
+    this.lastTickTime = now;
+
+    // Emit every frame crossed since the last tick so edge-triggered gestures are not skipped
+    const frames = this.session.frames;
+    while (this.frameIndex < frames.length && frames[this.frameIndex].timestamp <= this.currentTime) {
+      this.emit(frames[this.frameIndex]);
+      this.frameIndex++;
+    }
+
+    if (this.frameIndex >= frames.length) {
+      if (this.looping && frames.length > 0) {
+        this.currentTime = 0;
+        this.frameIndex = 0;
+        this.clockOffset += this.session.duration;
+      } else {
+        this.currentTime = this.session.duration;
+        this.pause();
+        return;
+      }
+    }
+
+    this.notify();
+    this.animationFrameId = requestAnimationFrame(this.tick);
+  };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { MotionGestureRecognizer } from './motionGestures';
+import { MotionGestureEvent } from './types';
+
+const FRAME = 33; // ms between samples, ~30 fps
+
+// Feed raw landmark positions (un-mirrored, y pointing down) one frame apart
+function track(points: [number, number][], start = 1000) {
+  const events: Omit<MotionGestureEvent, 'hand'>[] = [];
+  const recognizer = new MotionGestureRecognizer(event => events.push(event));
+  points.forEach(([x, y], i) => recognizer.addSample(x, y, start + i * FRAME));
+  return { events, recognizer };
+}
+
+const line = (from: [number, number], to: [number, number], steps: number): [number, number][] =>
+  Array.from({ length: steps + 1 }, (_, i) => [
+    from[0] + ((to[0] - from[0]) * i) / steps,
+    from[1] + ((to[1] - from[1]) * i) / steps,
+  ]);
+
+describe('MotionGestureRecognizer', () => {
+  it('reports swipes in the mirrored view', () => {
+    // Moving towards the left of the webcam image is a swipe to the user's right
+    expect(track(line([0.8, 0.5], [0.4, 0.5], 9)).events.map(e => e.type)).toEqual(['SWIPE_RIGHT']);
+    expect(track(line([0.4, 0.5], [0.8, 0.5], 9)).events.map(e => e.type)).toEqual(['SWIPE_LEFT']);
+    expect(track(line([0.5, 0.8], [0.5, 0.4], 9)).events.map(e => e.type)).toEqual(['SWIPE_UP']);
+    expect(track(line([0.5, 0.4], [0.5, 0.8], 9)).events.map(e => e.type)).toEqual(['SWIPE_DOWN']);
+  });
+
+  it('describes the movement of a swipe', () => {
+    const [event] = track(line([0.8, 0.5], [0.4, 0.5], 9)).events;
+    expect(event.direction.x).toBeCloseTo(1);
+    expect(event.direction.y).toBeCloseTo(0);
+    expect(event.velocity).toBeGreaterThan(0.8);
+    expect(event.duration).toBeGreaterThan(0);
+  });
+
+  it('ignores slow and diagonal movement', () => {
+    expect(track(line([0.8, 0.5], [0.4, 0.5], 40)).events).toEqual([]);
+    expect(track(line([0.8, 0.8], [0.5, 0.5], 9)).events).toEqual([]);
+  });
+
+  it('recognises circles in both directions', () => {
+    const circle = (sign: number): [number, number][] =>
+      Array.from({ length: 31 }, (_, i) => {
+        const angle = (sign * i * Math.PI * 2) / 30;
+        return [0.5 + Math.cos(angle) * 0.12, 0.5 + Math.sin(angle) * 0.12];
+      });
+    expect(track(circle(1)).events.map(e => e.type)).toEqual(['CIRCLE_COUNTER_CLOCKWISE']);
+    expect(track(circle(-1)).events.map(e => e.type)).toEqual(['CIRCLE_CLOCKWISE']);
+  });
+
+  it('recognises a wave', () => {
+    const wave = Array.from({ length: 22 }, (_, i): [number, number] => [
+      0.5 + Math.sin((i * FRAME * Math.PI * 2) / 300) * 0.08,
+      0.5,
+    ]);
+    expect(track(wave).events.map(e => e.type)).toEqual(['WAVE']);
+  });
+
+  it('waits for the cooldown before the next gesture', () => {
+    const there = line([0.8, 0.5], [0.4, 0.5], 9);
+    const back = line([0.4, 0.5], [0.8, 0.5], 9);
+    expect(track([...there, ...back]).events.map(e => e.type)).toEqual(['SWIPE_RIGHT']);
+
+    const pause = Array.from({ length: 20 }, (): [number, number] => [0.4, 0.5]);
+    expect(track([...there, ...pause, ...back]).events.map(e => e.type)).toEqual(['SWIPE_RIGHT', 'SWIPE_LEFT']);
+  });
+
+  it('forgets the trajectory on clear', () => {
+    const { events, recognizer } = track(line([0.8, 0.5], [0.65, 0.5], 4));
+    recognizer.clear();
+    line([0.65, 0.5], [0.5, 0.5], 4).forEach(([x, y], i) => recognizer.addSample(x, y, 1000 + (5 + i) * FRAME));
+    expect(events).toEqual([]);
+  });
+});
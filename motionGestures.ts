@@ -0,0 +1,153 @@
+import { MotionGestureEvent, MotionGestureType } from './types';
+import { MOTION_CONFIG } from './constants';
+
+interface TrajectorySample {
+  x: number;
+  y: number;
+  t: number;
+}
+
+type Detection = Omit<MotionGestureEvent, 'hand' | 'timestamp'>;
+
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+function pathLength(samples: TrajectorySample[]): number {
+  let length = 0;
+  for (let i = 1; i < samples.length; i++) {
+    length += Math.hypot(samples[i].x - samples[i - 1].x, samples[i].y - samples[i - 1].y);
+  }
+  return length;
+}
+
+function toDetection(type: MotionGestureType, samples: TrajectorySample[]): Detection {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  const distance = Math.hypot(dx, dy) || 1;
+  const duration = last.t - first.t;
+
+  return {
+    type,
+    direction: { x: dx / distance, y: dy / distance },
+    velocity: duration > 0 ? pathLength(samples) / (duration / 1000) : 0,
+    duration,
+  };
+}
+
+function detectSwipe(samples: TrajectorySample[]): Detection | null {
+  if (samples.length < 3) return null;
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const dx = last.x - first.x;
+  const dy = last.y - first.y;
+  const distance = Math.hypot(dx, dy);
+  const seconds = (last.t - first.t) / 1000;
+
+  if (distance < MOTION_CONFIG.SWIPE_MIN_DISTANCE || seconds <= 0) return null;
+  if (distance / seconds < MOTION_CONFIG.SWIPE_MIN_VELOCITY) return null;
+
+  if (Math.abs(dx) >= Math.abs(dy) * MOTION_CONFIG.SWIPE_AXIS_RATIO) {
+    return toDetection(dx > 0 ? 'SWIPE_RIGHT' : 'SWIPE_LEFT', samples);
+  }
+  if (Math.abs(dy) >= Math.abs(dx) * MOTION_CONFIG.SWIPE_AXIS_RATIO) {
+    return toDetection(dy > 0 ? 'SWIPE_UP' : 'SWIPE_DOWN', samples);
+  }
+  return null;
+}
+
+function detectCircle(samples: TrajectorySample[]): Detection | null {
+  if (samples.length < 8) return null;
+
+  const cx = samples.reduce((sum, s) => sum + s.x, 0) / samples.length;
+  const cy = samples.reduce((sum, s) => sum + s.y, 0) / samples.length;
+  const radii = samples.map(s => Math.hypot(s.x - cx, s.y - cy));
+  const meanRadius = radii.reduce((sum, r) => sum + r, 0) / radii.length;
+  if (meanRadius < MOTION_CONFIG.CIRCLE_MIN_RADIUS) return null;
+
+  // Reject lopsided paths such as a swipe that doubles back
+  const variance = radii.reduce((sum, r) => sum + (r - meanRadius) ** 2, 0) / radii.length;
+  if (Math.sqrt(variance) / meanRadius > 0.5) return null;
+
+  let turn = 0;
+  let previous = Math.atan2(samples[0].y - cy, samples[0].x - cx);
+  for (let i = 1; i < samples.length; i++) {
+    const angle = Math.atan2(samples[i].y - cy, samples[i].x - cx);
+    turn += wrapAngle(angle - previous);
+    previous = angle;
+  }
+
+  if (Math.abs(turn) < MOTION_CONFIG.CIRCLE_MIN_TURN) return null;
+  // Positive turn is counter-clockwise with y pointing up
+  return toDetection(turn > 0 ? 'CIRCLE_COUNTER_CLOCKWISE' : 'CIRCLE_CLOCKWISE', samples);
+}
+
+function detectWave(samples: TrajectorySample[]): Detection | null {
+  if (samples.length < 8) return null;
+
+  const xs = samples.map(s => s.x);
+  const ys = samples.map(s => s.y);
+  const xRange = Math.max(...xs) - Math.min(...xs);
+  const yRange = Math.max(...ys) - Math.min(...ys);
+  if (xRange < MOTION_CONFIG.WAVE_MIN_AMPLITUDE * 2 || yRange > xRange) return null;
+
+  // Count horizontal direction changes that travel at least the minimum amplitude
+  let reversals = 0;
+  let direction = 0;
+  let extreme = xs[0];
+  for (let i = 1; i < xs.length; i++) {
+    const delta = xs[i] - extreme;
+    if (direction >= 0 && xs[i] > extreme) {
+      extreme = xs[i];
+      direction = 1;
+    } else if (direction <= 0 && xs[i] < extreme) {
+      extreme = xs[i];
+      direction = -1;
+    } else if (Math.abs(delta) >= MOTION_CONFIG.WAVE_MIN_AMPLITUDE) {
+      reversals++;
+      direction = -direction;
+      extreme = xs[i];
+    }
+  }
+
+  return reversals >= MOTION_CONFIG.WAVE_MIN_REVERSALS ? toDetection('WAVE', samples) : null;
+}
+
+// Buffers recent hand positions and recognises swipes, circles and waves
+export class MotionGestureRecognizer {
+  private samples: TrajectorySample[] = [];
+  private lastDetection: number = -Infinity;
+
+  constructor(private onGesture: (event: Detection & { timestamp: number }) => void) {}
+
+  // x/y are raw normalised landmark coordinates; they are mirrored and flipped to the user's view
+  public addSample(x: number, y: number, timestamp: number) {
+    this.samples.push({ x: 1 - x, y: 1 - y, t: timestamp });
+    if (this.samples.length > MOTION_CONFIG.MAX_SAMPLES) {
+      this.samples.shift();
+    }
+
+    if (timestamp - this.lastDetection < MOTION_CONFIG.COOLDOWN) return;
+
+    const detection =
+      detectCircle(this.window(MOTION_CONFIG.CIRCLE_WINDOW, timestamp)) ||
+      detectWave(this.window(MOTION_CONFIG.WAVE_WINDOW, timestamp)) ||
+      detectSwipe(this.window(MOTION_CONFIG.SWIPE_WINDOW, timestamp));
+
+    if (detection) {
+      this.lastDetection = timestamp;
+      this.samples = [];
+      this.onGesture({ ...detection, timestamp });
+    }
+  }
+
+  // Drop the trajectory, e.g. when the hand is lost or closes into a fist
+  public clear() {
+    this.samples = [];
+  }
+
+  private window(duration: number, timestamp: number) {
+    return this.samples.filter(s => timestamp - s.t <= duration);
+  }
+}
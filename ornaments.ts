@@ -0,0 +1,87 @@
+import { OrnamentType, PlacedOrnament } from './types';
+import { DECORATE_CONFIG } from './constants';
+
+const ORNAMENT_TYPES: OrnamentType[] = ['bauble', 'glass', 'bow', 'star'];
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Validate a stored ornament; returns null for anything malformed
+function parseOrnament(data: any): PlacedOrnament | null {
+  if (!data || typeof data.id !== 'string' || !ORNAMENT_TYPES.includes(data.type)) return null;
+  if (typeof data.color !== 'string') return null;
+  if (!Array.isArray(data.position) || data.position.length !== 3 || !data.position.every(isNumber)) return null;
+  return { id: data.id, type: data.type, color: data.color, position: [data.position[0], data.position[1], data.position[2]] };
+}
+
+// Ornaments placed in decorate mode, persisted in localStorage
+export class OrnamentStore {
+  private ornaments: PlacedOrnament[] = [];
+  private listeners = new Set<(ornaments: PlacedOrnament[]) => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  public list(): PlacedOrnament[] {
+    return [...this.ornaments];
+  }
+
+  // Oldest ornaments drop off once the limit is reached
+  public add(ornament: Omit<PlacedOrnament, 'id'>): PlacedOrnament {
+    const placed = { ...ornament, id: `ornament-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+    this.ornaments = [...this.ornaments, placed].slice(-DECORATE_CONFIG.MAX_ORNAMENTS);
+    this.persist();
+    return placed;
+  }
+
+  public undo() {
+    if (this.ornaments.length === 0) return;
+    this.ornaments = this.ornaments.slice(0, -1);
+    this.persist();
+  }
+
+  public clear() {
+    this.ornaments = [];
+    this.persist();
+  }
+
+  public subscribe(listener: (ornaments: PlacedOrnament[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load() {
+    try {
+      const stored = localStorage.getItem(DECORATE_CONFIG.STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      if (!Array.isArray(data)) return;
+
+      data.forEach((entry: any) => {
+        const ornament = parseOrnament(entry);
+        if (ornament) {
+          this.ornaments.push(ornament);
+        } else {
+          console.warn('Skipping invalid stored ornament', entry);
+        }
+      });
+    } catch (e) {
+      console.warn('Failed to load stored ornaments', e);
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(DECORATE_CONFIG.STORAGE_KEY, JSON.stringify(this.ornaments));
+    } catch (e) {
+      console.warn('Failed to persist ornaments', e);
+    }
+    const ornaments = this.list();
+    this.listeners.forEach(listener => listener(ornaments));
+  }
+}
+
+export const ornamentStore = new OrnamentStore();
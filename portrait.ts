@@ -0,0 +1,98 @@
+import * as THREE from 'three';
+import { PortraitImage, ShapeDefinition } from './types';
+import { PORTRAIT_CONFIG } from './constants';
+
+// Decode a local image file and downscale it so sampling stays cheap
+export async function loadPortraitImage(file: File): Promise<PortraitImage> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`"${file.name}" is not an image file.`);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`Could not decode image "${file.name}".`);
+  }
+
+  const scale = Math.min(1, PORTRAIT_CONFIG.SAMPLE_RESOLUTION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available.');
+
+  // The canvas starts transparent, so PNG alpha is preserved
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return { width, height, data: context.getImageData(0, 0, width, height).data };
+}
+
+// Sample positions and colours for count particles from the opaque pixels.
+// Brightness is pushed towards the camera for a relief effect.
+export function samplePortrait(image: PortraitImage, count: number) {
+  const { width, height, data } = image;
+  const opaque: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] > PORTRAIT_CONFIG.ALPHA_THRESHOLD) {
+      opaque.push(i);
+    }
+  }
+  if (opaque.length === 0) {
+    throw new Error('The image has no opaque pixels.');
+  }
+
+  // Fit inside the frame while keeping the aspect ratio
+  const scale = Math.min(PORTRAIT_CONFIG.MAX_WIDTH / width, PORTRAIT_CONFIG.MAX_HEIGHT / height);
+  const positions = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  const color = new THREE.Color();
+
+  for (let i = 0; i < count; i++) {
+    // Sampled with replacement, so any particle count works for any image size
+    const pixel = opaque[Math.floor(Math.random() * opaque.length)];
+    const px = pixel % width;
+    const py = Math.floor(pixel / width);
+    const r = data[pixel * 4] / 255;
+    const g = data[pixel * 4 + 1] / 255;
+    const b = data[pixel * 4 + 2] / 255;
+    const brightness = 0.299 * r + 0.587 * g + 0.114 * b;
+
+    positions[i * 3] = (px + Math.random() - width / 2) * scale;
+    positions[i * 3 + 1] = (height / 2 - py - Math.random()) * scale;
+    positions[i * 3 + 2] = (brightness - 0.5) * PORTRAIT_CONFIG.RELIEF_DEPTH;
+
+    // Image pixels are sRGB; particle colours are linear like the theme palette
+    color.setRGB(r, g, b, THREE.SRGBColorSpace).multiplyScalar(PORTRAIT_CONFIG.COLOR_INTENSITY);
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+
+  return { positions, colors };
+}
+
+// A photo shape, sampled up front for count particles so an unusable image fails here.
+// The particle count can change later; generate then resamples and swaps in matching colours.
+export function createPortraitShape(image: PortraitImage, name: string, count: number): ShapeDefinition {
+  let sample = samplePortrait(image, count);
+  const shape: ShapeDefinition = {
+    id: `portrait:${Date.now()}`,
+    name,
+    generate: (particleCount) => {
+      if (particleCount * 3 !== sample.positions.length) {
+        sample = samplePortrait(image, particleCount);
+        shape.colors = sample.colors;
+      }
+      return sample.positions;
+    },
+    showTrunk: false,
+    starPosition: null,
+    colors: sample.colors,
+  };
+  return shape;
+}
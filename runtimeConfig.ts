@@ -0,0 +1,452 @@
+import { ConfigIssue, ConfigSource, RuntimeConfig, RuntimeConfigPatch } from './types';
+import {
+  ANIMATION_CONFIG,
+  AUDIO_CONFIG,
+  FIREWORKS_CONFIG,
+  GESTURE_THRESHOLDS,
+  PARTICLE_CONFIG,
+  RENDER_CONFIG,
+  RUNTIME_CONFIG,
+  SNOW_CONFIG,
+  TRACKING_CONFIG,
+  ZOOM_CONFIG
+} from './constants';
+import { setDefaultGestureThresholds } from './utils';
+
+interface FieldRule {
+  min: number;
+  max: number;
+  integer?: boolean;
+}
+
+// A list of objects with the same numeric fields, e.g. FIREWORKS_CONFIG.LAYERS
+interface ListRule {
+  fields: Record<string, FieldRule>;
+  minLength: number;
+  maxLength: number;
+}
+
+type Rule = FieldRule | ListRule;
+
+type Section = keyof RuntimeConfig;
+
+// A cross-field rule the per-value ranges can't express
+interface ConsistencyRule {
+  section: Section;
+  keys: string[]; // Restored from the previous layer when the rule breaks
+  holds: (config: RuntimeConfig) => boolean;
+  message: string;
+}
+
+type LayerSource = Exclude<ConfigSource, 'attribute'>;
+
+const THRESHOLD_RULE: FieldRule = { min: 0, max: 1 };
+
+// Accepted range of every configurable value
+const SCHEMA: { [S in Section]: Record<keyof RuntimeConfig[S], Rule> } = {
+  PARTICLE_CONFIG: {
+    COUNT: { min: 100, max: 50000, integer: true },
+  },
+  RENDER_CONFIG: {
+    CAMERA_FOV: { min: 10, max: 120 },
+    CAMERA_NEAR: { min: 0.01, max: 100 },
+    CAMERA_FAR: { min: 10, max: 10000 },
+    FOG_DENSITY: { min: 0, max: 0.2 },
+    BLOOM_STRENGTH: { min: 0, max: 5 },
+    BLOOM_RADIUS: { min: 0, max: 1 },
+    BLOOM_THRESHOLD: { min: 0, max: 1 },
+  },
+  ANIMATION_CONFIG: {
+    GRAVITY_STRENGTH: { min: 0, max: 1 },
+    EXPLOSION_STRENGTH: { min: 0, max: 1 },
+    DAMPING: { min: 0, max: 1 },
+    BROWN_MOTION: { min: 0, max: 1 },
+    ROTATION_SPEED_X: { min: 0, max: 10 },
+    ROTATION_SPEED_Y: { min: 0, max: 10 },
+    FIXED_TIMESTEP: { min: 1 / 240, max: 1 / 15 },
+    MAX_FRAME_DELTA: { min: 0.01, max: 1 },
+    MAX_STEPS_PER_FRAME: { min: 1, max: 32, integer: true },
+    IDLE_SPIN_SPEED: { min: 0, max: 5 },
+    TRUNK_SPIN_SPEED: { min: 0, max: 5 },
+  },
+  SNOW_CONFIG: {
+    COUNT: { min: 0, max: 20000, integer: true },
+    SIZE: { min: 0.01, max: 2 },
+    OPACITY: { min: 0, max: 1 },
+  },
+  FIREWORKS_CONFIG: {
+    LIFETIME: { min: 0.1, max: 10 },
+    GRAVITY: { min: 0, max: 0.2 },
+    AIR_RESISTANCE: { min: 0.5, max: 1 },
+    ROCKET_DURATION: { min: 0.1, max: 5 },
+    ROCKET_LAUNCH_Y: { min: -100, max: 0 },
+    ROCKET_TRAIL_COUNT: { min: 1, max: 1000, integer: true },
+    ROCKET_TRAIL_LIFETIME: { min: 0.05, max: 5 },
+    ROCKET_TRAIL_SPAWN: { min: 0, max: 50, integer: true },
+    MAX_BURSTS: { min: 1, max: 32, integer: true },
+    MAX_ROCKETS: { min: 1, max: 32, integer: true },
+    LAYERS: {
+      fields: {
+        COUNT: { min: 1, max: 2000, integer: true },
+        SPEED: { min: 0, max: 5 },
+        SIZE: { min: 0.01, max: 5 },
+        DELAY: { min: 0, max: 5 },
+      },
+      minLength: 1,
+      maxLength: 8,
+    },
+  },
+  ZOOM_CONFIG: {
+    DEFAULT_DISTANCE: { min: 5, max: 200 },
+    MIN_DISTANCE: { min: 5, max: 200 },
+    MAX_DISTANCE: { min: 5, max: 200 },
+    NEAR_PALM_SPAN: { min: 0.01, max: 1 },
+    FAR_PALM_SPAN: { min: 0, max: 1 },
+    DEAD_ZONE: { min: 0, max: 0.45 },
+    SMOOTHING: { min: 0.01, max: 1 },
+  },
+  AUDIO_CONFIG: {
+    SIZE_BOOST: { min: 0, max: 5 },
+    ALPHA_BOOST: { min: 0, max: 5 },
+    BLOOM_BOOST: { min: 0, max: 5 },
+    STAR_PULSE: { min: 0, max: 5 },
+    PULSE_DECAY: { min: 0, max: 50 },
+    AUTO_FIREWORK_STRENGTH: { min: 0, max: 1 },
+    AUTO_FIREWORK_COOLDOWN: { min: 0, max: 10 },
+  },
+  TRACKING_CONFIG: {
+    MAX_NUM_HANDS: { min: 1, max: 2, integer: true },
+    MODEL_COMPLEXITY: { min: 0, max: 1, integer: true },
+    MIN_DETECTION_CONFIDENCE: { min: 0, max: 1 },
+    MIN_TRACKING_CONFIDENCE: { min: 0, max: 1 },
+    CAMERA_WIDTH: { min: 160, max: 1920, integer: true },
+    CAMERA_HEIGHT: { min: 120, max: 1080, integer: true },
+  },
+  GESTURE_THRESHOLDS: {
+    THUMB_CURLED_MIN: THRESHOLD_RULE,
+    INDEX_CURLED_MIN: THRESHOLD_RULE,
+    MIDDLE_CURLED_MIN: THRESHOLD_RULE,
+    RING_CURLED_MIN: THRESHOLD_RULE,
+    PINKY_CURLED_MIN: THRESHOLD_RULE,
+    THUMB_EXTENDED_MAX: THRESHOLD_RULE,
+    INDEX_EXTENDED_MAX: THRESHOLD_RULE,
+    MIDDLE_EXTENDED_MAX: THRESHOLD_RULE,
+    RING_EXTENDED_MAX: THRESHOLD_RULE,
+    PINKY_EXTENDED_MAX: THRESHOLD_RULE,
+  },
+};
+
+const SECTIONS = Object.keys(SCHEMA) as Section[];
+
+const CONSISTENCY_RULES: ConsistencyRule[] = [
+  {
+    section: 'RENDER_CONFIG',
+    keys: ['CAMERA_NEAR', 'CAMERA_FAR'],
+    holds: ({ RENDER_CONFIG: render }) => render.CAMERA_NEAR < render.CAMERA_FAR,
+    message: 'CAMERA_NEAR must be smaller than CAMERA_FAR.',
+  },
+  {
+    section: 'ZOOM_CONFIG',
+    keys: ['MIN_DISTANCE', 'DEFAULT_DISTANCE', 'MAX_DISTANCE'],
+    holds: ({ ZOOM_CONFIG: zoom }) => zoom.MIN_DISTANCE <= zoom.DEFAULT_DISTANCE && zoom.DEFAULT_DISTANCE <= zoom.MAX_DISTANCE,
+    message: 'DEFAULT_DISTANCE must lie between MIN_DISTANCE and MAX_DISTANCE.',
+  },
+  {
+    section: 'ZOOM_CONFIG',
+    keys: ['FAR_PALM_SPAN', 'NEAR_PALM_SPAN'],
+    holds: ({ ZOOM_CONFIG: zoom }) => zoom.FAR_PALM_SPAN < zoom.NEAR_PALM_SPAN,
+    message: 'FAR_PALM_SPAN must be smaller than NEAR_PALM_SPAN.',
+  },
+];
+
+const isSection = (key: string): key is Section => (SECTIONS as string[]).includes(key);
+
+// Untrusted keys like "constructor" must not resolve through the prototype
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// Query parameters like ?RENDER_CONFIG.BLOOM_STRENGTH=1.5
+const URL_PARAM_PATTERN = /^[A-Z][A-Z_]*\.[A-Z][A-Z_]*$/;
+
+function createDefaults(): RuntimeConfig {
+  const { SIZE_BOOST, ALPHA_BOOST, BLOOM_BOOST, STAR_PULSE, PULSE_DECAY, AUTO_FIREWORK_STRENGTH, AUTO_FIREWORK_COOLDOWN } = AUDIO_CONFIG;
+  return {
+    PARTICLE_CONFIG: { ...PARTICLE_CONFIG },
+    RENDER_CONFIG: { ...RENDER_CONFIG },
+    ANIMATION_CONFIG: { ...ANIMATION_CONFIG },
+    SNOW_CONFIG: { ...SNOW_CONFIG },
+    FIREWORKS_CONFIG: { ...FIREWORKS_CONFIG, LAYERS: FIREWORKS_CONFIG.LAYERS.map(layer => ({ ...layer })) },
+    ZOOM_CONFIG: { ...ZOOM_CONFIG },
+    AUDIO_CONFIG: { SIZE_BOOST, ALPHA_BOOST, BLOOM_BOOST, STAR_PULSE, PULSE_DECAY, AUTO_FIREWORK_STRENGTH, AUTO_FIREWORK_COOLDOWN },
+    TRACKING_CONFIG: { ...TRACKING_CONFIG },
+    GESTURE_THRESHOLDS: { ...GESTURE_THRESHOLDS },
+  };
+}
+
+const isListRule = (rule: Rule): rule is ListRule => 'fields' in rule;
+
+function checkNumber(value: unknown, rule: FieldRule): string | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `Expected a number, got ${JSON.stringify(value)}.`;
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    return `Expected an integer, got ${value}.`;
+  }
+  if (value < rule.min || value > rule.max) {
+    return `Expected a value between ${rule.min} and ${rule.max}, got ${value}.`;
+  }
+  return null;
+}
+
+function checkList(value: unknown, rule: ListRule): string | null {
+  if (!Array.isArray(value)) {
+    return `Expected a list, got ${JSON.stringify(value)}.`;
+  }
+  if (value.length < rule.minLength || value.length > rule.maxLength) {
+    return `Expected ${rule.minLength} to ${rule.maxLength} entries, got ${value.length}.`;
+  }
+  for (let i = 0; i < value.length; i++) {
+    const item = value[i];
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return `Entry ${i} must be an object.`;
+    }
+    const unknownKey = Object.keys(item).find(key => !hasOwn(rule.fields, key));
+    if (unknownKey) {
+      return `Entry ${i} has an unknown setting ${unknownKey}.`;
+    }
+    for (const key of Object.keys(rule.fields)) {
+      const message = hasOwn(item, key) ? checkNumber(item[key], rule.fields[key]) : 'Missing value.';
+      if (message) return `Entry ${i} ${key}: ${message}`;
+    }
+  }
+  return null;
+}
+
+const checkValue = (value: unknown, rule: Rule) => (isListRule(rule) ? checkList(value, rule) : checkNumber(value, rule));
+
+// Keep the valid values of a partial config and describe everything else
+function validatePatch(data: any, source: ConfigSource): { patch: RuntimeConfigPatch; issues: ConfigIssue[] } {
+  const patch: RuntimeConfigPatch = {};
+  const issues: ConfigIssue[] = [];
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    issues.push({ source, path: '', message: 'Config must be a JSON object.' });
+    return { patch, issues };
+  }
+
+  Object.entries(data).forEach(([section, values]) => {
+    if (!isSection(section)) {
+      issues.push({ source, path: section, message: `Unknown config section. Expected one of ${SECTIONS.join(', ')}.` });
+      return;
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      issues.push({ source, path: section, message: 'Expected an object of values.' });
+      return;
+    }
+    const rules: Record<string, Rule> = SCHEMA[section];
+
+    Object.entries(values).forEach(([key, value]) => {
+      const path = `${section}.${key}`;
+      if (!hasOwn(rules, key)) {
+        issues.push({ source, path, message: 'Unknown setting.' });
+        return;
+      }
+      const message = checkValue(value, rules[key]);
+      if (message) {
+        issues.push({ source, path, message });
+        return;
+      }
+      const target = (patch[section] || (patch[section] = {})) as Record<string, unknown>;
+      target[key] = Array.isArray(value) ? value.map(item => ({ ...item })) : value;
+    });
+  });
+
+  return { patch, issues };
+}
+
+function mergeConfig<T extends RuntimeConfigPatch>(base: T, patch: RuntimeConfigPatch): T {
+  const merged: Record<string, Record<string, unknown>> = { ...base };
+  Object.entries(patch).forEach(([section, values]) => {
+    merged[section] = { ...merged[section], ...values };
+  });
+  return merged as T;
+}
+
+const findConflicts = (config: RuntimeConfig) => CONSISTENCY_RULES.filter(rule => !rule.holds(config));
+
+const describeConflict = (rule: ConsistencyRule) => ({ path: `${rule.section}.${rule.keys[0]}`, message: rule.message });
+
+// Put back the values a broken rule covers, e.g. keep the previous camera range rather than one that clips everything
+function restoreConflict(config: RuntimeConfig, fallback: RuntimeConfig, rule: ConsistencyRule) {
+  const previous = fallback[rule.section] as Record<string, unknown>;
+  const values: Record<string, unknown> = { ...config[rule.section] };
+  rule.keys.forEach(key => {
+    values[key] = previous[key];
+  });
+  (config as Record<Section, unknown>)[rule.section] = values;
+}
+
+function parseUrlParams(search: string): Record<string, Record<string, unknown>> {
+  const data: Record<string, Record<string, unknown>> = {};
+  new URLSearchParams(search).forEach((raw, name) => {
+    if (!URL_PARAM_PATTERN.test(name)) return;
+    const [section, key] = name.split('.');
+    const value = raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+    (data[section] || (data[section] = {}))[key] = value;
+  });
+  return data;
+}
+
+// Defaults with a single override applied, outside the app's layers (e.g. the config
+// attribute of <gesture-tree>). Invalid values are skipped and returned as issues.
+export function resolveConfig(data: unknown, source: ConfigSource): { config: RuntimeConfig; issues: ConfigIssue[] } {
+  const defaults = createDefaults();
+  const { patch, issues } = validatePatch(data, source);
+  const config = mergeConfig(defaults, patch);
+  findConflicts(config).forEach(rule => {
+    issues.push({ source, ...describeConflict(rule) });
+    restoreConflict(config, defaults, rule);
+  });
+  return { config, issues };
+}
+
+// Settings layered over the constants: defaults < config.json < localStorage < URL.
+// Invalid values are skipped and reported through getIssues() instead of breaking startup.
+export class RuntimeConfigStore {
+  private readonly defaults = createDefaults();
+  private layers: Record<LayerSource, RuntimeConfigPatch> = { file: {}, storage: {}, url: {} };
+  private layerIssues: Record<LayerSource, ConfigIssue[]> = { file: [], storage: [], url: [] };
+  private config: RuntimeConfig = this.defaults;
+  private issues: ConfigIssue[] = [];
+  private listeners = new Set<(config: RuntimeConfig) => void>();
+
+  constructor() {
+    this.loadStorage();
+    this.setLayer('url', parseUrlParams(window.location.search));
+    this.recompute();
+  }
+
+  public get(): RuntimeConfig {
+    return this.config;
+  }
+
+  public getDefaults(): RuntimeConfig {
+    return this.defaults;
+  }
+
+  public getIssues(): ConfigIssue[] {
+    return [...this.issues];
+  }
+
+  // Fetch the JSON config file. A missing default file is fine; a missing ?config= file is reported.
+  public async loadFile(): Promise<void> {
+    const requested = new URLSearchParams(window.location.search).get(RUNTIME_CONFIG.FILE_PARAM);
+    const url = requested || RUNTIME_CONFIG.FILE_URL;
+    try {
+      const response = await fetch(url, { cache: 'no-cache' });
+      // Dev servers answer missing files with index.html
+      const isJson = (response.headers.get('content-type') || '').includes('json');
+      if (!requested && (response.status === 404 || (response.ok && !isJson))) return;
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      this.setLayer('file', await response.json());
+    } catch (e: any) {
+      console.warn('Failed to load config file', e);
+      this.layers.file = {};
+      this.layerIssues.file = [{ source: 'file', path: '', message: `Failed to load ${url}: ${e.message}` }];
+    }
+    this.recompute();
+  }
+
+  // Apply edits made in the app and remember them. Edits win over URL parameters for this session.
+  public update(patch: RuntimeConfigPatch) {
+    const { patch: valid, issues } = validatePatch(patch, 'storage');
+    if (issues.length > 0) {
+      throw new Error(issues.map(issue => `${issue.path}: ${issue.message}`).join(' '));
+    }
+    const [conflict] = findConflicts(mergeConfig(this.config, valid));
+    if (conflict) {
+      const { path, message } = describeConflict(conflict);
+      throw new Error(`${path}: ${message}`);
+    }
+
+    this.layers.storage = mergeConfig(this.layers.storage, valid);
+    Object.entries(valid).forEach(([section, values]) => {
+      if (!isSection(section)) return;
+      const overridden = this.layers.url[section] as Record<string, unknown> | undefined;
+      if (overridden) Object.keys(values).forEach(key => delete overridden[key]);
+    });
+    this.persist();
+    this.recompute();
+  }
+
+  // Drop saved edits and URL overrides; config.json still applies
+  public reset() {
+    this.layers.storage = {};
+    this.layers.url = {};
+    this.layerIssues.storage = [];
+    this.layerIssues.url = [];
+    this.persist();
+    this.recompute();
+  }
+
+  public subscribe(listener: (config: RuntimeConfig) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Full current config, in the format config.json accepts
+  public toJson(): string {
+    return JSON.stringify(this.config, null, 2);
+  }
+
+  private setLayer(source: LayerSource, data: unknown) {
+    const { patch, issues } = validatePatch(data, source);
+    this.layers[source] = patch;
+    this.layerIssues[source] = issues;
+    issues.forEach(issue => console.warn(`Invalid config (${source}) ${issue.path}: ${issue.message}`));
+  }
+
+  private recompute() {
+    const issues: ConfigIssue[] = [];
+    let config = this.defaults;
+    (['file', 'storage', 'url'] as LayerSource[]).forEach(source => {
+      issues.push(...this.layerIssues[source]);
+      const next = mergeConfig(config, this.layers[source]);
+      findConflicts(next).forEach(rule => {
+        issues.push({ source, ...describeConflict(rule) });
+        restoreConflict(next, config, rule);
+      });
+      config = next;
+    });
+
+    this.config = config;
+    this.issues = issues;
+    setDefaultGestureThresholds(config.GESTURE_THRESHOLDS);
+    this.listeners.forEach(listener => listener(config));
+  }
+
+  private loadStorage() {
+    try {
+      const stored = localStorage.getItem(RUNTIME_CONFIG.STORAGE_KEY);
+      if (stored) this.setLayer('storage', JSON.parse(stored));
+    } catch (e) {
+      console.warn('Failed to load runtime config', e);
+    }
+  }
+
+  private persist() {
+    try {
+      if (Object.keys(this.layers.storage).length > 0) {
+        localStorage.setItem(RUNTIME_CONFIG.STORAGE_KEY, JSON.stringify(this.layers.storage));
+      } else {
+        localStorage.removeItem(RUNTIME_CONFIG.STORAGE_KEY);
+      }
+    } catch (e) {
+      console.warn('Failed to persist runtime config', e);
+    }
+  }
+}
+
+export const runtimeConfig = new RuntimeConfigStore();
@@ -0,0 +1,122 @@
+import { RecordingState } from './types';
+import { CAPTURE_CONFIG } from './constants';
+
+function getSupportedMimeType(): string {
+  const supported = CAPTURE_CONFIG.VIDEO_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!supported) {
+    throw new Error('This browser cannot record WebM video.');
+  }
+  return supported;
+}
+
+// Timestamped file name, e.g. christmas-tree-2025-12-24-18-30-00.webm
+export function getCaptureFilename(extension: string) {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  return `christmas-tree-${stamp}.${extension}`;
+}
+
+// Burn the greeting into a snapshot, styled like the on-screen overlay
+export function drawGreetingOverlay(context: CanvasRenderingContext2D, text: string, width: number, height: number) {
+  const lines = text.split('\n');
+  const fontSize = Math.round(height * 0.08);
+  context.save();
+  context.font = `900 ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'top';
+  context.fillStyle = '#fef9c3';
+  context.shadowColor = 'rgba(255, 215, 0, 0.8)';
+  context.shadowBlur = fontSize * 0.5;
+  lines.forEach((line, i) => {
+    context.fillText(line, width / 2, height * 0.06 + i * fontSize * 1.1);
+  });
+  context.restore();
+}
+
+// Records the renderer canvas to WebM, optionally mixing in audio streams
+export class SceneRecorder {
+  private recorder: MediaRecorder | null = null;
+  private mixer: AudioContext | null = null;
+  private chunks: Blob[] = [];
+  private startedAt: number = 0;
+  private listeners = new Set<(state: RecordingState) => void>();
+
+  public get isRecording() {
+    return this.recorder !== null;
+  }
+
+  public start(canvas: HTMLCanvasElement, audioStreams: MediaStream[] = []) {
+    if (this.recorder) return;
+    const mimeType = getSupportedMimeType();
+    const stream = canvas.captureStream(CAPTURE_CONFIG.VIDEO_FPS);
+
+    // Each audio source lives in its own AudioContext, so mix them into one track here
+    if (audioStreams.length > 0) {
+      this.mixer = new AudioContext();
+      const destination = this.mixer.createMediaStreamDestination();
+      audioStreams.forEach(audio => {
+        this.mixer!.createMediaStreamSource(audio).connect(destination);
+      });
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    }
+
+    this.chunks = [];
+    this.recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: CAPTURE_CONFIG.VIDEO_BITRATE,
+    });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.recorder.start(1000);
+    this.startedAt = performance.now();
+    this.notify();
+  }
+
+  // Resolves with the finished WebM once the recorder has flushed its last chunk
+  public stop(): Promise<Blob> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      return Promise.reject(new Error('Not recording.'));
+    }
+
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        this.mixer?.close();
+        this.mixer = null;
+        resolve(new Blob(this.chunks, { type: recorder.mimeType }));
+        this.chunks = [];
+      };
+      recorder.stop();
+      this.recorder = null;
+      this.notify();
+    });
+  }
+
+  public getState(): RecordingState {
+    return { isRecording: this.isRecording, startedAt: this.startedAt };
+  }
+
+  public subscribe(listener: (state: RecordingState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  public dispose() {
+    if (this.recorder) {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+      this.recorder.stream.getTracks().forEach(track => track.stop());
+      this.recorder = null;
+    }
+    this.mixer?.close();
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,72 @@
+// WebSocket relay for shared tree sessions.
+// Clients connect to ws://host:PORT/?room=CODE and every message is forwarded to the
+// other clients in the same room. The relay never looks inside the messages.
+//
+//   npm run relay            (PORT defaults to 8787)
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_PATTERN = /^[A-Z0-9]{4,12}$/;
+const MAX_PAYLOAD = 64 * 1024; // Bytes; themes are the largest messages
+const MAX_CLIENTS_PER_ROOM = 32;
+const HEARTBEAT_INTERVAL = 30_000; // ms; clients that miss a pong are dropped
+
+/** @type {Map<string, Set<import('ws').WebSocket>>} */
+const rooms = new Map();
+
+const server = new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+server.on('connection', (socket, request) => {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const room = (url.searchParams.get('room') || '').toUpperCase();
+  if (!ROOM_PATTERN.test(room)) {
+    socket.close(4000, 'Room code must be 4-12 letters or digits.');
+    return;
+  }
+
+  const members = rooms.get(room) || new Set();
+  if (members.size >= MAX_CLIENTS_PER_ROOM) {
+    socket.close(4001, 'Room is full.');
+    return;
+  }
+  members.add(socket);
+  rooms.set(room, members);
+  console.log(`[${room}] joined (${members.size} connected)`);
+
+  socket.isAlive = true;
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+
+  socket.on('message', (data, isBinary) => {
+    members.forEach(peer => {
+      if (peer !== socket && peer.readyState === peer.OPEN) {
+        peer.send(data, { binary: isBinary });
+      }
+    });
+  });
+
+  socket.on('close', () => {
+    members.delete(socket);
+    if (members.size === 0) rooms.delete(room);
+    console.log(`[${room}] left (${members.size} connected)`);
+  });
+
+  socket.on('error', (error) => {
+    console.warn(`[${room}] socket error:`, error.message);
+  });
+});
+
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!socket.isAlive) {
+      socket.terminate();
+      return;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  });
+}, HEARTBEAT_INTERVAL);
+
+server.on('close', () => clearInterval(heartbeat));
+server.on('listening', () => console.log(`Gesture tree relay listening on ws://localhost:${PORT}`));
@@ -0,0 +1,309 @@
+import { ShapeDefinition } from './types';
+import { TREE_CONFIG } from './constants';
+import { calculateTreeParticlePositions } from './utils';
+
+type Point2 = [number, number];
+
+const jitter = (amount: number) => (Math.random() - 0.5) * amount;
+
+function isInsidePolygon(x: number, y: number, polygon: Point2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Write a random point on a sphere surface (slightly thickened) into positions at i3
+function writeSpherePoint(positions: Float32Array, i3: number, cx: number, cy: number, cz: number, radius: number) {
+  const theta = Math.random() * Math.PI * 2;
+  const phi = Math.acos(2 * Math.random() - 1);
+  const r = radius * (0.92 + Math.random() * 0.08);
+  positions[i3] = cx + r * Math.sin(phi) * Math.cos(theta);
+  positions[i3 + 1] = cy + r * Math.cos(phi);
+  positions[i3 + 2] = cz + r * Math.sin(phi) * Math.sin(theta);
+}
+
+// Write a random point inside a capsule (segment with radius) in the xy plane
+function writeCapsulePoint(positions: Float32Array, i3: number, from: Point2, to: Point2, radius: number, depth: number) {
+  const t = Math.random();
+  const angle = Math.random() * Math.PI * 2;
+  const r = radius * Math.sqrt(Math.random());
+  positions[i3] = from[0] + (to[0] - from[0]) * t + Math.cos(angle) * r;
+  positions[i3 + 1] = from[1] + (to[1] - from[1]) * t + Math.sin(angle) * r;
+  positions[i3 + 2] = jitter(depth);
+}
+
+function generateStar(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const outer = 11;
+  const inner = 4.4;
+  const polygon: Point2[] = [];
+  for (let k = 0; k < 10; k++) {
+    const angle = Math.PI / 2 + (k * Math.PI) / 5;
+    const r = k % 2 === 0 ? outer : inner;
+    polygon.push([Math.cos(angle) * r, Math.sin(angle) * r]);
+  }
+
+  for (let i = 0; i < count; i++) {
+    let x: number, y: number;
+    do {
+      x = (Math.random() * 2 - 1) * outer;
+      y = (Math.random() * 2 - 1) * outer;
+    } while (!isInsidePolygon(x, y, polygon));
+
+    // Puffier in the middle, thin at the tips
+    const thickness = 1.8 * (1 - Math.hypot(x, y) / outer);
+    positions[i * 3] = x;
+    positions[i * 3 + 1] = y;
+    positions[i * 3 + 2] = jitter(2 * thickness);
+  }
+  return positions;
+}
+
+function generateHeart(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const scale = 8;
+
+  for (let i = 0; i < count; i++) {
+    // Taubin heart surface, z up: (x² + 9/4 y² + z² − 1)³ − x² z³ − 9/80 y² z³ ≤ 0
+    let x: number, y: number, z: number, f: number;
+    do {
+      x = (Math.random() * 2 - 1) * 1.5;
+      y = (Math.random() * 2 - 1) * 1.5;
+      z = (Math.random() * 2 - 1) * 1.5;
+      const a = x * x + 2.25 * y * y + z * z - 1;
+      f = a * a * a - x * x * z * z * z - 0.1125 * y * y * z * z * z;
+    } while (f > 0);
+
+    positions[i * 3] = x * scale;
+    positions[i * 3 + 1] = z * scale;
+    positions[i * 3 + 2] = y * scale;
+  }
+  return positions;
+}
+
+function generateSnowman(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const spheres = [
+    { y: -7, r: 6 },
+    { y: 2, r: 4.5 },
+    { y: 9, r: 3 },
+  ];
+  // Share particles by surface area
+  const totalArea = spheres.reduce((sum, s) => sum + s.r * s.r, 0);
+  const armShare = 0.05;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    let pick = Math.random();
+
+    if (pick < armShare) {
+      const side = pick < armShare / 2 ? -1 : 1;
+      writeCapsulePoint(positions, i3, [side * 4.2, 3], [side * 9, 6.5], 0.25, 0.5);
+      continue;
+    }
+
+    pick = Math.random() * totalArea;
+    const sphere = spheres.find(s => (pick -= s.r * s.r) <= 0) || spheres[0];
+    writeSpherePoint(positions, i3, 0, sphere.y, 0, sphere.r);
+  }
+  return positions;
+}
+
+function generateBell(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const bottom = -9;
+  const height = 18;
+  const profile = (h: number) => 2.5 + 5.5 * Math.pow(1 - h, 1.8) + 1.2 * Math.max(0, 1 - h * 8);
+  const maxRadius = profile(0);
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const pick = Math.random();
+
+    if (pick < 0.05) {
+      // Clapper
+      writeSpherePoint(positions, i3, 0, bottom - 0.8, 0, 1.3);
+    } else if (pick < 0.08) {
+      // Hanging loop
+      const angle = Math.random() * Math.PI * 2;
+      positions[i3] = Math.cos(angle) * 1.5;
+      positions[i3 + 1] = bottom + height + 1.5 + Math.sin(angle) * 1.5;
+      positions[i3 + 2] = jitter(0.4);
+    } else if (pick < 0.15) {
+      // Top cap
+      const angle = Math.random() * Math.PI * 2;
+      const r = profile(1) * Math.sqrt(Math.random());
+      positions[i3] = Math.cos(angle) * r;
+      positions[i3 + 1] = bottom + height + jitter(0.3);
+      positions[i3 + 2] = Math.sin(angle) * r;
+    } else {
+      // Flared body: sample height with density proportional to the radius
+      let h: number;
+      do {
+        h = Math.random();
+      } while (Math.random() * maxRadius > profile(h));
+      const angle = Math.random() * Math.PI * 2;
+      const r = profile(h) * (0.94 + Math.random() * 0.06);
+      positions[i3] = Math.cos(angle) * r;
+      positions[i3 + 1] = bottom + h * height;
+      positions[i3 + 2] = Math.sin(angle) * r;
+    }
+  }
+  return positions;
+}
+
+function generateGiftBox(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const half = 7;
+  const centerY = -3;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const pick = Math.random();
+
+    if (pick < 0.15) {
+      // Bow: two loops on the lid
+      const side = pick < 0.075 ? -1 : 1;
+      const angle = Math.random() * Math.PI * 2;
+      positions[i3] = side * (2.2 + Math.cos(angle) * 2);
+      positions[i3 + 1] = centerY + half + 1.8 + Math.sin(angle) * 1.6;
+      positions[i3 + 2] = jitter(0.8);
+      continue;
+    }
+
+    // A point on one of the six faces
+    const face = Math.floor(Math.random() * 6);
+    const axis = face % 3;
+    const sign = face < 3 ? 1 : -1;
+    const u = (Math.random() * 2 - 1) * half;
+    const v = (Math.random() * 2 - 1) * half;
+    const point = [0, 0, 0];
+    point[axis] = sign * half;
+    point[(axis + 1) % 3] = u;
+    point[(axis + 2) % 3] = v;
+
+    // Ribbon: pull some points onto the bands crossing x = 0 and z = 0
+    if (pick < 0.35) {
+      const band = axis === 1 ? (Math.random() < 0.5 ? 0 : 2) : 2 - axis;
+      point[band] = jitter(2);
+    }
+
+    positions[i3] = point[0];
+    positions[i3 + 1] = centerY + point[1];
+    positions[i3 + 2] = point[2];
+  }
+  return positions;
+}
+
+function generateReindeer(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const depth = 2.4;
+
+  // Side silhouette facing right, built from ellipses and capsules
+  const ellipses = [
+    { cx: 0, cy: -1, rx: 7, ry: 3.5 }, // Body
+    { cx: 8.5, cy: 6.5, rx: 2.4, ry: 1.6 }, // Head
+    { cx: 10.5, cy: 5.8, rx: 1.4, ry: 1.0 }, // Snout
+    { cx: -7.3, cy: 0.5, rx: 1.0, ry: 0.7 }, // Tail
+  ];
+  const capsules: { from: Point2; to: Point2; r: number }[] = [
+    { from: [5, 1], to: [7.5, 5.5], r: 1.5 }, // Neck
+    { from: [4.5, -3], to: [5, -11], r: 0.8 }, // Legs
+    { from: [3, -3], to: [2.5, -11], r: 0.8 },
+    { from: [-4, -3], to: [-4.5, -11], r: 0.8 },
+    { from: [-5.5, -3], to: [-6, -11], r: 0.8 },
+    { from: [8, 8], to: [6.5, 12], r: 0.35 }, // Antlers
+    { from: [6.5, 12], to: [5, 14], r: 0.35 },
+    { from: [6.8, 11], to: [8.5, 13.5], r: 0.35 },
+    { from: [9, 8], to: [10, 11.5], r: 0.35 },
+    { from: [10, 11.5], to: [11.5, 13], r: 0.35 },
+    { from: [9.8, 10.8], to: [8.8, 13], r: 0.35 },
+  ];
+
+  const parts = [
+    ...ellipses.map(e => ({ area: Math.PI * e.rx * e.ry, ellipse: e, capsule: null })),
+    ...capsules.map(c => ({
+      area: 2 * c.r * Math.hypot(c.to[0] - c.from[0], c.to[1] - c.from[1]) + Math.PI * c.r * c.r,
+      ellipse: null,
+      capsule: c,
+    })),
+  ];
+  const totalArea = parts.reduce((sum, p) => sum + p.area, 0);
+
+  // Centre the silhouette on the origin
+  const offsetX = -2;
+  const offsetY = -1.5;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    let pick = Math.random() * totalArea;
+    const part = parts.find(p => (pick -= p.area) <= 0) || parts[0];
+
+    if (part.ellipse) {
+      const { cx, cy, rx, ry } = part.ellipse;
+      const angle = Math.random() * Math.PI * 2;
+      const r = Math.sqrt(Math.random());
+      positions[i3] = cx + Math.cos(angle) * rx * r;
+      positions[i3 + 1] = cy + Math.sin(angle) * ry * r;
+      positions[i3 + 2] = jitter(depth * (1 - r * 0.5));
+    } else if (part.capsule) {
+      writeCapsulePoint(positions, i3, part.capsule.from, part.capsule.to, part.capsule.r, depth * 0.5);
+    }
+    positions[i3] += offsetX;
+    positions[i3 + 1] += offsetY;
+  }
+  return positions;
+}
+
+function generateSpiral(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const height = TREE_CONFIG.HEIGHT;
+  const turns = 5;
+
+  for (let i = 0; i < count; i++) {
+    const i3 = i * 3;
+    const arm = i % 2;
+    const t = Math.random();
+    const radius = TREE_CONFIG.RADIUS * (1 - t) + 0.4;
+    const angle = t * turns * Math.PI * 2 + arm * Math.PI;
+
+    positions[i3] = Math.cos(angle) * radius + jitter(0.6);
+    positions[i3 + 1] = -height / 2 + t * height + jitter(0.6);
+    positions[i3 + 2] = Math.sin(angle) * radius + jitter(0.6);
+  }
+  return positions;
+}
+
+export const SHAPES: ShapeDefinition[] = [
+  {
+    id: 'tree',
+    name: '圣诞树',
+    generate: calculateTreeParticlePositions,
+    showTrunk: true,
+    starPosition: [0, TREE_CONFIG.HEIGHT / 2 + 0.5, 0],
+    decorated: true,
+  },
+  { id: 'star', name: '星星', generate: generateStar, showTrunk: false, starPosition: null },
+  { id: 'heart', name: '爱心', generate: generateHeart, showTrunk: false, starPosition: null },
+  { id: 'snowman', name: '雪人', generate: generateSnowman, showTrunk: false, starPosition: [0, 12.5, 0] },
+  { id: 'bell', name: '铃铛', generate: generateBell, showTrunk: false, starPosition: null },
+  { id: 'gift', name: '礼物盒', generate: generateGiftBox, showTrunk: false, starPosition: null },
+  { id: 'reindeer', name: '驯鹿', generate: generateReindeer, showTrunk: false, starPosition: null },
+  {
+    id: 'spiral',
+    name: '螺旋',
+    generate: generateSpiral,
+    showTrunk: false,
+    starPosition: [0, TREE_CONFIG.HEIGHT / 2 + 1, 0],
+  },
+];
+
+export function getShape(id: string): ShapeDefinition {
+  return SHAPES.find(shape => shape.id === id) || SHAPES[0];
+}
@@ -0,0 +1,356 @@
+import { SharedSceneEvent, SharedSessionState, SyncMessage, SyncTransportType } from './types';
+import { SYNC_CONFIG } from './constants';
+import { parseTheme } from './themes';
+
+const ROOM_PATTERN = /^[A-Z0-9]{4,12}$/;
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+
+const IDLE_STATE: SharedSessionState = {
+  status: 'IDLE',
+  transport: null,
+  room: null,
+  relayUrl: null,
+  peers: 0,
+  error: null,
+};
+
+interface TransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: unknown) => void;
+  onError: (message: string, retrying: boolean) => void;
+}
+
+interface SyncTransport {
+  send(message: SyncMessage): void;
+  close(): void;
+}
+
+// Tabs of the same browser on one machine; no server needed
+class BroadcastTransport implements SyncTransport {
+  private channel: BroadcastChannel;
+
+  constructor(room: string, handlers: TransportHandlers) {
+    this.channel = new BroadcastChannel(SYNC_CONFIG.CHANNEL_PREFIX + room);
+    this.channel.onmessage = (e) => handlers.onMessage(e.data);
+    queueMicrotask(handlers.onOpen);
+  }
+
+  public send(message: SyncMessage) {
+    this.channel.postMessage(message);
+  }
+
+  public close() {
+    this.channel.close();
+  }
+}
+
+// The relay in server/relay.js, reconnecting with exponential backoff
+class WebSocketTransport implements SyncTransport {
+  private socket: WebSocket | null = null;
+  private closed = false;
+  private retryDelay: number = SYNC_CONFIG.RECONNECT_DELAY;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private url: string, private room: string, private handlers: TransportHandlers) {
+    this.connect();
+  }
+
+  public send(message: SyncMessage) {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  public close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect() {
+    const url = new URL(this.url);
+    url.searchParams.set('room', this.room);
+    const socket = new WebSocket(url.toString());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryDelay = SYNC_CONFIG.RECONNECT_DELAY;
+      this.handlers.onOpen();
+    };
+    socket.onmessage = (e) => {
+      try {
+        this.handlers.onMessage(JSON.parse(e.data));
+      } catch {
+        // Not JSON; parseSyncMessage would reject it anyway
+      }
+    };
+    socket.onclose = (e) => {
+      if (this.closed) return;
+      // 4xxx codes are the relay refusing the room; retrying won't help
+      if (e.code >= 4000 && e.code < 5000) {
+        this.handlers.onError(e.reason || 'The relay refused to join the room.', false);
+        return;
+      }
+      this.handlers.onError(`Lost connection to ${this.url}, retrying…`, true);
+      this.retryTimer = setTimeout(() => this.connect(), this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, SYNC_CONFIG.MAX_RECONNECT_DELAY);
+    };
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Messages come from other machines, so check every field before the scene sees it
+function parseSceneEvent(data: any): SharedSceneEvent | null {
+  switch (data?.type) {
+    case 'ASSEMBLE':
+      return isNumber(data.strength) ? { type: 'ASSEMBLE', strength: Math.min(1, Math.max(0, data.strength)) } : null;
+    case 'ROTATE':
+      return isNumber(data.x) && isNumber(data.y) ? { type: 'ROTATE', x: data.x, y: data.y } : null;
+    case 'THEME':
+      try {
+        return { type: 'THEME', theme: parseTheme(data.theme) };
+      } catch {
+        return null;
+      }
+    case 'SNOW':
+      if (typeof data.visible !== 'boolean') return null;
+      if (data.duration === undefined) return { type: 'SNOW', visible: data.visible };
+      return isNumber(data.duration) && data.duration >= 0
+        ? { type: 'SNOW', visible: data.visible, duration: data.duration }
+        : null;
+    case 'FIREWORK':
+      return isNumber(data.x) && isNumber(data.y) ? { type: 'FIREWORK', x: data.x, y: data.y } : null;
+    default:
+      return null;
+  }
+}
+
+export function parseSyncMessage(data: any): SyncMessage | null {
+  if (!data || typeof data.clientId !== 'string') return null;
+  if (data.kind === 'PRESENCE' || data.kind === 'LEAVE') {
+    return { kind: data.kind, clientId: data.clientId };
+  }
+  if (data.kind === 'EVENT') {
+    const event = parseSceneEvent(data.event);
+    return event ? { kind: 'EVENT', clientId: data.clientId, event } : null;
+  }
+  return null;
+}
+
+function isRelayUrl(url: string): boolean {
+  try {
+    const protocol = new URL(url).protocol;
+    return protocol === 'ws:' || protocol === 'wss:';
+  } catch {
+    return false;
+  }
+}
+
+export function createRoomCode(): string {
+  let code = '';
+  for (let i = 0; i < SYNC_CONFIG.ROOM_CODE_LENGTH; i++) {
+    code += ROOM_ALPHABET[Math.floor(Math.random() * ROOM_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeRoomCode(code: string): string {
+  const normalized = code.trim().toUpperCase();
+  if (!ROOM_PATTERN.test(normalized)) {
+    throw new Error('Room code must be 4-12 letters or digits.');
+  }
+  return normalized;
+}
+
+// ?room=CODE joins over BroadcastChannel; adding &relay=ws://host:port uses the relay
+export function getSharedSessionFromUrl(): { room: string; relayUrl: string | null } | null {
+  const params = new URLSearchParams(window.location.search);
+  const room = params.get(SYNC_CONFIG.ROOM_PARAM);
+  return room ? { room, relayUrl: params.get(SYNC_CONFIG.RELAY_PARAM) } : null;
+}
+
+export function createShareLink(room: string, relayUrl: string | null): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(SYNC_CONFIG.ROOM_PARAM, room);
+  if (relayUrl) {
+    url.searchParams.set(SYNC_CONFIG.RELAY_PARAM, relayUrl);
+  } else {
+    url.searchParams.delete(SYNC_CONFIG.RELAY_PARAM);
+  }
+  return url.toString();
+}
+
+// One client's membership in a shared room. Scene events are broadcast to the other
+// clients; assemble and rotation updates are rate-limited because they arrive every frame.
+export class SharedSession {
+  public readonly clientId = `client-${Math.random().toString(36).slice(2, 10)}`;
+  private transport: SyncTransport | null = null;
+  private generation: number = 0; // Bumped on every join so callbacks of a closed transport are ignored
+  private state: SharedSessionState = IDLE_STATE;
+  private peers = new Map<string, number>(); // clientId -> last message time
+  private presenceTimer: ReturnType<typeof setInterval> | null = null;
+  private lastStreamed = new Map<SharedSceneEvent['type'], { event: SharedSceneEvent; sentAt: number }>();
+  private pending = new Map<SharedSceneEvent['type'], SharedSceneEvent>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private eventListeners = new Set<(event: SharedSceneEvent) => void>();
+  private stateListeners = new Set<(state: SharedSessionState) => void>();
+
+  public getState(): SharedSessionState {
+    return this.state;
+  }
+
+  // Leaves any current room first. Throws on an invalid room code or relay URL.
+  public join(room: string, transport: SyncTransportType, relayUrl: string = SYNC_CONFIG.DEFAULT_RELAY_URL) {
+    const code = normalizeRoomCode(room);
+    if (transport === 'WEBSOCKET' && !isRelayUrl(relayUrl)) {
+      throw new Error('Relay URL must start with ws:// or wss://.');
+    }
+    this.leave();
+
+    const generation = ++this.generation;
+    const handlers: TransportHandlers = {
+      onOpen: () => {
+        if (generation !== this.generation) return;
+        this.setState({ status: 'CONNECTED', error: null });
+        this.send({ kind: 'PRESENCE', clientId: this.clientId });
+      },
+      onMessage: (data) => {
+        if (generation === this.generation) this.receive(data);
+      },
+      onError: (message, retrying) => {
+        if (generation !== this.generation) return;
+        this.peers.clear();
+        this.setState({ status: retrying ? 'CONNECTING' : 'ERROR', peers: 0, error: message });
+      },
+    };
+
+    this.setState({
+      status: 'CONNECTING',
+      transport,
+      room: code,
+      relayUrl: transport === 'WEBSOCKET' ? relayUrl : null,
+      peers: 0,
+      error: null,
+    });
+    this.transport = transport === 'WEBSOCKET'
+      ? new WebSocketTransport(relayUrl, code, handlers)
+      : new BroadcastTransport(code, handlers);
+    this.presenceTimer = setInterval(() => this.tickPresence(), SYNC_CONFIG.PRESENCE_INTERVAL);
+  }
+
+  public leave() {
+    if (!this.transport) return;
+    this.generation++;
+    this.send({ kind: 'LEAVE', clientId: this.clientId });
+    this.transport.close();
+    this.transport = null;
+    if (this.presenceTimer) clearInterval(this.presenceTimer);
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.presenceTimer = null;
+    this.flushTimer = null;
+    this.peers.clear();
+    this.lastStreamed.clear();
+    this.pending.clear();
+    this.setState(IDLE_STATE);
+  }
+
+  public broadcast(event: SharedSceneEvent) {
+    if (this.state.status !== 'CONNECTED') return;
+    if (event.type !== 'ASSEMBLE' && event.type !== 'ROTATE') {
+      this.send({ kind: 'EVENT', clientId: this.clientId, event });
+      return;
+    }
+
+    const last = this.lastStreamed.get(event.type);
+    if (last && JSON.stringify(last.event) === JSON.stringify(event)) {
+      this.pending.delete(event.type);
+      return;
+    }
+
+    // Grabbing or releasing the tree goes out at once; updates in between are rate-limited
+    const toggles = event.type === 'ASSEMBLE' && (!last || (last.event as typeof event).strength > 0 !== event.strength > 0);
+    const wait = last ? SYNC_CONFIG.STREAM_INTERVAL - (performance.now() - last.sentAt) : 0;
+    if (toggles || wait <= 0) {
+      this.pending.delete(event.type);
+      this.sendStreamed(event);
+      return;
+    }
+    this.pending.set(event.type, event);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.pending.forEach(pending => this.sendStreamed(pending));
+        this.pending.clear();
+      }, wait);
+    }
+  }
+
+  // Scene events from other clients
+  public onEvent(listener: (event: SharedSceneEvent) => void) {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  public subscribe(listener: (state: SharedSessionState) => void) {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  public dispose() {
+    this.leave();
+    this.eventListeners.clear();
+    this.stateListeners.clear();
+  }
+
+  private send(message: SyncMessage) {
+    this.transport?.send(message);
+  }
+
+  private sendStreamed(event: SharedSceneEvent) {
+    this.lastStreamed.set(event.type, { event, sentAt: performance.now() });
+    this.send({ kind: 'EVENT', clientId: this.clientId, event });
+  }
+
+  private receive(data: unknown) {
+    const message = parseSyncMessage(data);
+    if (!message || message.clientId === this.clientId) return;
+
+    if (message.kind === 'LEAVE') {
+      this.peers.delete(message.clientId);
+    } else {
+      this.peers.set(message.clientId, performance.now());
+    }
+    this.updatePeerCount();
+
+    if (message.kind === 'EVENT') {
+      this.eventListeners.forEach(listener => listener(message.event));
+    }
+  }
+
+  private tickPresence() {
+    this.send({ kind: 'PRESENCE', clientId: this.clientId });
+    const now = performance.now();
+    this.peers.forEach((seenAt, clientId) => {
+      if (now - seenAt > SYNC_CONFIG.PRESENCE_TIMEOUT) this.peers.delete(clientId);
+    });
+    this.updatePeerCount();
+  }
+
+  private updatePeerCount() {
+    if (this.peers.size !== this.state.peers) {
+      this.setState({ peers: this.peers.size });
+    }
+  }
+
+  private setState(patch: Partial<SharedSessionState>) {
+    this.state = { ...this.state, ...patch };
+    const state = this.state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+}
@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUILT_IN_THEMES, ThemeRegistry, parseTheme } from './themes';
+import { THEME_CONFIG } from './constants';
+
+// In-memory localStorage, installed before the module-level registry loads
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  const storage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+  vi.stubGlobal('localStorage', storage);
+  return storage;
+});
+
+const theme = (overrides: Record<string, unknown> = {}) => ({
+  id: 'custom-aurora',
+  name: 'Aurora',
+  palette: [{ color: '#00FF88', weight: 1 }],
+  ...overrides,
+});
+
+describe('parseTheme', () => {
+  it('fills in optional fields', () => {
+    const parsed = parseTheme(theme({ name: '  Aurora  ' }));
+    expect(parsed.name).toBe('Aurora');
+    expect(parsed.palette).toEqual([{ color: '#00FF88', weight: 1, intensity: 1 }]);
+    expect(parsed.background).toBe('#000000');
+    expect(parsed.fog.color).toBe('#000000');
+    expect(parsed.fireworkHues).toEqual([]);
+  });
+
+  it('creates an id when there is none', () => {
+    const a = parseTheme(theme({ id: undefined }));
+    const b = parseTheme(theme({ id: undefined }));
+    expect(a.id).toMatch(/^custom-/);
+    expect(a.id).not.toBe(b.id);
+  });
+
+  it('rejects invalid themes with the reason', () => {
+    expect(() => parseTheme(null)).toThrow('expected an object');
+    expect(() => parseTheme(theme({ name: ' ' }))).toThrow('name is required');
+    expect(() => parseTheme(theme({ palette: [] }))).toThrow('palette must be a non-empty array');
+    expect(() => parseTheme(theme({ palette: [{ color: 'gold', weight: 1 }] }))).toThrow('palette[0].color');
+    expect(() => parseTheme(theme({ background: 'black' }))).toThrow('background must be a hex colour');
+    expect(() => parseTheme(theme({ fireworkHues: [2] }))).toThrow('fireworkHues');
+  });
+});
+
+describe('ThemeRegistry.importJson', () => {
+  let registry: ThemeRegistry;
+
+  beforeEach(() => {
+    storage.clear();
+    registry = new ThemeRegistry();
+  });
+
+  it('imports a single theme or a list', () => {
+    registry.importJson(JSON.stringify(theme()));
+    registry.importJson(JSON.stringify([theme({ id: 'custom-b', name: 'B' }), theme({ id: 'custom-c', name: 'C' })]));
+    expect(registry.list().map(t => t.id)).toEqual([...BUILT_IN_THEMES.map(t => t.id), 'custom-aurora', 'custom-b', 'custom-c']);
+    expect(JSON.parse(storage.getItem(THEME_CONFIG.STORAGE_KEY)!)).toHaveLength(3);
+  });
+
+  it('saves nothing when any theme is invalid', () => {
+    const json = JSON.stringify([theme(), theme({ id: 'custom-b', palette: [] })]);
+    expect(() => registry.importJson(json)).toThrow('palette must be a non-empty array');
+    expect(registry.list()).toHaveLength(BUILT_IN_THEMES.length);
+    expect(storage.getItem(THEME_CONFIG.STORAGE_KEY)).toBeNull();
+  });
+
+  it('gives themes with a taken id a new one instead of replacing', () => {
+    registry.importJson(JSON.stringify(theme()));
+    const imported = registry.importJson(JSON.stringify([
+      theme({ name: 'Aurora again' }),
+      theme({ id: 'classic', name: 'Not classic' }),
+      theme({ id: 'custom-twin', name: 'Twin 1' }),
+      theme({ id: 'custom-twin', name: 'Twin 2' }),
+    ]));
+
+    expect(imported[0].id).not.toBe('custom-aurora');
+    expect(imported[1].id).not.toBe('classic');
+    expect(imported[2].id).toBe('custom-twin');
+    expect(imported[3].id).not.toBe('custom-twin');
+    expect(registry.get('custom-aurora')!.name).toBe('Aurora');
+    expect(registry.get('classic')!.builtIn).toBe(true);
+    expect(new Set(registry.list().map(t => t.id)).size).toBe(registry.list().length);
+  });
+
+  it('survives a reload', () => {
+    registry.importJson(JSON.stringify(theme()));
+    expect(new ThemeRegistry().get('custom-aurora')!.name).toBe('Aurora');
+  });
+});
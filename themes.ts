@@ -0,0 +1,259 @@
+import { ThemeDefinition, ThemeGradientStop } from './types';
+import { RENDER_CONFIG, THEME_CONFIG } from './constants';
+
+const DEFAULT_STAR_GRADIENT: ThemeGradientStop[] = [
+  { offset: 0, color: 'rgba(255, 255, 255, 1)' },
+  { offset: 0.3, color: 'rgba(255, 215, 0, 0.9)' },
+  { offset: 0.6, color: 'rgba(255, 215, 0, 0.3)' },
+  { offset: 1, color: 'rgba(0, 0, 0, 0)' },
+];
+
+const DEFAULT_BLOOM = {
+  strength: RENDER_CONFIG.BLOOM_STRENGTH,
+  radius: RENDER_CONFIG.BLOOM_RADIUS,
+  threshold: RENDER_CONFIG.BLOOM_THRESHOLD,
+};
+
+export const BUILT_IN_THEMES: ThemeDefinition[] = [
+  {
+    id: 'classic',
+    name: '经典圣诞',
+    palette: [
+      { color: '#FFFFFF', weight: 0.3, intensity: 1.3 },
+      { color: '#FFD700', weight: 0.3, intensity: 1.5 },
+      { color: '#FF6B6B', weight: 0.15, intensity: 1.2 },
+      { color: '#4ECDC4', weight: 0.25, intensity: 1.0 },
+    ],
+    background: '#000000',
+    fog: { color: '#000000', density: RENDER_CONFIG.FOG_DENSITY },
+    bloom: DEFAULT_BLOOM,
+    starGradient: DEFAULT_STAR_GRADIENT,
+    fireworkHues: [0.0, 0.13, 0.35],
+    builtIn: true,
+  },
+  {
+    id: 'winter',
+    name: '冰雪奇缘',
+    palette: [
+      { color: '#FFFFFF', weight: 0.4, intensity: 1.4 },
+      { color: '#4169E1', weight: 0.3, intensity: 1.5 },
+      { color: '#C0C0C0', weight: 0.3, intensity: 1.3 },
+    ],
+    background: '#000000',
+    fog: { color: '#000000', density: RENDER_CONFIG.FOG_DENSITY },
+    bloom: DEFAULT_BLOOM,
+    starGradient: [
+      { offset: 0, color: 'rgba(255, 255, 255, 1)' },
+      { offset: 0.3, color: 'rgba(173, 216, 230, 0.9)' },
+      { offset: 0.6, color: 'rgba(65, 105, 225, 0.3)' },
+      { offset: 1, color: 'rgba(0, 0, 0, 0)' },
+    ],
+    fireworkHues: [0.55, 0.6, 0.65],
+    builtIn: true,
+  },
+  {
+    id: 'dreamy',
+    name: '梦幻粉紫',
+    palette: [
+      { color: '#FFFFFF', weight: 0.4, intensity: 1.4 },
+      { color: '#FF69B4', weight: 0.3, intensity: 1.5 },
+      { color: '#9370DB', weight: 0.3, intensity: 1.3 },
+    ],
+    background: '#000000',
+    fog: { color: '#000000', density: RENDER_CONFIG.FOG_DENSITY },
+    bloom: DEFAULT_BLOOM,
+    starGradient: [
+      { offset: 0, color: 'rgba(255, 255, 255, 1)' },
+      { offset: 0.3, color: 'rgba(255, 182, 193, 0.9)' },
+      { offset: 0.6, color: 'rgba(147, 112, 219, 0.3)' },
+      { offset: 1, color: 'rgba(0, 0, 0, 0)' },
+    ],
+    fireworkHues: [0.75, 0.83, 0.92],
+    builtIn: true,
+  },
+];
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Unique even for several id-less themes imported in the same millisecond
+export function createThemeId(): string {
+  return `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Validate untrusted JSON (file import or localStorage) into a theme
+export function parseTheme(data: any): ThemeDefinition {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid theme${data && data.name ? ` "${data.name}"` : ''}: ${message}`);
+  };
+
+  if (!data || typeof data !== 'object') fail('expected an object.');
+  if (typeof data.name !== 'string' || data.name.trim() === '') fail('name is required.');
+  if (!Array.isArray(data.palette) || data.palette.length === 0) fail('palette must be a non-empty array.');
+
+  const palette = data.palette.map((entry: any, i: number) => {
+    if (!entry || !HEX_COLOR.test(entry.color)) fail(`palette[${i}].color must be a hex colour like #FFD700.`);
+    if (!isNumber(entry.weight) || entry.weight <= 0) fail(`palette[${i}].weight must be a positive number.`);
+    const intensity = entry.intensity === undefined ? 1 : entry.intensity;
+    if (!isNumber(intensity) || intensity < 0) fail(`palette[${i}].intensity must be a non-negative number.`);
+    return { color: entry.color, weight: entry.weight, intensity };
+  });
+
+  const background = data.background === undefined ? '#000000' : data.background;
+  if (!HEX_COLOR.test(background)) fail('background must be a hex colour.');
+
+  const fog = { color: background, density: RENDER_CONFIG.FOG_DENSITY, ...data.fog };
+  if (!HEX_COLOR.test(fog.color) || !isNumber(fog.density) || fog.density < 0) {
+    fail('fog must have a hex colour and a non-negative density.');
+  }
+
+  const bloom = { ...DEFAULT_BLOOM, ...data.bloom };
+  if (!isNumber(bloom.strength) || !isNumber(bloom.radius) || !isNumber(bloom.threshold)) {
+    fail('bloom strength, radius and threshold must be numbers.');
+  }
+
+  const starGradient = data.starGradient === undefined ? DEFAULT_STAR_GRADIENT : data.starGradient;
+  if (!Array.isArray(starGradient) || starGradient.some((stop: any) =>
+    !stop || !isNumber(stop.offset) || stop.offset < 0 || stop.offset > 1 || typeof stop.color !== 'string'
+  )) {
+    fail('starGradient must be a list of { offset: 0..1, color } stops.');
+  }
+
+  const fireworkHues = data.fireworkHues === undefined ? [] : data.fireworkHues;
+  if (!Array.isArray(fireworkHues) || fireworkHues.some((hue: any) => !isNumber(hue) || hue < 0 || hue > 1)) {
+    fail('fireworkHues must be a list of numbers between 0 and 1.');
+  }
+
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : createThemeId(),
+    name: data.name.trim(),
+    palette,
+    background,
+    fog: { color: fog.color, density: fog.density },
+    bloom: { strength: bloom.strength, radius: bloom.radius, threshold: bloom.threshold },
+    starGradient: starGradient.map((stop: ThemeGradientStop) => ({ offset: stop.offset, color: stop.color })),
+    fireworkHues: [...fireworkHues],
+  };
+}
+
+// Built-in themes plus user themes persisted in localStorage
+export class ThemeRegistry {
+  private userThemes: ThemeDefinition[] = [];
+  private listeners = new Set<(themes: ThemeDefinition[]) => void>();
+
+  constructor() {
+    this.load();
+  }
+
+  public list(): ThemeDefinition[] {
+    return [...BUILT_IN_THEMES, ...this.userThemes];
+  }
+
+  public get(id: string): ThemeDefinition | undefined {
+    return this.list().find(theme => theme.id === id);
+  }
+
+  public getDefault(): ThemeDefinition {
+    return BUILT_IN_THEMES[0];
+  }
+
+  // Add or replace a user theme. Built-in themes cannot be overwritten.
+  public save(theme: ThemeDefinition): ThemeDefinition {
+    const validated = parseTheme(theme);
+    if (BUILT_IN_THEMES.some(builtIn => builtIn.id === validated.id)) {
+      throw new Error(`Theme id "${validated.id}" is reserved for a built-in theme.`);
+    }
+
+    const index = this.userThemes.findIndex(existing => existing.id === validated.id);
+    if (index >= 0) {
+      this.userThemes[index] = validated;
+    } else {
+      this.userThemes.push(validated);
+    }
+    this.persist();
+    return validated;
+  }
+
+  public remove(id: string) {
+    this.userThemes = this.userThemes.filter(theme => theme.id !== id);
+    this.persist();
+  }
+
+  // Import one theme or an array of themes from a JSON string. Nothing is saved unless every theme
+  // is valid, and a theme whose id is already taken is added under a new id instead of replacing one.
+  public importJson(json: string): ThemeDefinition[] {
+    const data = JSON.parse(json);
+    const themes = (Array.isArray(data) ? data : [data]).map(parseTheme);
+    const takenIds = new Set(this.list().map(theme => theme.id));
+    const imported = themes.map(theme => {
+      const id = takenIds.has(theme.id) ? createThemeId() : theme.id;
+      takenIds.add(id);
+      return { ...theme, id };
+    });
+    this.userThemes.push(...imported);
+    this.persist();
+    return imported;
+  }
+
+  public exportJson(ids?: string[]): string {
+    const themes = ids ? this.list().filter(theme => ids.includes(theme.id)) : this.userThemes;
+    return JSON.stringify(themes.map(({ builtIn, ...theme }) => theme), null, 2);
+  }
+
+  public getActiveId(): string {
+    try {
+      const id = localStorage.getItem(THEME_CONFIG.ACTIVE_STORAGE_KEY);
+      return id && this.get(id) ? id : this.getDefault().id;
+    } catch {
+      return this.getDefault().id;
+    }
+  }
+
+  public setActiveId(id: string) {
+    try {
+      localStorage.setItem(THEME_CONFIG.ACTIVE_STORAGE_KEY, id);
+    } catch (e) {
+      console.warn('Failed to persist active theme', e);
+    }
+  }
+
+  public subscribe(listener: (themes: ThemeDefinition[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private load() {
+    try {
+      const stored = localStorage.getItem(THEME_CONFIG.STORAGE_KEY);
+      if (!stored) return;
+      const data = JSON.parse(stored);
+      if (!Array.isArray(data)) return;
+
+      data.forEach((entry: any) => {
+        try {
+          this.userThemes.push(parseTheme(entry));
+        } catch (e) {
+          console.warn('Skipping invalid stored theme', e);
+        }
+      });
+    } catch (e) {
+      console.warn('Failed to load stored themes', e);
+    }
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(THEME_CONFIG.STORAGE_KEY, JSON.stringify(this.userThemes));
+    } catch (e) {
+      console.warn('Failed to persist themes', e);
+    }
+    const themes = this.list();
+    this.listeners.forEach(listener => listener(themes));
+  }
+}
+
+export const themeRegistry = new ThemeRegistry();
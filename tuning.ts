@@ -0,0 +1,39 @@
+import { TuningSection } from './types';
+import { GESTURE_THRESHOLDS } from './constants';
+
+export interface TunableParam {
+  key: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Slider ranges for the developer HUD. Values are read from and written to runtimeConfig.
+export const TUNABLE_PARAMS: Record<TuningSection, TunableParam[]> = {
+  PARTICLE_CONFIG: [
+    { key: 'COUNT', min: 1000, max: 20000, step: 500 },
+  ],
+  // Curl boundaries of the joint-angle classifier: 0 = straight, 1 = fully curled
+  GESTURE_THRESHOLDS: Object.keys(GESTURE_THRESHOLDS).map(key => ({ key, min: 0, max: 1, step: 0.01 })),
+  ANIMATION_CONFIG: [
+    { key: 'GRAVITY_STRENGTH', min: 0, max: 1, step: 0.01 },
+    { key: 'EXPLOSION_STRENGTH', min: 0, max: 1, step: 0.01 },
+    { key: 'DAMPING', min: 0.5, max: 0.99, step: 0.01 },
+    { key: 'BROWN_MOTION', min: 0, max: 0.2, step: 0.005 },
+    { key: 'ROTATION_SPEED_X', min: 0, max: 5, step: 0.1 },
+    { key: 'ROTATION_SPEED_Y', min: 0, max: 5, step: 0.1 },
+    { key: 'IDLE_SPIN_SPEED', min: 0, max: 1, step: 0.01 },
+    { key: 'TRUNK_SPIN_SPEED', min: 0, max: 1, step: 0.01 },
+  ],
+  RENDER_CONFIG: [
+    { key: 'BLOOM_STRENGTH', min: 0, max: 5, step: 0.05 },
+    { key: 'BLOOM_RADIUS', min: 0, max: 1, step: 0.01 },
+    { key: 'BLOOM_THRESHOLD', min: 0, max: 1, step: 0.01 },
+    { key: 'FOG_DENSITY', min: 0, max: 0.1, step: 0.001 },
+  ],
+  SNOW_CONFIG: [
+    { key: 'COUNT', min: 0, max: 5000, step: 100 },
+    { key: 'SIZE', min: 0.05, max: 1, step: 0.05 },
+    { key: 'OPACITY', min: 0, max: 1, step: 0.05 },
+  ],
+};
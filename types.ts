@@ -4,10 +4,457 @@ export interface Landmark {
   z: number;
 }
 
+export type HandLabel = 'Left' | 'Right';
+
+// MediaPipe classification of one detected hand
+export interface Handedness {
+  index: number;
+  score: number;
+  label: HandLabel;
+}
+
 export interface Results {
   multiHandLandmarks: Landmark[][];
-  multiHandedness: any[];
+  multiHandedness: Handedness[];
   image: any;
+  timestamp?: number; // ms, set by replay; live camera results are timed on arrival
+}
+
+// A detected hand with its handedness resolved from the user's point of view
+export interface LabeledHand {
+  label: HandLabel;
+  score: number;
+  landmarks: Landmark[];
+}
+
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+// Per-finger classification from joint angles
+export interface FingerState {
+  curl: number; // 0 = straight, 1 = fully curled
+  isCurled: boolean;
+  isExtended: boolean;
+  confidence: number; // 0..1, distance from the decision boundary
+}
+
+export type GestureType = 'FIST' | 'ONE_FINGER' | 'TWO_FINGERS' | 'THREE_FINGERS';
+
+// Per-finger curl boundaries used by classifyHandPose (curl: 0 = straight, 1 = fully curled).
+// A finger is curled above its CURLED_MIN and extended below its EXTENDED_MAX.
+export interface GestureThresholds {
+  THUMB_CURLED_MIN: number;
+  INDEX_CURLED_MIN: number;
+  MIDDLE_CURLED_MIN: number;
+  RING_CURLED_MIN: number;
+  PINKY_CURLED_MIN: number;
+  THUMB_EXTENDED_MAX: number;
+  INDEX_EXTENDED_MAX: number;
+  MIDDLE_EXTENDED_MAX: number;
+  RING_EXTENDED_MAX: number;
+  PINKY_EXTENDED_MAX: number;
+}
+
+export type CalibrationPoseId = 'OPEN_PALM' | 'FIST' | 'ONE_FINGER' | 'TWO_FINGERS' | 'THREE_FINGERS';
+
+// A pose the calibration wizard asks for, and which fingers it shows curled or extended
+export interface CalibrationPose {
+  id: CalibrationPoseId;
+  name: string;
+  extended: FingerName[];
+  curled: FingerName[];
+}
+
+// Personalised thresholds saved under a name
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  thresholds: GestureThresholds;
+}
+
+export interface RenderSettings {
+  CAMERA_FOV: number;
+  CAMERA_NEAR: number;
+  CAMERA_FAR: number;
+  FOG_DENSITY: number;
+  BLOOM_STRENGTH: number;
+  BLOOM_RADIUS: number;
+  BLOOM_THRESHOLD: number;
+}
+
+export interface AnimationSettings {
+  GRAVITY_STRENGTH: number;
+  EXPLOSION_STRENGTH: number;
+  DAMPING: number;
+  BROWN_MOTION: number;
+  ROTATION_SPEED_X: number;
+  ROTATION_SPEED_Y: number;
+  FIXED_TIMESTEP: number;
+  MAX_FRAME_DELTA: number;
+  MAX_STEPS_PER_FRAME: number;
+  IDLE_SPIN_SPEED: number;
+  TRUNK_SPIN_SPEED: number;
+}
+
+export interface SnowSettings {
+  COUNT: number;
+  SIZE: number;
+  OPACITY: number;
+}
+
+// One ring of particles in a firework burst
+export interface FireworkLayerSettings {
+  COUNT: number;
+  SPEED: number;
+  SIZE: number;
+  DELAY: number; // Seconds after the burst starts
+}
+
+export interface FireworksSettings {
+  LIFETIME: number;
+  GRAVITY: number;
+  AIR_RESISTANCE: number;
+  ROCKET_DURATION: number;
+  ROCKET_LAUNCH_Y: number;
+  ROCKET_TRAIL_COUNT: number;
+  ROCKET_TRAIL_LIFETIME: number;
+  ROCKET_TRAIL_SPAWN: number;
+  MAX_BURSTS: number;
+  MAX_ROCKETS: number;
+  LAYERS: FireworkLayerSettings[];
+}
+
+export interface ZoomSettings {
+  DEFAULT_DISTANCE: number;
+  MIN_DISTANCE: number;
+  MAX_DISTANCE: number;
+  NEAR_PALM_SPAN: number;
+  FAR_PALM_SPAN: number;
+  DEAD_ZONE: number;
+  SMOOTHING: number;
+}
+
+// How the scene reacts to music. The analyzer's FFT and beat detection settings stay in AUDIO_CONFIG.
+export interface AudioReactionSettings {
+  SIZE_BOOST: number;
+  ALPHA_BOOST: number;
+  BLOOM_BOOST: number;
+  STAR_PULSE: number;
+  PULSE_DECAY: number;
+  AUTO_FIREWORK_STRENGTH: number;
+  AUTO_FIREWORK_COOLDOWN: number;
+}
+
+// MediaPipe Hands options and webcam resolution
+export interface TrackingSettings {
+  MAX_NUM_HANDS: number;
+  MODEL_COMPLEXITY: number;
+  MIN_DETECTION_CONFIDENCE: number;
+  MIN_TRACKING_CONFIDENCE: number;
+  CAMERA_WIDTH: number;
+  CAMERA_HEIGHT: number;
+}
+
+// Settings that can change at runtime, keyed like the constants they default to
+export interface RuntimeConfig {
+  PARTICLE_CONFIG: { COUNT: number };
+  RENDER_CONFIG: RenderSettings;
+  ANIMATION_CONFIG: AnimationSettings;
+  SNOW_CONFIG: SnowSettings;
+  FIREWORKS_CONFIG: FireworksSettings;
+  ZOOM_CONFIG: ZoomSettings;
+  AUDIO_CONFIG: AudioReactionSettings;
+  TRACKING_CONFIG: TrackingSettings;
+  GESTURE_THRESHOLDS: GestureThresholds;
+}
+
+export type RuntimeConfigPatch = { [S in keyof RuntimeConfig]?: Partial<RuntimeConfig[S]> };
+
+// Where a runtime config value came from: the app's layers, lowest precedence first, or a <gesture-tree> attribute
+export type ConfigSource = 'file' | 'storage' | 'url' | 'attribute';
+
+// A rejected config value
+export interface ConfigIssue {
+  source: ConfigSource;
+  path: string; // e.g. 'RENDER_CONFIG.BLOOM_STRENGTH'
+  message: string;
+}
+
+// Config sections the developer HUD has sliders for
+export type TuningSection = 'PARTICLE_CONFIG' | 'GESTURE_THRESHOLDS' | 'ANIMATION_CONFIG' | 'RENDER_CONFIG' | 'SNOW_CONFIG';
+
+// One processed tracking frame, for the developer HUD
+export interface TrackingFrame {
+  hands: LabeledHand[];
+  gestures: Record<HandLabel, GestureType | null>; // Per-frame detection before debouncing
+  latency: number; // ms from sending the video frame to MediaPipe until results; 0 in replay
+  timestamp: number;
+}
+
+export interface GestureEvent {
+  type: 'START' | 'HOLD' | 'END';
+  gesture: GestureType;
+  hand?: HandLabel;
+  duration: number; // ms since the gesture started
+  timestamp: number;
+}
+
+export type MotionGestureType =
+  | 'SWIPE_LEFT'
+  | 'SWIPE_RIGHT'
+  | 'SWIPE_UP'
+  | 'SWIPE_DOWN'
+  | 'CIRCLE_CLOCKWISE'
+  | 'CIRCLE_COUNTER_CLOCKWISE'
+  | 'WAVE';
+
+// Directions are from the user's point of view (mirrored image, y up)
+export interface MotionGestureEvent {
+  type: MotionGestureType;
+  direction: { x: number; y: number }; // Unit vector of the net movement
+  velocity: number; // Mean speed along the path, normalised image units per second
+  duration: number; // ms covered by the trajectory
+  hand?: HandLabel;
+  timestamp: number;
+}
+
+// One weighted colour in a theme's particle palette
+export interface ThemePaletteEntry {
+  color: string; // CSS hex, e.g. '#FFD700'
+  weight: number; // Relative share of particles
+  intensity: number; // Brightness multiplier (values above 1 feed the bloom)
+}
+
+export interface ThemeGradientStop {
+  offset: number; // 0 = centre, 1 = edge
+  color: string; // Any CSS colour, may include alpha
+}
+
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  palette: ThemePaletteEntry[];
+  background: string;
+  fog: { color: string; density: number };
+  bloom: { strength: number; radius: number; threshold: number };
+  starGradient: ThemeGradientStop[];
+  fireworkHues: number[]; // 0..1; empty for fully random hues
+  builtIn?: boolean;
+}
+
+export type EasingName = 'linear' | 'easeInOutCubic' | 'easeOutCubic' | 'easeOutBack' | 'easeOutElastic';
+
+// A target formation the particles can assemble into
+export interface ShapeDefinition {
+  id: string;
+  name: string;
+  generate: (particleCount: number) => Float32Array;
+  showTrunk: boolean;
+  starPosition: [number, number, number] | null; // Local to the tree group; null hides the star
+  colors?: Float32Array; // Per-particle RGB replacing the theme palette while active
+  decorated?: boolean; // Show ornaments, garland and the 3D topper when assembled
+}
+
+export type OrnamentType = 'bauble' | 'glass' | 'bow' | 'star';
+
+// An ornament placed on the tree by pointing, in tree-group local coordinates
+export interface PlacedOrnament {
+  id: string;
+  type: OrnamentType;
+  color: string;
+  position: [number, number, number];
+}
+
+// Index fingertip used as a 3D cursor while decorating
+export interface PointerState {
+  x: number; // Normalised webcam coordinates, unmirrored
+  y: number;
+  pinching: boolean; // Thumb tip touching the index tip
+}
+
+// Palm of the tree-control hand, used to hold the tree in AR mode
+export interface PalmState {
+  x: number; // Normalised webcam coordinates, unmirrored
+  y: number;
+  size: number; // Wrist to middle knuckle; grows as the hand nears the camera
+}
+
+// RGBA pixels of a downscaled image used to build a portrait
+export interface PortraitImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export type GreetingAlign = 'left' | 'center' | 'right';
+
+// Custom greeting rasterised into a particle target
+export interface GreetingOptions {
+  text: string; // May contain newlines, CJK and emoji
+  font: string; // Id from GREETING_CONFIG.FONTS
+  size: number; // World units per line
+  lineHeight: number; // Multiple of the font size
+  align: GreetingAlign;
+}
+
+// A single frame captured from the MediaPipe results stream
+export interface RecordedFrame {
+  timestamp: number; // ms since the recording started
+  multiHandLandmarks: Landmark[][];
+  multiHandedness: Handedness[];
+}
+
+// A recorded landmark session, serialised to/from JSON
+export interface RecordedSession {
+  version: number;
+  createdAt: string;
+  duration: number;
+  frames: RecordedFrame[];
+}
+
+export type InputSource = 'CAMERA' | 'REPLAY';
+
+export interface PlaybackState {
+  isLoaded: boolean;
+  isPlaying: boolean;
+  isLooping: boolean;
+  currentTime: number;
+  duration: number;
+}
+
+// Band energies (0-1) from the music analyser for one frame
+export interface AudioLevels {
+  bass: number;
+  mid: number;
+  treble: number;
+  energy: number; // Weighted overall loudness
+  beat: boolean; // Bass onset detected this frame
+  strength: number; // How far the bass rose above its recent average on a beat, 0-1
+}
+
+export type AudioSourceType = 'NONE' | 'FILE' | 'MICROPHONE';
+
+export interface MusicPlayerState {
+  source: AudioSourceType;
+  tracks: string[];
+  currentTrack: number; // -1 when nothing is loaded
+  isPlaying: boolean;
+  volume: number;
+}
+
+// Synthesised feedback sounds
+export type SoundCue =
+  | 'THEME'
+  | 'SNOW'
+  | 'LAUNCH'
+  | 'ASSEMBLE'
+  | 'RELEASE'
+  | 'RESET'
+  | 'SWIPE'
+  | 'CIRCLE'
+  | 'WAVE'
+  | 'PLACE';
+
+export interface SoundSettings {
+  muted: boolean;
+  volume: number; // 0-1
+}
+
+// Scene changes shared between clients in a multi-screen session
+export type SharedSceneEvent =
+  | { type: 'ASSEMBLE'; strength: number } // 0 releases the tree
+  | { type: 'ROTATE'; x: number; y: number } // Rotation target, -1..1
+  | { type: 'THEME'; theme: ThemeDefinition }
+  | { type: 'SNOW'; visible: boolean; duration?: number } // Seconds of snow, 0 until stopped; 10 if omitted
+  | { type: 'FIREWORK'; x: number; y: number }; // Normalised webcam position, as for launchFirework
+
+// Envelope sent over a sync transport. Presence messages keep the peer count up to date.
+export type SyncMessage =
+  | { kind: 'EVENT'; clientId: string; event: SharedSceneEvent }
+  | { kind: 'PRESENCE'; clientId: string }
+  | { kind: 'LEAVE'; clientId: string };
+
+export type SyncTransportType = 'BROADCAST' | 'WEBSOCKET';
+
+export interface SharedSessionState {
+  status: 'IDLE' | 'CONNECTING' | 'CONNECTED' | 'ERROR';
+  transport: SyncTransportType | null;
+  room: string | null;
+  relayUrl: string | null; // Only for WEBSOCKET
+  peers: number; // Other clients seen recently
+  error: string | null;
+}
+
+// Anything a gesture binding can be triggered by
+// TWO_FINGERS_HOLD fires once when two fingers are held for BINDINGS_CONFIG.HOLD_TIME
+export type GestureTrigger = GestureType | MotionGestureType | 'TWO_FINGERS_HOLD';
+
+export type ActionId =
+  | 'ASSEMBLE'
+  | 'CYCLE_THEME'
+  | 'SET_THEME'
+  | 'SNOW'
+  | 'FIREWORK'
+  | 'CYCLE_SHAPE'
+  | 'GREETING'
+  | 'SCREENSHOT'
+  | 'TOGGLE_RECORDING'
+  | 'RESET_VIEW';
+
+export type ActionParamValue = number | string | boolean;
+
+// One editable parameter of an action
+export interface ActionParamDefinition {
+  key: string;
+  label: string;
+  type: 'number' | 'boolean' | 'select' | 'theme'; // 'theme' picks from the theme registry
+  default: ActionParamValue;
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: { value: string; label: string }[];
+}
+
+export interface ActionDefinition {
+  id: ActionId;
+  name: string;
+  params: ActionParamDefinition[];
+  continuous?: boolean; // Follows the fist strength every frame, so only the fist can trigger it
+  sound?: SoundCue; // Played when a static gesture triggers it
+}
+
+// What a gesture does, persisted and shareable as a preset
+export interface GestureBinding {
+  trigger: GestureTrigger;
+  action: ActionId;
+  params: Record<string, ActionParamValue>;
+}
+
+// Where the gesture happened, in normalised webcam coordinates (unmirrored)
+export interface ActionContext {
+  x: number;
+  y: number;
+}
+
+// Commands the embedded tree accepts, as element methods or postMessage payloads
+export type EmbedCommand =
+  | { command: 'assemble'; strength: number } // 0 releases the tree
+  | { command: 'rotate'; x: number; y: number } // -1..1
+  | { command: 'setTheme'; theme: string | ThemeDefinition } // Theme id or a full definition
+  | { command: 'snow'; visible: boolean }
+  | { command: 'fireworks'; x: number; y: number; z: number }; // World position of the burst
+
+// postMessage envelopes between an iframe host and embed.html
+export type EmbedHostMessage = { source: 'gesture-tree'; type: 'command'; id?: string } & EmbedCommand;
+
+export type EmbedFrameMessage =
+  | { source: 'gesture-tree'; type: 'ready' }
+  | { source: 'gesture-tree'; type: 'result'; id: string; ok: boolean; error?: string }
+  | { source: 'gesture-tree'; type: 'event'; name: string; detail: unknown };
+
+export interface RecordingState {
+  isRecording: boolean;
+  startedAt: number; // performance.now() when recording began
 }
 
 export interface HandsInterface {
@@ -1,24 +1,73 @@
-import { useEffect, useRef } from 'react';
-import { Results } from './types';
-import { calculateFingerStates } from './utils';
-import { THEME_NAMES } from './constants';
+import { useEffect, useRef, useState } from 'react';
+import {
+  Results,
+  GestureEvent,
+  HandLabel,
+  MotionGestureEvent,
+  PointerState,
+  PalmState,
+  TrackingFrame,
+  TrackingSettings,
+  ZoomSettings
+} from './types';
+import { classifyHandPose, labelHands, estimateHandDepth, pinchRatio, HandPose } from './utils';
+import { DECORATE_CONFIG } from './constants';
+import { createDefaultGestureStateMachine, detectGesture, GestureStateMachine } from './gestureStateMachine';
+import { BimanualGestureTracker } from './bimanualGestures';
+import { MotionGestureRecognizer } from './motionGestures';
+import {
+  SessionRecorder,
+  SessionPlayer,
+  getInputSource,
+  getSessionUrl,
+  loadSessionFromUrl
+} from './landmarkSession';
+
+const HAND_LABELS: HandLabel[] = ['Left', 'Right'];
+
+const toHandsOptions = (tracking: TrackingSettings) => ({
+  maxNumHands: tracking.MAX_NUM_HANDS,
+  modelComplexity: tracking.MODEL_COMPLEXITY,
+  minDetectionConfidence: tracking.MIN_DETECTION_CONFIDENCE,
+  minTrackingConfidence: tracking.MIN_TRACKING_CONFIDENCE,
+});
 
 interface GestureRecognitionProps {
-  onOneFingerGesture: () => void;
-  onTwoFingersGesture: () => void;
-  onThreeFingersGesture: () => void;
+  tracking: TrackingSettings;
+  zoom: ZoomSettings;
+  onOneFingerGesture: (x: number, y: number) => void;
+  onTwoFingersGesture: (x: number, y: number) => void;
+  onThreeFingersGesture: (x: number, y: number) => void;
   onFistGesture: (strength: number, x: number, y: number) => void;
+  onHandDepth?: (depth: number) => void;
   onNoGesture: () => void;
+  onGestureEvent?: (event: GestureEvent) => void;
+  onTwoHandScale?: (scale: number) => void;
+  onTwoHandReset?: () => void;
+  onMotionGesture?: (event: MotionGestureEvent) => void;
+  onPointer?: (pointer: PointerState | null) => void;
+  onPalm?: (palm: PalmState | null) => void;
+  onTrackingFrame?: (frame: TrackingFrame) => void;
   onError: (message: string) => void;
   onStatusChange: (status: 'LOADING' | 'ACTIVE' | 'ERROR') => void;
 }
 
 export const useGestureRecognition = ({
+  tracking,
+  zoom,
   onOneFingerGesture,
   onTwoFingersGesture,
   onThreeFingersGesture,
   onFistGesture,
+  onHandDepth,
   onNoGesture,
+  onGestureEvent,
+  onTwoHandScale,
+  onTwoHandReset,
+  onMotionGesture,
+  onPointer,
+  onPalm,
+  onTrackingFrame,
   onError,
   onStatusChange
 }: GestureRecognitionProps) => {
@@ -26,15 +75,136 @@ export const useGestureRecognition = ({
   const handsInstanceRef = useRef<any>(null);
   const cameraInstanceRef = useRef<any>(null);
   const isMountedRef = useRef(true);
-  
-  // Gesture state refs
-  const wasOneFingerRef = useRef(false);
-  const wasTwoFingersRef = useRef(false);
-  const wasThreeFingersRef = useRef(false);
+  const resultsHandlerRef = useRef<((results: Results) => void) | null>(null);
+  const trackingRef = useRef(tracking);
+  const zoomRef = useRef(zoom);
+  const restartCameraRef = useRef<(() => Promise<void>) | null>(null);
+
+  // Input source: live camera, or a recorded session selected via ?source=replay
+  const [inputSource] = useState(getInputSource);
+  const [sessionRecorder] = useState(() => new SessionRecorder());
+  const [sessionPlayer] = useState(
+    () => new SessionPlayer((results) => resultsHandlerRef.current?.(results))
+  );
 
   useEffect(() => {
     isMountedRef.current = true;
 
+    // With two hands visible the left hand drives the tree and the right hand triggers effects;
+    // a single hand does both
+    let isTwoHanded = false;
+    let latestPoses: Record<HandLabel, HandPose | null> = { Left: null, Right: null };
+    const controlsTree = (hand: HandLabel) => !isTwoHanded || hand === 'Left';
+    const triggersEffects = (hand: HandLabel) => !isTwoHanded || hand === 'Right';
+
+    // The hand whose fist assembled the tree keeps it until that fist ends or the hand is lost,
+    // even if a second hand appears and the roles change meanwhile
+    let treeHand: HandLabel | null = null;
+    const releaseTree = () => {
+      treeHand = null;
+      onNoGesture();
+    };
+
+    // Debounce per-frame poses into start / hold / end events, one machine per hand
+    const createHandMachine = (hand: HandLabel) =>
+      createDefaultGestureStateMachine((event) => {
+        onGestureEvent?.({ ...event, hand });
+
+        if (event.type === 'START' && triggersEffects(hand)) {
+          const pose = latestPoses[hand];
+          const palmX = pose ? pose.palmBase.x : 0.5;
+          const palmY = pose ? pose.palmBase.y : 0.5;
+          if (event.gesture === 'ONE_FINGER') onOneFingerGesture(palmX, palmY);
+          if (event.gesture === 'TWO_FINGERS') onTwoFingersGesture(palmX, palmY);
+          if (event.gesture === 'THREE_FINGERS') onThreeFingersGesture(palmX, palmY);
+        } else if (event.type === 'END' && event.gesture === 'FIST' && hand === treeHand) {
+          releaseTree();
+        }
+      });
+    const gestureMachines: Record<HandLabel, GestureStateMachine> = {
+      Left: createHandMachine('Left'),
+      Right: createHandMachine('Right'),
+    };
+
+    const bimanualTracker = new BimanualGestureTracker({
+      onScale: (scale) => onTwoHandScale?.(scale),
+      onReset: () => onTwoHandReset?.(),
+    });
+
+    // Trajectories of the effects hand for swipes, circles and waves
+    let motionHand: HandLabel = 'Right';
+    const motionRecognizer = new MotionGestureRecognizer((event) => {
+      onMotionGesture?.({ ...event, hand: motionHand });
+    });
+
+    // Index fingertip of the effects hand, with pinch hysteresis so placement does not flicker
+    let isPointerPinching = false;
+
+    // When the current camera frame was handed to MediaPipe, for latency reporting
+    let frameSentAt = 0;
+
+    const handleResults = (results: Results) => {
+      if (!isMountedRef.current) return;
+      sessionRecorder.capture(results);
+
+      const poses: Record<HandLabel, HandPose | null> = { Left: null, Right: null };
+      const hands = labelHands(results);
+      hands.forEach(({ label, landmarks }) => {
+        poses[label] = classifyHandPose(landmarks);
+      });
+      isTwoHanded = poses.Left !== null && poses.Right !== null;
+      latestPoses = poses;
+
+      // Replayed frames carry their recorded time; ticks can deliver several at once
+      const now = results.timestamp ?? performance.now();
+      const detected = { Left: detectGesture(poses.Left), Right: detectGesture(poses.Right) };
+      HAND_LABELS.forEach(hand => gestureMachines[hand].update(detected[hand], now));
+      bimanualTracker.update(poses.Left, poses.Right, now);
+      if (treeHand && !poses[treeHand]) releaseTree();
+
+      // A fist is a tree control, not a motion; restart the trajectory when it closes
+      motionHand = isTwoHanded ? 'Right' : poses.Left ? 'Left' : 'Right';
+      const motionPose = poses[motionHand];
+      if (motionPose && !motionPose.isFist) {
+        motionRecognizer.addSample(motionPose.palmBase.x, motionPose.palmBase.y, now);
+      } else {
+        motionRecognizer.clear();
+      }
+
+      if (motionPose) {
+        const ratio = pinchRatio(motionPose);
+        isPointerPinching = ratio < (isPointerPinching ? DECORATE_CONFIG.PINCH_EXIT : DECORATE_CONFIG.PINCH_ENTER);
+        onPointer?.({ x: motionPose.indexTip.x, y: motionPose.indexTip.y, pinching: isPointerPinching });
+      } else {
+        isPointerPinching = false;
+        onPointer?.(null);
+      }
+
+      // Fist gesture for tree control, streamed every frame while held
+      HAND_LABELS.forEach(hand => {
+        const pose = poses[hand];
+        const ownsTree = treeHand === hand || (treeHand === null && controlsTree(hand));
+        if (pose && pose.isFist && ownsTree && gestureMachines[hand].activeGesture === 'FIST') {
+          treeHand = hand;
+          const strength = pose.fingersCurled / 4.0;
+          onFistGesture(strength, pose.palmBase.x, pose.palmBase.y);
+          // Push the fist towards / away from the webcam to zoom
+          onHandDepth?.(estimateHandDepth(pose.landmarks, zoomRef.current));
+        }
+      });
+
+      const palmPose = HAND_LABELS.map(hand => (controlsTree(hand) ? poses[hand] : null)).find(Boolean);
+      onPalm?.(palmPose ? { x: palmPose.palmBase.x, y: palmPose.palmBase.y, size: palmPose.palmSize } : null);
+
+      onTrackingFrame?.({
+        hands,
+        gestures: { Left: detected.Left?.gesture ?? null, Right: detected.Right?.gesture ?? null },
+        latency: inputSource === 'CAMERA' ? performance.now() - frameSentAt : 0,
+        timestamp: now,
+      });
+    };
+    resultsHandlerRef.current = handleResults;
+
     const initCamera = async () => {
       try {
         let attempts = 0;
@@ -67,78 +237,31 @@ export const useGestureRecognition = ({
             `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
         });
 
-        handsInstanceRef.current.setOptions({
-          maxNumHands: 1,
-          modelComplexity: 1,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5,
-        });
+        handsInstanceRef.current.setOptions(toHandsOptions(trackingRef.current));
 
-        handsInstanceRef.current.onResults((results: Results) => {
-          if (!isMountedRef.current) return;
-          
-          if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-            const landmarks = results.multiHandLandmarks[0];
-            
-            const fingerState = calculateFingerStates(landmarks);
-            if (!fingerState) return;
-            
-            const { 
-              palmBase, 
-              fingersCurled, 
-              isFist, 
-              isOneFinger, 
-              isTwoFingers, 
-              isThreeFingers 
-            } = fingerState;
-
-            // Handle gestures with priority
-            if (isOneFinger && !wasOneFingerRef.current) {
-              wasOneFingerRef.current = true;
-              onOneFingerGesture();
-            } else if (!isOneFinger) {
-              wasOneFingerRef.current = false;
-            }
-
-            if (isTwoFingers && !wasTwoFingersRef.current) {
-              wasTwoFingersRef.current = true;
-              onTwoFingersGesture();
-            } else if (!isTwoFingers) {
-              wasTwoFingersRef.current = false;
-            }
-
-            if (isThreeFingers && !wasThreeFingersRef.current) {
-              wasThreeFingersRef.current = true;
-              onThreeFingersGesture();
-            } else if (!isThreeFingers) {
-              wasThreeFingersRef.current = false;
-            }
-
-            // Fist gesture for tree control
-            if (isFist) {
-              const strength = fingersCurled / 4.0;
-              onFistGesture(strength, palmBase.x, palmBase.y);
-            } else if (!isFist && !isOneFinger && !isTwoFingers && !isThreeFingers) {
-              onNoGesture();
-            }
-          } else {
-            // No hands
-            onNoGesture();
-          }
-        });
+        handsInstanceRef.current.onResults(handleResults);
 
-        if (videoRef.current) {
-          const CameraClass = getCamera();
+        const startCamera = async () => {
+          if (!videoRef.current) return;
           cameraInstanceRef.current = new CameraClass(videoRef.current, {
             onFrame: async () => {
               if (handsInstanceRef.current && videoRef.current) {
+                frameSentAt = performance.now();
                 await handsInstanceRef.current.send({ image: videoRef.current });
               }
             },
-            width: 640,
-            height: 480,
+            width: trackingRef.current.CAMERA_WIDTH,
+            height: trackingRef.current.CAMERA_HEIGHT,
           });
           await cameraInstanceRef.current.start();
+        };
+        restartCameraRef.current = async () => {
+          cameraInstanceRef.current?.stop();
+          await startCamera();
+        };
+
+        if (videoRef.current) {
+          await startCamera();
           if (isMountedRef.current) onStatusChange('ACTIVE');
         }
       } catch (e: any) {
@@ -150,10 +273,41 @@ export const useGestureRecognition = ({
       }
     };
 
-    initCamera();
+    const initReplay = async () => {
+      const sessionUrl = getSessionUrl();
+      if (!sessionUrl) {
+        // No URL given: wait for a session file to be picked in the UI
+        onStatusChange('ACTIVE');
+        return;
+      }
+
+      try {
+        const session = await loadSessionFromUrl(sessionUrl);
+        if (!isMountedRef.current) return;
+        sessionPlayer.load(session);
+        sessionPlayer.play();
+        onStatusChange('ACTIVE');
+      } catch (e: any) {
+        console.error(e);
+        if (isMountedRef.current) {
+          onStatusChange('ERROR');
+          onError(e.message || 'Failed to load recorded session.');
+        }
+      }
+    };
+
+    if (inputSource === 'REPLAY') {
+      initReplay();
+    } else {
+      initCamera();
+    }
 
     return () => {
       isMountedRef.current = false;
+      resultsHandlerRef.current = null;
+      restartCameraRef.current = null;
+      sessionPlayer.pause();
+      sessionRecorder.stop();
       if (handsInstanceRef.current) {
         handsInstanceRef.current.close();
         handsInstanceRef.current = null;
@@ -165,5 +319,24 @@ export const useGestureRecognition = ({
     };
   }, []);
 
-  return { videoRef };
+  // Tracking settings changed at runtime: model options apply live, a new resolution restarts the webcam
+  useEffect(() => {
+    const previous = trackingRef.current;
+    trackingRef.current = tracking;
+    if (previous === tracking) return;
+
+    handsInstanceRef.current?.setOptions(toHandsOptions(tracking));
+    if (previous.CAMERA_WIDTH !== tracking.CAMERA_WIDTH || previous.CAMERA_HEIGHT !== tracking.CAMERA_HEIGHT) {
+      restartCameraRef.current?.().catch((e: any) => {
+        console.error(e);
+        onError('Failed to restart the camera at the new resolution.');
+      });
+    }
+  }, [tracking]);
+
+  useEffect(() => {
+    zoomRef.current = zoom;
+  }, [zoom]);
+
+  return { videoRef, inputSource, sessionRecorder, sessionPlayer };
 };
\ No newline at end of file
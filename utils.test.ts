@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FINGER_CLASSIFIER_CONFIG, GESTURE_THRESHOLDS } from './constants';
+import { FingerName, Landmark } from './types';
+import { classifyHandPose, setGestureThresholds } from './utils';
+
+type Point = [number, number, number];
+
+// Knuckle positions of an upright right hand with the palm facing the camera, wrist at the origin
+const MCPS: Record<Exclude<FingerName, 'thumb'>, Point> = {
+  index: [0.3, -0.95, 0],
+  middle: [0.1, -1, 0],
+  ring: [-0.1, -0.95, 0],
+  pinky: [-0.3, -0.85, 0],
+};
+const SEGMENTS = [0.5, 0.3, 0.25];
+
+// Joints after `start`, each segment turning by `bend` from the previous one. In the x-y plane
+// `angle` is the first heading; in the y-z plane the finger starts upright and curls towards the camera.
+function chain(start: Point, angle: number, bend: number, lengths: number[], plane: 'xy' | 'yz'): Point[] {
+  const points: Point[] = [];
+  let [x, y, z] = start;
+  lengths.forEach((length, i) => {
+    const heading = angle + bend * (i + (plane === 'yz' ? 1 : 0));
+    if (plane === 'xy') {
+      x += Math.cos(heading) * length;
+      y += Math.sin(heading) * length;
+    } else {
+      y -= Math.cos(heading) * length;
+      z -= Math.sin(heading) * length;
+    }
+    points.push([x, y, z]);
+  });
+  return points;
+}
+
+// 21 MediaPipe landmarks for a hand showing the given fingers, rotated in the image plane and
+// scaled, then mapped to normalised image coordinates
+function buildHand(extended: FingerName[], rotation = 0, scale = 0.12): Landmark[] {
+  const points: Point[] = [[0, 0, 0]];
+
+  // Thumb: CMC and MCP towards the index side, then straight out or folded onto the index knuckle
+  const cmc: Point = [0.3, -0.1, 0];
+  const mcp: Point = [0.6, -0.2, 0];
+  const thumbAngle = Math.atan2(mcp[1] - cmc[1], mcp[0] - cmc[0]);
+  points.push(cmc, mcp);
+  points.push(...(extended.includes('thumb')
+    ? chain(mcp, thumbAngle, 0, [0.35, 0.3], 'xy')
+    : chain(mcp, thumbAngle - 1.0, -1.0, [0.3, 0.25], 'xy')));
+
+  (Object.keys(MCPS) as (keyof typeof MCPS)[]).forEach(finger => {
+    points.push(MCPS[finger]);
+    points.push(...(extended.includes(finger)
+      ? chain(MCPS[finger], Math.atan2(MCPS[finger][1], MCPS[finger][0]), 0, SEGMENTS, 'xy')
+      : chain(MCPS[finger], 0, 1.4, SEGMENTS, 'yz')));
+  });
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return points.map(([x, y, z]) => ({
+    x: (0.5 * FINGER_CLASSIFIER_CONFIG.ASPECT_RATIO + (x * cos - y * sin) * scale) / FINGER_CLASSIFIER_CONFIG.ASPECT_RATIO,
+    y: 0.7 + (x * sin + y * cos) * scale,
+    z: (z * scale) / FINGER_CLASSIFIER_CONFIG.ASPECT_RATIO,
+  }));
+}
+
+const ALL_FINGERS: FingerName[] = ['thumb', 'index', 'middle', 'ring', 'pinky'];
+
+describe('classifyHandPose', () => {
+  afterEach(() => setGestureThresholds(null));
+
+  it('needs all 21 landmarks', () => {
+    expect(classifyHandPose(buildHand(ALL_FINGERS).slice(0, 20))).toBeNull();
+  });
+
+  it('reads an open palm as five extended fingers', () => {
+    const pose = classifyHandPose(buildHand(ALL_FINGERS))!;
+    ALL_FINGERS.forEach(finger => expect(pose.fingers[finger].isExtended).toBe(true));
+    expect(pose.fingersExtended).toBe(4);
+    expect(pose.isFist).toBe(false);
+  });
+
+  it('reads a fist', () => {
+    const pose = classifyHandPose(buildHand([]))!;
+    ALL_FINGERS.forEach(finger => expect(pose.fingers[finger].isCurled).toBe(true));
+    expect(pose.fingersCurled).toBe(4);
+    expect(pose.isFist).toBe(true);
+  });
+
+  it('counts raised fingers', () => {
+    expect(classifyHandPose(buildHand(['index']))!.isOneFinger).toBe(true);
+    expect(classifyHandPose(buildHand(['index', 'middle']))!.isTwoFingers).toBe(true);
+    const three = classifyHandPose(buildHand(['index', 'middle', 'ring']))!;
+    expect(three.isThreeFingers).toBe(true);
+    expect(three.isTwoFingers).toBe(false);
+  });
+
+  it('gives the same curls for a rotated and smaller hand', () => {
+    const upright = classifyHandPose(buildHand(['index', 'middle']))!;
+    const tilted = classifyHandPose(buildHand(['index', 'middle'], Math.PI / 2, 0.06))!;
+    ALL_FINGERS.forEach(finger => {
+      expect(tilted.fingers[finger].curl).toBeCloseTo(upright.fingers[finger].curl, 5);
+    });
+    expect(tilted.isTwoFingers).toBe(true);
+  });
+
+  it('uses the boundaries of each finger from the active thresholds', () => {
+    const landmarks = buildHand(['index']);
+    expect(classifyHandPose(landmarks)!.fingers.index.isExtended).toBe(true);
+
+    setGestureThresholds({ ...GESTURE_THRESHOLDS, INDEX_EXTENDED_MAX: -1 });
+    const pose = classifyHandPose(landmarks)!;
+    expect(pose.fingers.index.isExtended).toBe(false);
+    expect(pose.fingers.middle.isCurled).toBe(true);
+    expect(pose.isOneFinger).toBe(false);
+  });
+});
@@ -1,5 +1,46 @@
 import * as THREE from 'three';
-import { PARTICLE_CONFIG, GESTURE_THRESHOLDS } from './constants';
+import {
+  TREE_CONFIG,
+  GESTURE_THRESHOLDS,
+  FINGER_CLASSIFIER_CONFIG,
+  BIMANUAL_CONFIG
+} from './constants';
+import {
+  Landmark,
+  FingerName,
+  FingerState,
+  HandLabel,
+  LabeledHand,
+  Results,
+  ThemeDefinition,
+  EasingName,
+  GestureThresholds,
+  ZoomSettings
+} from './types';
+
+// Trigger a browser download of a generated file (JSON exports, recordings, snapshots)
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadTextFile(text: string, filename: string, type = 'application/json') {
+  downloadBlob(new Blob([text], { type }), filename);
+}
+
+// Easing curves for morphs, t in 0..1
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeOutBack: t => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2),
+  easeOutElastic: t =>
+    t === 0 || t === 1 ? t : Math.pow(2, -10 * t) * Math.sin((t * 10 - 0.75) * ((2 * Math.PI) / 3)) + 1,
+};
 
 // 3D Noise function for explosion state
 export function noise3D(x: number, y: number, z: number): number {
@@ -10,8 +51,8 @@ export function noise3D(x: number, y: number, z: number): number {
 // Calculate tree particle positions
 export function calculateTreeParticlePositions(particleCount: number): Float32Array {
   const positions = new Float32Array(particleCount * 3);
-  const TREE_HEIGHT = PARTICLE_CONFIG.HEIGHT;
-  const TREE_RADIUS = PARTICLE_CONFIG.RADIUS;
+  const TREE_HEIGHT = TREE_CONFIG.HEIGHT;
+  const TREE_RADIUS = TREE_CONFIG.RADIUS;
 
   for (let i = 0; i < particleCount; i++) {
     const i3 = i * 3;
@@ -75,6 +116,20 @@ export function calculateTreeParticlePositions(particleCount: number): Float32Ar
   return positions;
 }
 
+// Outer radius of the tree cone at a normalised height (0 = base, 1 = tip)
+export function treeRadiusAt(normalizedY: number): number {
+  const linearFactor = 1 - normalizedY;
+  const curvedFactor = Math.pow(1 - normalizedY, 1.3);
+  return TREE_CONFIG.RADIUS * (linearFactor * 0.8 + curvedFactor * 0.2);
+}
+
+// Point on the drooping outer surface of the tree, pushed out by offset
+export function treeSurfacePoint(normalizedY: number, angle: number, offset: number = 0): THREE.Vector3 {
+  const r = treeRadiusAt(normalizedY);
+  const y = -TREE_CONFIG.HEIGHT / 2 + normalizedY * TREE_CONFIG.HEIGHT - r * 0.4;
+  return new THREE.Vector3(Math.cos(angle) * (r + offset), y, Math.sin(angle) * (r + offset));
+}
+
 // Calculate exploded particle positions
 export function calculateExplodedParticlePositions(particleCount: number): Float32Array {
   const positions = new Float32Array(particleCount * 3);
@@ -94,110 +149,183 @@ export function calculateExplodedParticlePositions(particleCount: number): Float
   return positions;
 }
 
-// Generate particle colors based on theme
-export function generateParticleColors(particleCount: number, themeIndex: number): Float32Array {
+// Generate particle colors from a theme's weighted palette
+export function generateParticleColors(particleCount: number, theme: ThemeDefinition): Float32Array {
   const colors = new Float32Array(particleCount * 3);
-  
-  const colorGold = new THREE.Color(0xFFD700);
-  const colorWhite = new THREE.Color(0xFFFFFF);
-  const colorRed = new THREE.Color(0xFF6B6B);
-  const colorGreen = new THREE.Color(0x4ECDC4);
-  const colorBlue = new THREE.Color(0x4169E1);
-  const colorSilver = new THREE.Color(0xC0C0C0);
-  const colorPink = new THREE.Color(0xFF69B4);
-  const colorPurple = new THREE.Color(0x9370DB);
+
+  const palette = theme.palette.map(entry => ({
+    color: new THREE.Color(entry.color).multiplyScalar(entry.intensity),
+    weight: entry.weight,
+  }));
+  const totalWeight = palette.reduce((sum, entry) => sum + entry.weight, 0);
 
   for (let i = 0; i < particleCount; i++) {
     const i3 = i * 3;
-    const rand = Math.random();
-    let tempColor = new THREE.Color();
-
-    if (themeIndex === 0) {
-      // Classic Christmas theme
-      if (rand > 0.7) {
-        tempColor.copy(colorWhite).multiplyScalar(1.3);
-      } else if (rand > 0.4) {
-        tempColor.copy(colorGold).multiplyScalar(1.5);
-      } else if (rand > 0.25) {
-        tempColor.copy(colorRed).multiplyScalar(1.2);
-      } else {
-        tempColor.copy(colorGreen);
-      }
-    } else if (themeIndex === 1) {
-      // Winter theme
-      if (rand > 0.6) {
-        tempColor.copy(colorWhite).multiplyScalar(1.4);
-      } else if (rand > 0.3) {
-        tempColor.copy(colorBlue).multiplyScalar(1.5);
-      } else {
-        tempColor.copy(colorSilver).multiplyScalar(1.3);
-      }
-    } else {
-      // Dreamy theme
-      if (rand > 0.6) {
-        tempColor.copy(colorWhite).multiplyScalar(1.4);
-      } else if (rand > 0.3) {
-        tempColor.copy(colorPink).multiplyScalar(1.5);
-      } else {
-        tempColor.copy(colorPurple).multiplyScalar(1.3);
+
+    // Weighted pick: walk the palette until the random weight is used up
+    let rand = Math.random() * totalWeight;
+    let picked = palette[palette.length - 1].color;
+    for (const entry of palette) {
+      rand -= entry.weight;
+      if (rand <= 0) {
+        picked = entry.color;
+        break;
       }
     }
 
-    colors[i3] = tempColor.r;
-    colors[i3 + 1] = tempColor.g;
-    colors[i3 + 2] = tempColor.b;
+    colors[i3] = picked.r;
+    colors[i3 + 1] = picked.g;
+    colors[i3 + 2] = picked.b;
   }
 
   return colors;
 }
 
-// Calculate finger positions for gesture detection
-export function calculateFingerStates(landmarks: any[]) {
+// Baseline thresholds from the runtime config, and the active calibration profile on top.
+// A null profile falls back to the baseline.
+let defaultThresholds: GestureThresholds = GESTURE_THRESHOLDS;
+let calibratedThresholds: GestureThresholds | null = null;
+
+export function setDefaultGestureThresholds(thresholds: GestureThresholds) {
+  defaultThresholds = thresholds;
+}
+
+export function getDefaultGestureThresholds(): GestureThresholds {
+  return defaultThresholds;
+}
+
+export function setGestureThresholds(thresholds: GestureThresholds | null) {
+  calibratedThresholds = thresholds;
+}
+
+export function getGestureThresholds(): GestureThresholds {
+  return calibratedThresholds || defaultThresholds;
+}
+
+// Key of one finger's curl boundary in GestureThresholds, e.g. INDEX_CURLED_MIN
+export function thresholdKey(finger: FingerName, kind: 'CURLED_MIN' | 'EXTENDED_MAX'): keyof GestureThresholds {
+  return `${finger.toUpperCase()}_${kind}` as keyof GestureThresholds;
+}
+
+// Landmark chains per finger: [base, MCP, PIP, DIP, tip] (thumb: [wrist, CMC, MCP, IP, tip])
+const FINGER_CHAINS: Record<FingerName, number[]> = {
+  thumb: [0, 1, 2, 3, 4],
+  index: [0, 5, 6, 7, 8],
+  middle: [0, 9, 10, 11, 12],
+  ring: [0, 13, 14, 15, 16],
+  pinky: [0, 17, 18, 19, 20],
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Landmarks in a space where x and y share the same pixel scale
+function toVector(landmark: Landmark, target: THREE.Vector3): THREE.Vector3 {
+  return target.set(
+    landmark.x * FINGER_CLASSIFIER_CONFIG.ASPECT_RATIO,
+    landmark.y,
+    landmark.z * FINGER_CLASSIFIER_CONFIG.ASPECT_RATIO
+  );
+}
+
+const tempA = new THREE.Vector3();
+const tempB = new THREE.Vector3();
+const tempC = new THREE.Vector3();
+
+// Bend at joint b in radians: 0 when a-b-c is a straight line
+function jointBend(a: Landmark, b: Landmark, c: Landmark): number {
+  toVector(b, tempB);
+  toVector(a, tempA).sub(tempB);
+  toVector(c, tempC).sub(tempB);
+  if (tempA.lengthSq() === 0 || tempC.lengthSq() === 0) return 0;
+  return Math.PI - tempA.angleTo(tempC);
+}
+
+function landmarkDistance(a: Landmark, b: Landmark): number {
+  return toVector(a, tempA).distanceTo(toVector(b, tempB));
+}
+
+// Boundaries come from the active calibration profile, or the runtime-config defaults
+function toFingerState(curl: number, finger: FingerName): FingerState {
+  const thresholds = getGestureThresholds();
+  const curledMin = thresholds[thresholdKey(finger, 'CURLED_MIN')];
+  const extendedMax = thresholds[thresholdKey(finger, 'EXTENDED_MAX')];
+  const boundary = (curledMin + extendedMax) / 2;
+  const range = curl >= boundary ? 1 - boundary : boundary;
+
+  return {
+    curl,
+    isCurled: curl > curledMin,
+    isExtended: curl < extendedMax,
+    confidence: clamp01(Math.abs(curl - boundary) / Math.max(range, 1e-6)),
+  };
+}
+
+function classifyFinger(landmarks: Landmark[], finger: FingerName, palmSize: number): FingerState {
+  const config = FINGER_CLASSIFIER_CONFIG;
+  const [base, mcp, pip, dip, tip] = FINGER_CHAINS[finger].map(i => landmarks[i]);
+
+  if (finger === 'thumb') {
+    // Thumb bends at its MCP and IP joints and tucks towards the index MCP
+    const bend = jointBend(mcp, pip, dip) + jointBend(pip, dip, tip);
+    const angleCurl = clamp01(bend / config.FULL_THUMB_CURL_ANGLE);
+    const tipDistance = landmarkDistance(tip, landmarks[5]) / palmSize;
+    const distanceCurl = clamp01(
+      (config.THUMB_OPEN_DISTANCE - tipDistance) /
+        (config.THUMB_OPEN_DISTANCE - config.THUMB_TUCKED_DISTANCE)
+    );
+    return toFingerState(
+      angleCurl * config.THUMB_ANGLE_WEIGHT + distanceCurl * (1 - config.THUMB_ANGLE_WEIGHT),
+      finger
+    );
+  }
+
+  const bend = jointBend(base, mcp, pip) + jointBend(mcp, pip, dip) + jointBend(pip, dip, tip);
+  const angleCurl = clamp01(bend / config.FULL_CURL_ANGLE);
+  const tipRatio = landmarkDistance(tip, base) / Math.max(landmarkDistance(mcp, base), 1e-6);
+  const distanceCurl = clamp01(
+    (config.EXTENDED_TIP_RATIO - tipRatio) / (config.EXTENDED_TIP_RATIO - config.CURLED_TIP_RATIO)
+  );
+  return toFingerState(angleCurl * config.ANGLE_WEIGHT + distanceCurl * (1 - config.ANGLE_WEIGHT), finger);
+}
+
+// Rotation- and scale-invariant finger classification from joint angles.
+// Returns the gesture flags plus per-finger curl states.
+export function classifyHandPose(landmarks: Landmark[]) {
   if (!landmarks || landmarks.length < 21) return null;
 
   const wrist = landmarks[0];
-  const thumbTip = landmarks[4];
-  const indexTip = landmarks[8];
-  const middleTip = landmarks[12];
-  const ringTip = landmarks[16];
-  const pinkyTip = landmarks[20];
   const palmBase = landmarks[9];
+  const palmSize = Math.max(landmarkDistance(wrist, palmBase), 1e-6);
+
+  const fingers = {
+    thumb: classifyFinger(landmarks, 'thumb', palmSize),
+    index: classifyFinger(landmarks, 'index', palmSize),
+    middle: classifyFinger(landmarks, 'middle', palmSize),
+    ring: classifyFinger(landmarks, 'ring', palmSize),
+    pinky: classifyFinger(landmarks, 'pinky', palmSize),
+  };
+  const { thumb, index, middle, ring, pinky } = fingers;
+  const longFingers = [index, middle, ring, pinky];
+
+  const fingersCurled = longFingers.filter(f => f.isCurled).length;
+  const fingersExtended = longFingers.filter(f => f.isExtended).length;
 
-  // More sensitive detection with improved thresholds
-  const indexCurled = Math.abs(indexTip.y - palmBase.y) < GESTURE_THRESHOLDS.INDEX_CURLED;
-  const middleCurled = Math.abs(middleTip.y - palmBase.y) < GESTURE_THRESHOLDS.MIDDLE_CURLED;
-  const ringCurled = Math.abs(ringTip.y - palmBase.y) < GESTURE_THRESHOLDS.RING_CURLED;
-  const pinkyCurled = Math.abs(pinkyTip.y - palmBase.y) < GESTURE_THRESHOLDS.PINKY_CURLED;
-  const thumbCurled = Math.abs(thumbTip.y - palmBase.y) < GESTURE_THRESHOLDS.THUMB_CURLED;
-
-  // Extended means clearly above palm
-  const indexExtended = Math.abs(indexTip.y - palmBase.y) > GESTURE_THRESHOLDS.INDEX_EXTENDED;
-  const middleExtended = Math.abs(middleTip.y - palmBase.y) > GESTURE_THRESHOLDS.MIDDLE_EXTENDED;
-  const ringExtended = Math.abs(ringTip.y - palmBase.y) > GESTURE_THRESHOLDS.RING_EXTENDED;
-  const pinkyExtended = Math.abs(pinkyTip.y - palmBase.y) > GESTURE_THRESHOLDS.PINKY_EXTENDED;
-
-  const fingersCurled = [indexCurled, middleCurled, ringCurled, pinkyCurled].filter(x => x).length;
-  const fingersExtended = [indexExtended, middleExtended, ringExtended, pinkyExtended].filter(x => x).length;
-  const isFist = fingersCurled >= 3 && thumbCurled;
-
-  // More lenient finger counting (1, 2, 3)
-  // One finger: Only index is clearly extended, others are clearly not
-  const isOneFinger = indexExtended && !middleExtended && !ringExtended && !pinkyExtended;
-  
-  // Two fingers: Index and middle extended, others not
-  const isTwoFingers = indexExtended && middleExtended && !ringExtended && !pinkyExtended;
-  
-  // Three fingers: Index, middle, ring extended, pinky not
-  const isThreeFingers = indexExtended && middleExtended && ringExtended && !pinkyExtended;
+  const isFist = fingersCurled >= 3 && thumb.isCurled;
+  const isOneFinger = index.isExtended && !middle.isExtended && !ring.isExtended && !pinky.isExtended;
+  const isTwoFingers = index.isExtended && middle.isExtended && !ring.isExtended && !pinky.isExtended;
+  const isThreeFingers = index.isExtended && middle.isExtended && ring.isExtended && !pinky.isExtended;
 
   return {
+    landmarks,
     wrist,
-    thumbTip,
-    indexTip,
-    middleTip,
-    ringTip,
-    pinkyTip,
+    thumbTip: landmarks[4],
+    indexTip: landmarks[8],
+    middleTip: landmarks[12],
+    ringTip: landmarks[16],
+    pinkyTip: landmarks[20],
     palmBase,
+    palmSize,
+    fingers,
     fingersCurled,
     fingersExtended,
     isFist,
@@ -207,87 +335,70 @@ export function calculateFingerStates(landmarks: any[]) {
   };
 }
 
-// Create fireworks particles with layered effect
-export function createFireworkParticles(
-  scene: THREE.Scene,
-  x: number,
-  y: number,
-  z: number,
-  themeIndex: number
-) {
-  const fireworks = [];
-  const layers = [
-    { count: 200, speed: 0.8, size: 0.8, delay: 0 },      // Outer layer: fast, large particles
-    { count: 150, speed: 0.5, size: 0.6, delay: 0.1 },   // Middle layer: medium speed, medium particles
-    { count: 100, speed: 0.3, size: 0.4, delay: 0.2 },   // Inner layer: slow, small particles
-  ];
-
-  layers.forEach((layer, layerIndex) => {
-    setTimeout(() => {
-      const FW_PARTICLES = layer.count;
-      const fwGeometry = new THREE.BufferGeometry();
-      const fwPositions = new Float32Array(FW_PARTICLES * 3);
-      const fwVelocities = new Float32Array(FW_PARTICLES * 3);
-      const fwColors = new THREE.Float32Array(FW_PARTICLES * 3);
-      const fwSizes = new Float32Array(FW_PARTICLES);
-
-      // Different colors per layer, more rich
-      const fwColor1 = new THREE.Color();
-      const fwColor2 = new THREE.Color();
-      fwColor1.setHSL(Math.random(), 1.0, 0.6);
-      fwColor2.setHSL((Math.random() + 0.3) % 1.0, 1.0, 0.7); // Complementary color
-
-      for (let i = 0; i < FW_PARTICLES; i++) {
-        fwPositions[i * 3] = x;
-        fwPositions[i * 3 + 1] = y;
-        fwPositions[i * 3 + 2] = z;
-
-        // Spherical uniform distribution
-        const theta = Math.random() * Math.PI * 2;
-        const phi = Math.acos(2 * Math.random() - 1); // Uniform spherical distribution
-        const speed = (Math.random() * 0.4 + 0.8) * layer.speed;
-
-        fwVelocities[i * 3] = Math.sin(phi) * Math.cos(theta) * speed;
-        fwVelocities[i * 3 + 1] = Math.sin(phi) * Math.sin(theta) * speed;
-        fwVelocities[i * 3 + 2] = Math.cos(phi) * speed;
-
-        // Gradient colors (from color1 to color2)
-        const colorMix = i / FW_PARTICLES;
-        const tempColor = new THREE.Color().lerpColors(fwColor1, fwColor2, colorMix);
-        
-        fwColors[i * 3] = tempColor.r;
-        fwColors[i * 3 + 1] = tempColor.g;
-        fwColors[i * 3 + 2] = tempColor.b;
-        
-        // Particle size variation
-        fwSizes[i] = layer.size * (0.8 + Math.random() * 0.4);
+export type HandPose = NonNullable<ReturnType<typeof classifyHandPose>>;
+
+// Thumb tip to index tip distance relative to palm size; small values mean a pinch
+export function pinchRatio(pose: HandPose): number {
+  return landmarkDistance(pose.thumbTip, pose.indexTip) / pose.palmSize;
+}
+
+// How close the hand is to the webcam: 0 = far, 1 = near.
+// Uses the 3D palm triangle (wrist, index MCP, pinky MCP) so tilting the palm does not shrink it.
+export function estimateHandDepth(landmarks: Landmark[], zoom: ZoomSettings): number {
+  const wrist = landmarks[0];
+  const indexMcp = landmarks[5];
+  const pinkyMcp = landmarks[17];
+  const span = (
+    landmarkDistance(wrist, indexMcp) +
+    landmarkDistance(wrist, pinkyMcp) +
+    landmarkDistance(indexMcp, pinkyMcp)
+  ) / 3;
+
+  return clamp01((span - zoom.FAR_PALM_SPAN) / (zoom.NEAR_PALM_SPAN - zoom.FAR_PALM_SPAN));
+}
+
+// Map hand depth to a camera distance, ignoring the dead zone around the middle
+export function depthToCameraDistance(depth: number, zoom: ZoomSettings): number {
+  const { DEFAULT_DISTANCE, MIN_DISTANCE, MAX_DISTANCE, DEAD_ZONE } = zoom;
+  const offset = depth - 0.5;
+  if (Math.abs(offset) <= DEAD_ZONE) return DEFAULT_DISTANCE;
+
+  const amount = (Math.abs(offset) - DEAD_ZONE) / (0.5 - DEAD_ZONE);
+  return offset > 0
+    ? DEFAULT_DISTANCE - amount * (DEFAULT_DISTANCE - MIN_DISTANCE)
+    : DEFAULT_DISTANCE + amount * (MAX_DISTANCE - DEFAULT_DISTANCE);
+}
+
+const oppositeHand = (label: HandLabel): HandLabel => (label === 'Left' ? 'Right' : 'Left');
+
+// Resolve each detected hand to the user's left or right hand.
+// Falls back to image position when handedness is missing or both hands share a label.
+export function labelHands(results: Results): LabeledHand[] {
+  const landmarkSets = results.multiHandLandmarks || [];
+  const handedness = results.multiHandedness || [];
+
+  // In the raw (unmirrored) webcam image the user's right hand appears on the left
+  const labelByPosition = (landmarks: Landmark[]): HandLabel =>
+    landmarks[0].x < 0.5 ? 'Right' : 'Left';
+
+  // Label before filtering so each hand keeps the handedness at its original index
+  const hands: LabeledHand[] = landmarkSets
+    .map((landmarks, i): LabeledHand | null => {
+      if (!landmarks || landmarks.length < 21) return null;
+      const classification = handedness[i];
+      if (!classification || (classification.label !== 'Left' && classification.label !== 'Right')) {
+        return { label: labelByPosition(landmarks), score: 0, landmarks };
       }
+      const label = BIMANUAL_CONFIG.SWAP_HANDEDNESS ? oppositeHand(classification.label) : classification.label;
+      return { label, score: classification.score, landmarks };
+    })
+    .filter((hand): hand is LabeledHand => hand !== null);
+
+  if (hands.length === 2 && hands[0].label === hands[1].label) {
+    const [a, b] = hands;
+    a.label = a.landmarks[0].x < b.landmarks[0].x ? 'Right' : 'Left';
+    b.label = oppositeHand(a.label);
+  }
 
-      fwGeometry.setAttribute('position', new THREE.BufferAttribute(fwPositions, 3).setUsage(THREE.DynamicDrawUsage));
-      fwGeometry.setAttribute('color', new THREE.BufferAttribute(fwColors, 3));
-      fwGeometry.setAttribute('size', new THREE.BufferAttribute(fwSizes, 1));
-
-      const fwMaterial = new THREE.PointsMaterial({
-        size: layer.size,
-        vertexColors: true,
-        blending: THREE.AdditiveBlending,
-        transparent: true,
-        sizeAttenuation: true, // Distance attenuation
-      });
-
-      const fwParticles = new THREE.Points(fwGeometry, fwMaterial);
-      scene.add(fwParticles);
-
-      fireworks.push({
-        particles: fwParticles,
-        velocities: fwVelocities,
-        age: 0,
-        lifetime: 3.0, // Increased to 3 seconds
-        active: true,
-        layerIndex: layerIndex
-      });
-    }, layer.delay * 1000);
-  });
-
-  return fireworks;
-}
\ No newline at end of file
+  return hands.slice(0, 2);
+}
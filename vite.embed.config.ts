@@ -0,0 +1,20 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Library build of the <gesture-tree> element, with React and three bundled in
+export default defineConfig({
+  plugins: [react()],
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/embed',
+    lib: {
+      entry: path.resolve(__dirname, 'embed.ts'),
+      name: 'GestureTree',
+      formats: ['es', 'umd'],
+      fileName: (format) => `gesture-tree.${format}.js`, // .js even for UMD so a plain <script> tag works
+    },
+  },
+});